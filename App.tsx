@@ -1,84 +1,67 @@
 
-import React, { useState, useRef, useCallback } from 'react';
-import { optimizeCvWithGemini, CvData, extractTextFromImagesWithGemini } from './services/geminiService';
-import { CopyIcon, DownloadIcon, SparkleIcon, InfoIcon, LoadingSpinner, UploadIcon, FileIcon, TrashIcon, CheckCircleIcon, XCircleIcon } from './components/icons';
-import mammoth from 'mammoth';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { optimizeCvWithGemini, analyzeJobDescription, CvData, OptimizationProgress, RegenerationTarget, applyRegeneration } from './services/geminiService';
+import { DownloadIcon, SparkleIcon, InfoIcon, LoadingSpinner, UploadIcon, FileIcon, TrashIcon, CheckCircleIcon, XCircleIcon, PencilIcon, UndoIcon, RedoIcon, ClockIcon, CompareIcon } from './components/icons';
+import { CvDisplay } from './components/CvDisplay';
+import { CvEditor } from './components/CvEditor';
+import { CvDiffView } from './components/CvDiffView';
+import { TemplatePicker } from './components/TemplatePicker';
+import { LocalePicker } from './components/LocalePicker';
+import { TextExportMenu } from './components/TextExportMenu';
+import { ExtractedTextPreview } from './components/ExtractedTextPreview';
+import { RedactionPanel } from './components/RedactionPanel';
+import { OcrSettings } from './components/OcrSettings';
+import { RegenerationDialog } from './components/RegenerationDialog';
+import { HistorySidebar } from './components/HistorySidebar';
+import { BatchDialog, BatchResult } from './components/BatchDialog';
+import { CoverLetterDialog } from './components/CoverLetterDialog';
+import { JobAnalysisPanel } from './components/JobAnalysisPanel';
+import { OptimizationProgressPanel } from './components/OptimizationProgressPanel';
+import { MatchScorePanel } from './components/MatchScorePanel';
+import { FabricationWarningPanel } from './components/FabricationWarningPanel';
+import { CvQualityPanel } from './components/CvQualityPanel';
+import { compareCvMatch } from './services/keywordMatcher';
+import { compareCvs, CvChange, revertChanges } from './services/cvDiff';
+import type { JobAnalysis } from './services/jobAnalysis';
+import type { CoverLetter } from './services/coverLetter';
+import { detectPii, PiiItem } from './services/piiRedaction';
+import { verifyCvAgainstSource, stripFlaggedItems } from './services/fabricationGuard';
+import { applyLintFix, lintCv, LintFinding } from './services/cvLinter';
+import { useUndoableState } from './hooks/useUndoableState';
+import { useCvLibrary } from './hooks/useCvLibrary';
+import { CvTemplateId, DEFAULT_TEMPLATE_ID, getTemplate } from './services/templates';
+import { CvLocaleId, DEFAULT_LOCALE_ID, getLocale } from './services/locales';
+import { cvFileBaseName, downloadBlob } from './services/download';
+import { ApplicationRecord, createApplication, getApplication, getJobDescription, getMasterCv, MasterCvRecord, saveJobDescription, saveMasterCv, updateApplication } from './services/cvLibrary';
+import { ACCEPTED_CV_FILE_TYPES, detectCvImportFormat } from './services/cvImport';
+import { describeCvReadError, exportCv, readCvFile } from './services/cvPipeline';
+import type { PdfPageText } from './services/pdfText';
+import { DEFAULT_OCR_PAGE_LIMIT, OcrProgress, PdfOcrResult } from './services/pdfOcr';
+import { OCR_ENGINES } from './services/ocr';
+import { verifyPdfText, PageSize, PAGE_SIZES, PdfSelfCheckResult } from './services/pdfExport';
 import * as pdfjsLib from 'pdfjs-dist';
 
 // Configure PDF.js worker to ensure it can run in the background.
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@4.4.168/build/pdf.worker.min.mjs`;
-declare var html2pdf: any;
 
-// A new component to display the structured CV data in a professional layout
-const CvDisplay: React.FC<{ cvData: CvData }> = ({ cvData }) => {
-  return (
-    <div id="cv-preview" className="bg-white p-8 md:p-12 text-black font-[calibri] text-[11pt] leading-normal h-full overflow-y-auto">
-      <div className="text-center">
-        <h1 className="text-3xl font-bold uppercase tracking-wider">{cvData.fullName}</h1>
-        {cvData.contactInfo && (
-            <p className="text-sm mt-2">
-                {cvData.contactInfo.location} | {cvData.contactInfo.phone} | {cvData.contactInfo.email}
-                {cvData.contactInfo.linkedin && <> | <a href={cvData.contactInfo.linkedin} className="text-blue-600 hover:underline">{cvData.contactInfo.linkedin}</a></>}
-            </p>
-        )}
-      </div>
-
-      {cvData.summary && (
-        <section className="mt-6">
-          <h2 className="text-sm font-bold uppercase border-b-2 border-black pb-1 tracking-widest">Professional Summary</h2>
-          <p className="mt-2 text-justify">{cvData.summary}</p>
-        </section>
-      )}
-
-      {cvData.workExperience && cvData.workExperience.length > 0 && (
-        <section className="mt-6">
-          <h2 className="text-sm font-bold uppercase border-b-2 border-black pb-1 tracking-widest">Work Experience</h2>
-          {cvData.workExperience.map((job, index) => (
-            <div key={index} className="mt-3">
-              <div className="flex justify-between items-baseline">
-                <h3 className="text-md font-bold">{job.jobTitle}</h3>
-                <p className="text-sm font-semibold">{job.dates}</p>
-              </div>
-              <div className="flex justify-between items-baseline">
-                <p className="text-md italic">{job.company}</p>
-                <p className="text-sm italic">{job.location}</p>
-              </div>
-              <ul className="list-disc list-inside mt-2 space-y-1">
-                {job.responsibilities.map((resp, i) => (
-                  <li key={i}>{resp}</li>
-                ))}
-              </ul>
-            </div>
-          ))}
-        </section>
-      )}
+// What was open when the page was last closed, so a reload picks up where the user left off.
+const SESSION_STORAGE_KEY = 'ats-cv-optimizer.session';
 
-      {cvData.skills && cvData.skills.length > 0 && (
-        <section className="mt-6">
-          <h2 className="text-sm font-bold uppercase border-b-2 border-black pb-1 tracking-widest">Skills</h2>
-          <p className="mt-2">{cvData.skills.join(' | ')}</p>
-        </section>
-      )}
+interface SavedSession {
+  applicationId: string | null;
+  masterCvId: string | null;
+  jobDescriptionText: string;
+  localeId?: CvLocaleId;
+}
 
-      {cvData.education && cvData.education.length > 0 && (
-        <section className="mt-6">
-          <h2 className="text-sm font-bold uppercase border-b-2 border-black pb-1 tracking-widest">Education</h2>
-          {cvData.education.map((edu, index) => (
-            <div key={index} className="mt-2 flex justify-between">
-                <div>
-                    <h3 className="text-md font-bold">{edu.institution}</h3>
-                    <p className="italic">{edu.degree}</p>
-                </div>
-                <p className="text-sm font-semibold">{edu.dates}</p>
-            </div>
-          ))}
-        </section>
-      )}
-    </div>
-  );
+const loadSession = (): SavedSession | null => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) || 'null');
+  } catch {
+    return null;
+  }
 };
 
-
 const LabeledTextarea: React.FC<{
   id: string;
   label: string;
@@ -101,18 +84,23 @@ const LabeledTextarea: React.FC<{
   </div>
 );
 
+// The uploaded file, or a CV reopened from the library.
+type CvSource = Pick<File, 'name' | 'size'>;
+
 interface FileInputProps {
   id: string;
   label: string;
-  file: File | null;
+  file: CvSource | null;
   onFileChange: (file: File) => void;
   onFileClear: () => void;
   isLoading: boolean;
   loadingText: string;
+  onCancel?: () => void;
+  successText: string;
   parsingError: string | null;
 }
 
-const FileInput: React.FC<FileInputProps> = ({ id, label, file, onFileChange, onFileClear, isLoading, loadingText, parsingError }) => {
+const FileInput: React.FC<FileInputProps> = ({ id, label, file, onFileChange, onFileClear, isLoading, loadingText, onCancel, successText, parsingError }) => {
     const inputRef = useRef<HTMLInputElement>(null);
     const [isDragging, setIsDragging] = useState(false);
 
@@ -170,13 +158,16 @@ const FileInput: React.FC<FileInputProps> = ({ id, label, file, onFileChange, on
                     id={id}
                     ref={inputRef}
                     onChange={handleFileSelect}
-                    accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                    accept={ACCEPTED_CV_FILE_TYPES}
                     className="hidden"
                 />
                 {isLoading ? (
                      <div className="text-slate-500">
                         <LoadingSpinner className="mx-auto h-8 w-8 text-indigo-500"/>
                         <p className="mt-2 text-sm font-semibold">{loadingText}</p>
+                        {onCancel && (
+                            <button onClick={onCancel} className="mt-2 text-sm font-semibold text-indigo-600 hover:underline">Cancel</button>
+                        )}
                     </div>
                 ) : parsingError ? (
                     <div className="text-red-600">
@@ -199,14 +190,14 @@ const FileInput: React.FC<FileInputProps> = ({ id, label, file, onFileChange, on
                          </div>
                          <div className="flex items-center gap-2 text-green-600 mt-3 bg-green-50 p-2 rounded-md">
                            <CheckCircleIcon className="h-5 w-5" />
-                           <span className="text-xs font-semibold">File content extracted successfully.</span>
+                           <span className="text-xs font-semibold">{successText}</span>
                          </div>
                      </div>
                 ) : (
                     <div className="text-slate-500">
                         <UploadIcon className="mx-auto h-8 w-8"/>
                         <p className="mt-2 text-sm font-semibold">Drop a file or <span className="text-indigo-600">click to upload</span></p>
-                        <p className="text-xs">Supported formats: DOCX, PDF</p>
+                        <p className="text-xs">Supported formats: PDF, DOCX, ODT, RTF, TXT, MD, JSON Resume, LinkedIn export (.zip)</p>
                     </div>
                 )}
             </div>
@@ -216,133 +207,127 @@ const FileInput: React.FC<FileInputProps> = ({ id, label, file, onFileChange, on
 
 
 export default function App() {
-  const [userCvFile, setUserCvFile] = useState<File | null>(null);
+  const [userCvFile, setUserCvFile] = useState<CvSource | null>(null);
   const [userCvText, setUserCvText] = useState('');
+  // Set when the CV was imported from a structured source and needs no text extraction.
+  const [importedCvData, setImportedCvData] = useState<CvData | null>(null);
+  const [pdfPages, setPdfPages] = useState<PdfPageText[] | null>(null);
+  const [ocrPageLimit, setOcrPageLimit] = useState(DEFAULT_OCR_PAGE_LIMIT);
+  const [ocrProgress, setOcrProgress] = useState<OcrProgress | null>(null);
+  const [preferLocalOcr, setPreferLocalOcr] = useState(false);
+  const [ocrResult, setOcrResult] = useState<PdfOcrResult | null>(null);
+  const ocrAbortRef = useRef<AbortController | null>(null);
   const [jobDescriptionText, setJobDescriptionText] = useState('');
-  const [optimizedCvData, setOptimizedCvData] = useState<CvData | null>(null);
+  // Personal details are replaced with placeholders before the CV is sent to the AI, except those opted out.
+  const [isRedactionEnabled, setIsRedactionEnabled] = useState(true);
+  const [piiOptOut, setPiiOptOut] = useState<Set<string>>(new Set());
+  // The reviewed analysis of the job description, and the text it was made from.
+  const [jobAnalysis, setJobAnalysis] = useState<{ sourceText: string; analysis: JobAnalysis } | null>(null);
+  const [isAnalyzingJob, setIsAnalyzingJob] = useState(false);
+  const [jobAnalysisError, setJobAnalysisError] = useState<string | null>(null);
+  // Edits made in the preview are recorded so they can be undone; a new optimization resets the history.
+  const cvHistory = useUndoableState<CvData | null>(null);
+  const optimizedCvData = cvHistory.value;
+  const [viewMode, setViewMode] = useState<'preview' | 'edit' | 'compare'>('preview');
+  // Changes in the comparison view that the user has reviewed and kept.
+  const [acceptedChangeIds, setAcceptedChangeIds] = useState<Set<string>>(new Set());
+  const [templateId, setTemplateId] = useState<CvTemplateId>(DEFAULT_TEMPLATE_ID);
+  const [pageSize, setPageSize] = useState<PageSize>('letter');
+  const [localeId, setLocaleId] = useState<CvLocaleId>(DEFAULT_LOCALE_ID);
+  const [pdfCheck, setPdfCheck] = useState<PdfSelfCheckResult | null>(null);
+  const [regenerationTarget, setRegenerationTarget] = useState<RegenerationTarget | null>(null);
+  // The cover letter written for the CV on screen; cleared when another CV is optimized or opened.
+  const [coverLetter, setCoverLetter] = useState<CoverLetter | null>(null);
+  const [isCoverLetterOpen, setIsCoverLetterOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [optimizationProgress, setOptimizationProgress] = useState<OptimizationProgress | null>(null);
+  const optimizeAbortRef = useRef<AbortController | null>(null);
+  const [isCancellingOptimize, setIsCancellingOptimize] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [isCopied, setIsCopied] = useState(false);
   const [isParsing, setIsParsing] = useState(false);
   const [isScanning, setIsScanning] = useState(false);
   const [parsingError, setParsingError] = useState<string | null>(null);
-
-  const parseFile = useCallback(async (file: File): Promise<{text: string; isScanned: boolean}> => {
-    if (file.type === 'application/pdf') {
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-      let textContent = '';
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const text = await page.getTextContent();
-        textContent += text.items.map(item => ('str' in item ? item.str : '')).join(' ') + '\n';
-      }
-      // Heuristic: If the PDF has pages but we extracted less than 50 words, it's likely a scanned document.
-      const isScanned = pdf.numPages > 0 && textContent.trim().split(/\s+/).length < 50;
-      return { text: textContent, isScanned };
-    } else if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-      const arrayBuffer = await file.arrayBuffer();
-      const result = await mammoth.extractRawText({ arrayBuffer });
-      return { text: result.value, isScanned: false };
-    }
-    throw new Error('Unsupported file type');
-  }, []);
-
-  const performOcrOnPdf = async (file: File): Promise<string> => {
-    const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-    const base64Images: string[] = [];
-    // Limit OCR to the first 5 pages to prevent excessive processing time and API costs
-    const maxPagesForOcr = Math.min(pdf.numPages, 5);
-
-    for (let i = 1; i <= maxPagesForOcr; i++) {
-        const page = await pdf.getPage(i);
-        // Use a higher scale for better OCR accuracy
-        const viewport = page.getViewport({ scale: 2.0 }); 
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d');
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
-
-        if (context) {
-            // FIX: The RenderParameters type for this version of pdfjs-dist requires the `canvas` property.
-            await page.render({ canvas: canvas, canvasContext: context, viewport: viewport }).promise;
-            // Use JPEG with quality for smaller size and remove the data URL prefix
-            const dataUrl = canvas.toDataURL('image/jpeg', 0.9); 
-            base64Images.push(dataUrl.split(',')[1]); 
-        }
-    }
-    
-    if (base64Images.length === 0) {
-        throw new Error("Could not convert PDF pages to images for OCR.");
-    }
-
-    return await extractTextFromImagesWithGemini(base64Images);
-  };
-
+  const [showFabricationHighlights, setShowFabricationHighlights] = useState(true);
+  const [showLintHighlights, setShowLintHighlights] = useState(true);
+  const library = useCvLibrary();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [hasOpenedBatch, setHasOpenedBatch] = useState(false);
+  const [masterCvId, setMasterCvId] = useState<string | null>(null);
+  // The saved application the optimized CV belongs to; edits are saved into it.
+  const [activeApplicationId, setActiveApplicationId] = useState<string | null>(null);
+  const savedApplicationRef = useRef<Pick<ApplicationRecord, 'cvData' | 'templateId'> | null>(null);
+  const [isSessionRestored, setIsSessionRestored] = useState(false);
 
   const handleFileChange = async (file: File) => {
     if (!file) return;
 
-    const acceptedTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-    if (!acceptedTypes.includes(file.type)) {
-      setParsingError('Invalid file type. Use PDF or DOCX.');
+    if (!detectCvImportFormat(file)) {
+      setParsingError('Invalid file type. Use PDF, DOCX, ODT, RTF, TXT, Markdown, JSON Resume or a LinkedIn data export ZIP.');
       return;
     }
     
     setUserCvFile(file);
+    setMasterCvId(null);
     setUserCvText('');
+    setImportedCvData(null);
+    setPdfPages(null);
+    setOcrResult(null);
     setParsingError(null);
     setIsParsing(true);
     setIsScanning(false);
     
+    const controller = new AbortController();
+    ocrAbortRef.current = controller;
     try {
-      const { text: initialText, isScanned } = await parseFile(file);
-
-      if (isScanned && file.type === 'application/pdf') {
-        setIsParsing(false); // Switch from parsing to scanning state
-        setIsScanning(true);
-        const ocrText = await performOcrOnPdf(file);
-        if(!ocrText || ocrText.trim().length === 0){
-          throw new Error("AI OCR returned no text.");
-        }
-        setUserCvText(ocrText);
-      } else {
-        setUserCvText(initialText);
-      }
-    } catch (err: any) {
+      const { text, cvData, pages, ocr } = await readCvFile(file, {
+        ocr: { maxPages: ocrPageLimit, preferLocal: preferLocalOcr, signal: controller.signal, onProgress: setOcrProgress },
+        onOcrStart: () => {
+          setIsParsing(false); // Switch from parsing to scanning state
+          setIsScanning(true);
+        },
+      });
+      setUserCvText(text);
+      setImportedCvData(cvData);
+      setPdfPages(pages);
+      setOcrResult(ocr);
+      rememberMasterCv(file, text, cvData);
+    } catch (err) {
       console.error("File processing error:", err);
       // Clear file on any error for better UX
       setUserCvFile(null); 
       setUserCvText('');
-
-      if (err.message.includes("AI OCR returned no text.")) {
-        setParsingError('AI could not read any text from this document.');
-      } else if (err.message.includes("Failed to extract text")){
-         setParsingError('AI-powered text extraction failed. The document might be unreadable or a network issue occurred.');
-      } else if (err.name === 'PasswordException') {
-        setParsingError('This PDF is password-protected. Please upload an unprotected file.');
-      } else if (err.name === 'InvalidPDFException' || err.name === 'MissingPDFException') {
-        setParsingError('The uploaded PDF file appears to be invalid or corrupted.');
-      } 
-      else if (err instanceof Error) {
-        if (file.type.includes('wordprocessingml')) {
-             setParsingError('Could not read the DOCX file. It may be corrupted or in an old format.');
-        } else {
-             setParsingError('Failed to read the contents of this file.');
-        }
-      } else {
-        setParsingError('An unexpected error occurred while processing the file.');
-      }
+      setImportedCvData(null);
+      setPdfPages(null);
+      setParsingError(describeCvReadError(err, file));
     } finally {
         setIsParsing(false);
         setIsScanning(false);
+        setOcrProgress(null);
+        ocrAbortRef.current = null;
+    }
+  };
+
+  const handleCancelScan = () => ocrAbortRef.current?.abort();
+
+  // Saving to the library is best-effort: the app works the same without local storage.
+  const rememberMasterCv = async (file: File, text: string, cvData: CvData | null) => {
+    try {
+      const record = await saveMasterCv({ name: file.name, size: file.size, text, cvData });
+      setMasterCvId(record.id);
+      library.refresh();
+    } catch (e) {
+      console.warn("Could not save the CV to the library:", e);
     }
   };
 
   const handleFileClear = () => {
     setUserCvFile(null);
+    setMasterCvId(null);
     setUserCvText('');
+    setImportedCvData(null);
+    setPdfPages(null);
+    setOcrResult(null);
     setParsingError(null);
     setIsParsing(false);
     setIsScanning(false);
@@ -350,52 +335,284 @@ export default function App() {
 
   const isFormValid = userCvText.trim() !== '' && jobDescriptionText.trim() !== '';
 
+  const piiItems = useMemo(() => detectPii(userCvText), [userCvText]);
+  const redactions = useMemo(
+    () => isRedactionEnabled ? piiItems.filter(item => !piiOptOut.has(item.value)) : [],
+    [isRedactionEnabled, piiItems, piiOptOut]
+  );
+
+  const handleTogglePiiItem = (item: PiiItem) => {
+    const next = new Set(piiOptOut);
+    if (next.has(item.value)) next.delete(item.value);
+    else next.add(item.value);
+    setPiiOptOut(next);
+  };
+
+  const matchComparison = useMemo(
+    () => optimizedCvData ? compareCvMatch(userCvText, optimizedCvData, jobDescriptionText) : null,
+    [userCvText, optimizedCvData, jobDescriptionText]
+  );
+
+  const verificationReport = useMemo(
+    () => optimizedCvData ? verifyCvAgainstSource(optimizedCvData, userCvText) : null,
+    [optimizedCvData, userCvText]
+  );
+
+  const lintReport = useMemo(
+    () => optimizedCvData ? lintCv(optimizedCvData, getTemplate(templateId), pageSize) : null,
+    [optimizedCvData, templateId, pageSize]
+  );
+
+  const hasOriginalCv = !!importedCvData || userCvText.trim() !== '';
+
+  const cvComparison = useMemo(
+    () => optimizedCvData && viewMode === 'compare' ? compareCvs(importedCvData || userCvText, optimizedCvData) : null,
+    [importedCvData, userCvText, optimizedCvData, viewMode]
+  );
+
+  const handleAcceptChanges = (changes: CvChange[]) =>
+    setAcceptedChangeIds(new Set([...acceptedChangeIds, ...changes.map(change => change.id)]));
+
+  // Rejecting reverts the items to the original as one undoable step.
+  const handleRejectChanges = (changes: CvChange[]) => {
+    if (optimizedCvData && cvComparison) {
+      cvHistory.set(revertChanges(optimizedCvData, cvComparison, new Set(changes.map(change => change.id))));
+    }
+  };
+
+  const handleApplyLintFix = (finding: LintFinding) => {
+    if (optimizedCvData) cvHistory.set(applyLintFix(optimizedCvData, finding));
+  };
+
+  const handleStripFlagged = () => {
+    if (optimizedCvData && verificationReport) {
+      cvHistory.set(stripFlaggedItems(optimizedCvData, verificationReport));
+    }
+  };
+
+  const isJobAnalysisStale = !!jobAnalysis && jobAnalysis.sourceText !== jobDescriptionText;
+
+  const handleAnalyzeJob = async () => {
+    if (jobDescriptionText.trim() === '' || isAnalyzingJob) return;
+    const sourceText = jobDescriptionText;
+    setIsAnalyzingJob(true);
+    setJobAnalysisError(null);
+    try {
+      setJobAnalysis({ sourceText, analysis: await analyzeJobDescription(sourceText) });
+    } catch (e) {
+      setJobAnalysisError(e instanceof Error ? e.message : 'The job description could not be analyzed.');
+    } finally {
+      setIsAnalyzingJob(false);
+    }
+  };
+
   const handleOptimize = async () => {
     if (!isFormValid || isParsing || isScanning) return;
 
     setIsLoading(true);
     setError(null);
-    setOptimizedCvData(null);
-
+    setViewMode('preview');
+    setAcceptedChangeIds(new Set());
+    setCoverLetter(null);
+    setPdfCheck(null);
+    cvHistory.reset(null);
+    setActiveApplicationId(null);
+
+    const controller = new AbortController();
+    optimizeAbortRef.current = controller;
     try {
-      const result = await optimizeCvWithGemini(userCvText, jobDescriptionText);
-      setOptimizedCvData(result);
+      // The reviewed analysis replaces the raw text, unless the job description was edited since.
+      const jobDescription = jobAnalysis && !isJobAnalysisStale ? jobAnalysis.analysis : jobDescriptionText;
+      const result = await optimizeCvWithGemini(importedCvData || userCvText, jobDescription, {
+        signal: controller.signal,
+        redactions,
+        locale: localeId,
+        onProgress: setOptimizationProgress,
+      });
+      cvHistory.reset(result);
+      rememberApplication(result);
     } catch (e) {
-      setError(e instanceof Error ? e.message : 'An unknown error occurred. The AI may have returned an invalid format.');
+      // A cancelled optimization just returns to the empty result panel.
+      if (!controller.signal.aborted) {
+        setError(e instanceof Error ? e.message : 'An unknown error occurred. The AI may have returned an invalid format.');
+      }
     } finally {
       setIsLoading(false);
+      setOptimizationProgress(null);
+      setIsCancellingOptimize(false);
+      optimizeAbortRef.current = null;
+    }
+  };
+
+  const handleCancelOptimize = () => {
+    setIsCancellingOptimize(true);
+    optimizeAbortRef.current?.abort();
+  };
+
+  const rememberApplication = async (cvData: CvData) => {
+    try {
+      const jobDescription = await saveJobDescription(jobDescriptionText);
+      const application = await createApplication(jobDescription, masterCvId, cvData, templateId);
+      savedApplicationRef.current = application;
+      setActiveApplicationId(application.id);
+      library.refresh();
+    } catch (e) {
+      console.warn("Could not save the application to the library:", e);
+    }
+  };
+
+  // Edits and template changes are saved into the open application shortly after they are made.
+  useEffect(() => {
+    const saved = savedApplicationRef.current;
+    if (!activeApplicationId || !optimizedCvData) return;
+    if (saved && saved.cvData === optimizedCvData && saved.templateId === templateId) return;
+    const timer = setTimeout(() => {
+      savedApplicationRef.current = { cvData: optimizedCvData, templateId };
+      updateApplication(activeApplicationId, { cvData: optimizedCvData, templateId })
+        .then(library.refresh)
+        .catch(e => console.warn("Could not save changes to the application:", e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [activeApplicationId, optimizedCvData, templateId]);
+
+  const loadMasterCv = (cv: MasterCvRecord | null) => {
+    setUserCvFile(cv ? { name: cv.name, size: cv.size } : null);
+    setMasterCvId(cv?.id || null);
+    setUserCvText(cv?.text || '');
+    setImportedCvData(cv?.cvData || null);
+    setPdfPages(null);
+    setOcrResult(null);
+    setParsingError(null);
+  };
+
+  const openApplication = async (application: ApplicationRecord) => {
+    const [masterCv, jobDescription] = await Promise.all([
+      application.masterCvId ? getMasterCv(application.masterCvId) : null,
+      getJobDescription(application.jobDescriptionId),
+    ]);
+    loadMasterCv(masterCv);
+    setJobDescriptionText(jobDescription?.text || '');
+    setTemplateId(application.templateId);
+    savedApplicationRef.current = application;
+    setActiveApplicationId(application.id);
+    cvHistory.reset(application.cvData);
+    setViewMode('preview');
+    setAcceptedChangeIds(new Set());
+    setCoverLetter(null);
+    setError(null);
+    setPdfCheck(null);
+  };
+
+  const handleOpenApplication = (application: ApplicationRecord) => {
+    setIsHistoryOpen(false);
+    openApplication(application).catch(e => {
+      console.error("Could not open the application:", e);
+      setError('This application could not be opened from local storage.');
+    });
+  };
+
+  const handleLoadMasterCv = (cv: MasterCvRecord) => {
+    setIsHistoryOpen(false);
+    loadMasterCv(cv);
+  };
+
+  const handleOpenBatchResult = (result: BatchResult) => {
+    setIsBatchOpen(false);
+    setJobDescriptionText(result.jobDescription);
+    savedApplicationRef.current = result.applicationId ? { cvData: result.cvData, templateId } : null;
+    setActiveApplicationId(result.applicationId);
+    cvHistory.reset(result.cvData);
+    setViewMode('preview');
+    setAcceptedChangeIds(new Set());
+    setCoverLetter(null);
+    setError(null);
+    setPdfCheck(null);
+  };
+
+  // The optimized CV stays on screen, but is no longer saved anywhere.
+  const handleApplicationDeleted = (id: string) => {
+    if (id === activeApplicationId) setActiveApplicationId(null);
+  };
+
+  // Restore the last session on startup. The session is not saved again until this has finished.
+  useEffect(() => {
+    const session = loadSession();
+    (async () => {
+      if (!session) return;
+      setJobDescriptionText(session.jobDescriptionText || '');
+      setLocaleId(getLocale(session.localeId).id);
+      const application = session.applicationId ? await getApplication(session.applicationId) : null;
+      if (application) {
+        await openApplication(application);
+      } else if (session.masterCvId) {
+        loadMasterCv(await getMasterCv(session.masterCvId));
+      }
+    })()
+      .catch(e => console.warn("Could not restore the last session:", e))
+      .finally(() => setIsSessionRestored(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isSessionRestored) return;
+    const session: SavedSession = { applicationId: activeApplicationId, masterCvId, jobDescriptionText, localeId };
+    try {
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    } catch {
+      // Storage full or disabled: the session simply won't survive a reload.
+    }
+  }, [isSessionRestored, activeApplicationId, masterCvId, jobDescriptionText, localeId]);
+
+  // The paper size follows the CV's locale (A4 outside North America) and can still be changed afterwards.
+  const documentLocaleId = optimizedCvData?.locale ?? localeId;
+  useEffect(() => {
+    setPageSize(getLocale(documentLocaleId).pageSize);
+  }, [documentLocaleId]);
+
+  const handleApplyRegeneration = (lines: string[]) => {
+    if (optimizedCvData && regenerationTarget) {
+      cvHistory.set(applyRegeneration(optimizedCvData, regenerationTarget, lines));
     }
+    setRegenerationTarget(null);
   };
 
-  const handleCopy = () => {
-    const cvElement = document.getElementById('cv-preview');
-    if (cvElement) {
-      navigator.clipboard.writeText(cvElement.innerText);
-      setIsCopied(true);
-      setTimeout(() => setIsCopied(false), 2000);
+  const handleSaveAsPdf = async () => {
+    if (!optimizedCvData) return;
+    setPdfCheck(null);
+    try {
+      const blob = await exportCv(optimizedCvData, 'pdf', { template: getTemplate(templateId), pageSize });
+      downloadBlob(blob, `${cvFileBaseName(optimizedCvData)}.pdf`);
+      // Confirm that an ATS reading the PDF's text layer sees the same content as the preview.
+      setPdfCheck(await verifyPdfText(new Uint8Array(await blob.arrayBuffer()), optimizedCvData));
+    } catch (e) {
+      console.error("PDF export error:", e);
+      setError('Could not create the PDF. Please try again.');
     }
   };
-  
-  const handleSaveAsPdf = () => {
-    const element = document.getElementById('cv-preview');
-    if (element && optimizedCvData) {
-        const opt = {
-            margin:       [0.5, 0.5, 0.5, 0.5], // top, left, bottom, right
-            filename:     `${optimizedCvData.fullName.replace(/\s+/g, '_')}_CV.pdf`,
-            image:        { type: 'jpeg', quality: 0.98 },
-            html2canvas:  { scale: 2, useCORS: true },
-            jsPDF:        { unit: 'in', format: 'letter', orientation: 'portrait' }
-        };
-        html2pdf().set(opt).from(element).save();
+
+  const handleSaveAsDocx = async () => {
+    if (!optimizedCvData) return;
+    try {
+      const blob = await exportCv(optimizedCvData, 'docx', { template: getTemplate(templateId), pageSize });
+      downloadBlob(blob, `${cvFileBaseName(optimizedCvData)}.docx`);
+    } catch (e) {
+      console.error("DOCX export error:", e);
+      setError('Could not create the Word document. Please try again.');
     }
   };
 
   return (
     <div className="min-h-screen bg-slate-50">
       <header className="bg-white shadow-sm">
-        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 text-center">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 text-center relative">
           <h1 className="text-3xl font-bold tracking-tight text-slate-900">ATS CV Optimizer</h1>
           <p className="mt-2 text-md text-slate-600">Tailor your CV to any job description, instantly.</p>
+          <button
+            onClick={() => setIsHistoryOpen(true)}
+            className="absolute right-4 sm:right-6 lg:right-8 top-1/2 -translate-y-1/2 flex items-center gap-2 bg-slate-100 text-slate-800 font-medium py-2 px-4 rounded-md hover:bg-slate-200 transition-colors"
+          >
+            <ClockIcon className="h-4 w-4" />
+            History{library.applications.length > 0 ? ` (${library.applications.length})` : ''}
+          </button>
         </div>
       </header>
 
@@ -412,14 +629,46 @@ export default function App() {
                <div className="space-y-6">
                  <FileInput
                     id="user-cv"
-                    label="Your Current CV (.docx, .pdf)"
+                    label="Your Current CV"
                     file={userCvFile}
                     onFileChange={handleFileChange}
                     onFileClear={handleFileClear}
                     isLoading={isParsing || isScanning}
-                    loadingText={isScanning ? 'Scanning with AI (OCR)...' : 'Parsing file...'}
+                    loadingText={isScanning
+                      ? (ocrProgress
+                        ? `Scanning page ${ocrProgress.page} ${OCR_ENGINES[ocrProgress.engine].label} (OCR), ${ocrProgress.done + 1} of ${ocrProgress.total}...`
+                        : `Scanning ${OCR_ENGINES[preferLocalOcr ? 'local' : 'ai'].label} (OCR)...`)
+                      : 'Parsing file...'}
+                    onCancel={isScanning ? handleCancelScan : undefined}
+                    successText={importedCvData ? 'Structured CV imported: no text extraction needed.' : 'File content extracted successfully.'}
                     parsingError={parsingError}
                   />
+                  <OcrSettings
+                    pageLimit={ocrPageLimit}
+                    onPageLimitChange={setOcrPageLimit}
+                    preferLocal={preferLocalOcr}
+                    onPreferLocalChange={setPreferLocalOcr}
+                    disabled={isParsing || isScanning}
+                  />
+                  {userCvText && !isParsing && !isScanning && (
+                    <ExtractedTextPreview
+                      text={userCvText}
+                      pages={pdfPages}
+                      isStructured={!!importedCvData}
+                      ocr={ocrResult}
+                    />
+                  )}
+                  {userCvText && !isParsing && !isScanning && (
+                    <RedactionPanel
+                      cv={importedCvData || userCvText}
+                      items={piiItems}
+                      isEnabled={isRedactionEnabled}
+                      onToggleEnabled={setIsRedactionEnabled}
+                      optedOut={piiOptOut}
+                      onToggleItem={handleTogglePiiItem}
+                      usedAiOcr={[...(ocrResult?.pages.values() || [])].some(page => page.engine === 'ai')}
+                    />
+                  )}
                   <LabeledTextarea
                     id="job-description"
                     label="Target Job Description"
@@ -427,6 +676,30 @@ export default function App() {
                     onChange={(e) => setJobDescriptionText(e.target.value)}
                     placeholder="Paste the complete job description here..."
                   />
+                  {jobAnalysis ? (
+                    <JobAnalysisPanel
+                      analysis={jobAnalysis.analysis}
+                      onChange={(analysis) => setJobAnalysis({ ...jobAnalysis, analysis })}
+                      isStale={isJobAnalysisStale}
+                      isAnalyzing={isAnalyzingJob}
+                      onReanalyze={handleAnalyzeJob}
+                      onDiscard={() => setJobAnalysis(null)}
+                    />
+                  ) : (
+                    <div className="-mt-4">
+                      <button
+                        onClick={handleAnalyzeJob}
+                        disabled={jobDescriptionText.trim() === '' || isAnalyzingJob}
+                        className="flex items-center gap-1 text-sm font-semibold text-indigo-600 hover:underline disabled:text-slate-400 disabled:no-underline"
+                      >
+                        {isAnalyzingJob ? <LoadingSpinner size="h-4 w-4" /> : <SparkleIcon className="h-4 w-4" />}
+                        {isAnalyzingJob ? 'Analyzing...' : 'Analyze job description'}
+                      </button>
+                      <p className="mt-1 text-xs text-slate-500">Review the extracted requirements and pin the keywords that matter before optimizing.</p>
+                      {jobAnalysisError && <p className="mt-1 text-xs text-red-600">{jobAnalysisError}</p>}
+                    </div>
+                  )}
+                  <LocalePicker value={localeId} onChange={setLocaleId} disabled={isLoading} />
                </div>
             </div>
             <div>
@@ -447,6 +720,16 @@ export default function App() {
                   </>
                 )}
               </button>
+              <button
+                onClick={() => {
+                  setIsBatchOpen(true);
+                  setHasOpenedBatch(true);
+                }}
+                disabled={userCvText.trim() === '' || isParsing || isScanning}
+                className="mt-3 w-full text-sm font-semibold text-indigo-600 hover:underline disabled:text-slate-400 disabled:no-underline"
+              >
+                Optimize for several job descriptions at once (batch mode)
+              </button>
             </div>
           </div>
           
@@ -454,11 +737,23 @@ export default function App() {
              <h2 className="text-xl font-semibold text-slate-800 mb-4">2. Your Optimized CV</h2>
              <div className="flex-grow bg-slate-200 rounded-md border border-slate-300 min-h-[40rem] flex flex-col overflow-hidden">
               {isLoading && (
-                 <div className="m-auto text-center text-slate-500">
-                  <LoadingSpinner size="h-10 w-10" />
-                  <p className="mt-4 font-semibold">Generating your new CV...</p>
-                  <p className="text-sm">This may take a moment.</p>
-                </div>
+                <>
+                  <OptimizationProgressPanel progress={optimizationProgress} isCancelling={isCancellingOptimize} onCancel={handleCancelOptimize} />
+                  {optimizationProgress?.partialCv ? (
+                    // Sections fill in as the answer streams in.
+                    <div className="flex-grow relative">
+                      <div className="absolute inset-0">
+                        <CvDisplay cvData={optimizationProgress.partialCv} templateId={templateId} />
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="m-auto text-center text-slate-500">
+                      <LoadingSpinner size="h-10 w-10" />
+                      <p className="mt-4 font-semibold">Generating your new CV...</p>
+                      <p className="text-sm">Sections will appear here as they are written.</p>
+                    </div>
+                  )}
+                </>
               )}
               {error && (
                 <div className="m-auto text-center text-red-600 bg-red-50 p-6 rounded-md w-full">
@@ -468,21 +763,104 @@ export default function App() {
               )}
               {!isLoading && !error && optimizedCvData && (
                 <>
+                  <div className="p-3 border-b border-slate-300 bg-white flex items-center justify-between">
+                    <TemplatePicker value={templateId} onChange={setTemplateId} />
+                    <div className="flex items-center gap-2 text-sm">
+                      <label htmlFor="page-size" className="font-medium text-slate-700">Paper</label>
+                      <select
+                        id="page-size"
+                        value={pageSize}
+                        onChange={(e) => setPageSize(e.target.value as PageSize)}
+                        className="p-1.5 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      >
+                        {(Object.keys(PAGE_SIZES) as PageSize[]).map(size => (
+                          <option key={size} value={size}>{PAGE_SIZES[size].label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  {matchComparison && <MatchScorePanel comparison={matchComparison} />}
+                  {verificationReport && (
+                    <FabricationWarningPanel
+                      report={verificationReport}
+                      showHighlights={showFabricationHighlights}
+                      onToggleHighlights={() => setShowFabricationHighlights(!showFabricationHighlights)}
+                      onStripFlagged={handleStripFlagged}
+                    />
+                  )}
+                  {lintReport && (
+                    <CvQualityPanel
+                      report={lintReport}
+                      cvData={optimizedCvData}
+                      showHighlights={showLintHighlights}
+                      onToggleHighlights={() => setShowLintHighlights(!showLintHighlights)}
+                      onFix={handleApplyLintFix}
+                    />
+                  )}
                   <div className="flex-grow relative">
                       <div className="absolute inset-0">
-                        <CvDisplay cvData={optimizedCvData} />
+                        {viewMode === 'edit' ? (
+                          <CvEditor cvData={optimizedCvData} templateId={templateId} onChange={cvHistory.set} onRegenerate={setRegenerationTarget} />
+                        ) : viewMode === 'compare' && cvComparison ? (
+                          <CvDiffView
+                            comparison={cvComparison}
+                            acceptedIds={acceptedChangeIds}
+                            onAccept={handleAcceptChanges}
+                            onReject={handleRejectChanges}
+                          />
+                        ) : (
+                          <CvDisplay
+                            cvData={optimizedCvData}
+                            templateId={templateId}
+                            flags={showFabricationHighlights ? verificationReport?.byKey : undefined}
+                            findings={showLintHighlights ? lintReport?.byKey : undefined}
+                            onFix={handleApplyLintFix}
+                          />
+                        )}
                       </div>
                   </div>
                   <div className="mt-4 p-4 border-t border-slate-300 bg-white flex gap-4">
-                    <button onClick={handleCopy} className="flex items-center gap-2 bg-slate-200 text-slate-800 font-medium py-2 px-4 rounded-md hover:bg-slate-300 transition-colors">
-                      <CopyIcon className="h-4 w-4" />
-                      {isCopied ? 'Copied!' : 'Copy Text'}
+                    <button onClick={() => setViewMode(viewMode === 'edit' ? 'preview' : 'edit')} className="flex items-center gap-2 bg-slate-200 text-slate-800 font-medium py-2 px-4 rounded-md hover:bg-slate-300 transition-colors">
+                      <PencilIcon className="h-4 w-4" />
+                      {viewMode === 'edit' ? 'Done Editing' : 'Edit'}
+                    </button>
+                    <button
+                      onClick={() => setViewMode(viewMode === 'compare' ? 'preview' : 'compare')}
+                      disabled={!hasOriginalCv}
+                      title={hasOriginalCv ? 'Compare with your original CV' : 'The original CV is no longer available'}
+                      className="flex items-center gap-2 bg-slate-200 text-slate-800 font-medium py-2 px-4 rounded-md hover:bg-slate-300 disabled:text-slate-400 disabled:hover:bg-slate-200 transition-colors"
+                    >
+                      <CompareIcon className="h-4 w-4" />
+                      {viewMode === 'compare' ? 'Done Comparing' : 'Compare'}
+                    </button>
+                    <button onClick={cvHistory.undo} disabled={!cvHistory.canUndo} title="Undo" className="p-2 rounded-md text-slate-700 hover:bg-slate-200 disabled:text-slate-300 disabled:hover:bg-transparent transition-colors">
+                      <UndoIcon className="h-4 w-4" />
+                    </button>
+                    <button onClick={cvHistory.redo} disabled={!cvHistory.canRedo} title="Redo" className="p-2 rounded-md text-slate-700 hover:bg-slate-200 disabled:text-slate-300 disabled:hover:bg-transparent transition-colors">
+                      <RedoIcon className="h-4 w-4" />
                     </button>
+                    <button onClick={() => setIsCoverLetterOpen(true)} className="flex items-center gap-2 bg-slate-200 text-slate-800 font-medium py-2 px-4 rounded-md hover:bg-slate-300 transition-colors">
+                      <FileIcon className="h-4 w-4" />
+                      Cover Letter
+                    </button>
+                    <TextExportMenu cvData={optimizedCvData} template={getTemplate(templateId)} />
                     <button onClick={handleSaveAsPdf} className="flex items-center gap-2 bg-indigo-600 text-white font-medium py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors">
                       <DownloadIcon className="h-4 w-4" />
                       Save as PDF
                     </button>
+                    <button onClick={handleSaveAsDocx} className="flex items-center gap-2 bg-indigo-600 text-white font-medium py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors">
+                      <DownloadIcon className="h-4 w-4" />
+                      Save as DOCX
+                    </button>
                   </div>
+                  {pdfCheck && (
+                    <div className={`px-4 pb-3 bg-white text-xs flex items-center gap-2 ${pdfCheck.passed ? 'text-green-700' : 'text-amber-700'}`}>
+                      {pdfCheck.passed ? <CheckCircleIcon className="h-4 w-4" /> : <XCircleIcon className="h-4 w-4" />}
+                      {pdfCheck.passed
+                        ? 'PDF text check passed: all CV text can be read back from the exported file.'
+                        : `PDF text check: ${Math.round(pdfCheck.coverage * 100)}% of words could be read back. Missing: ${pdfCheck.missingWords.slice(0, 10).join(', ')}`}
+                    </div>
+                  )}
                 </>
               )}
                {!isLoading && !error && !optimizedCvData && (
@@ -495,6 +873,57 @@ export default function App() {
           </div>
         </div>
       </main>
+      {regenerationTarget && optimizedCvData && (
+        <RegenerationDialog
+          cvData={optimizedCvData}
+          target={regenerationTarget}
+          sourceCvText={userCvText}
+          jobDescriptionText={jobDescriptionText}
+          redactions={redactions}
+          onApply={handleApplyRegeneration}
+          onClose={() => setRegenerationTarget(null)}
+        />
+      )}
+      {isCoverLetterOpen && optimizedCvData && (
+        <CoverLetterDialog
+          cvData={optimizedCvData}
+          jobDescriptionText={jobDescriptionText}
+          templateId={templateId}
+          pageSize={pageSize}
+          redactions={redactions}
+          letter={coverLetter}
+          onLetterChange={setCoverLetter}
+          onClose={() => setIsCoverLetterOpen(false)}
+        />
+      )}
+      {hasOpenedBatch && (
+        <BatchDialog
+          isOpen={isBatchOpen}
+          cv={importedCvData || userCvText}
+          sourceCvText={userCvText}
+          masterCvId={masterCvId}
+          redactions={redactions}
+          localeId={localeId}
+          templateId={templateId}
+          pageSize={pageSize}
+          onOpenResult={handleOpenBatchResult}
+          onLibraryChange={library.refresh}
+          onClose={() => setIsBatchOpen(false)}
+        />
+      )}
+      {isHistoryOpen && (
+        <HistorySidebar
+          applications={library.applications}
+          masterCvs={library.masterCvs}
+          activeApplicationId={activeApplicationId}
+          error={library.error}
+          onOpenApplication={handleOpenApplication}
+          onApplicationDeleted={handleApplicationDeleted}
+          onLoadMasterCv={handleLoadMasterCv}
+          onChange={library.refresh}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
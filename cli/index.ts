@@ -0,0 +1,336 @@
+import { access, constants, mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { CV_EXPORT_FORMATS, CvExportFormat, CvReadResult, describeCvReadError, exportCv, readCvFile, reviewTailoredCv } from '../services/cvPipeline';
+import { batchFileName, BatchItemState, BatchJob, DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY, readJobDescriptionFiles, runBatch } from '../services/batchOptimizer';
+import { DEFAULT_OCR_PAGE_LIMIT } from '../services/pdfOcr';
+import { terminateLocalOcr } from '../services/ocr';
+import { detectPii } from '../services/piiRedaction';
+import { CV_TEMPLATES, CvTemplateId, DEFAULT_TEMPLATE_ID, getTemplate } from '../services/templates';
+import { CV_LOCALES, CvLocaleId, DEFAULT_LOCALE_ID, getLocale } from '../services/locales';
+import { createLlmProvider, LlmConfig, LlmProviderName, readLlmConfig } from '../services/llm';
+import type { PageSize } from '../services/pdfExport';
+
+// Command-line tool: tailors one CV to one or more job descriptions without the browser, writes
+// each tailored CV in the requested formats plus a match report, and reports the outcome through
+// its exit code so that it can run in scripts and CI.
+
+const EXIT_CODES = {
+  ok: 0,
+  /** One or more jobs could not be optimized. */
+  jobFailed: 1,
+  usage: 2,
+  /** The CV or a job description file could not be read. */
+  unreadableInput: 3,
+  /** The LLM provider is not configured, e.g. the API key is missing. */
+  providerNotConfigured: 4,
+  /** A tailored CV scored below --min-score. */
+  belowMinScore: 5,
+  /** The output directory or a file in it could not be written. */
+  unwritableOutput: 6,
+  cancelled: 130,
+} as const;
+
+const USAGE = `Usage: cv-optimizer <cv-file> <job-file>... [options]
+
+Tailors a CV to each job description and writes the results to the output directory.
+Job files may be any CV format (one job each) or a CSV with a "Description" column.
+
+Options:
+  -o, --out <dir>         Output directory (default: cv-output)
+  -f, --format <list>     Comma-separated: ${Object.keys(CV_EXPORT_FORMATS).join(', ')}
+                          (default: json,markdown,pdf,docx)
+  -t, --template <id>     ${CV_TEMPLATES.map(t => t.id).join(', ')} (default: ${DEFAULT_TEMPLATE_ID})
+  -l, --locale <id>       ${CV_LOCALES.map(l => l.id).join(', ')} (default: ${DEFAULT_LOCALE_ID})
+      --page-size <size>  letter or a4 (default: the locale's)
+      --provider <name>   gemini, openai or mock (default: LLM_PROVIDER, else gemini)
+      --ocr <engine>      ai, local or off, for scanned PDF pages (default: ai)
+      --ocr-pages <n>     Most scanned pages to recognize (default: ${DEFAULT_OCR_PAGE_LIMIT})
+      --redact            Replace personal details with placeholders before sending the CV
+      --concurrency <n>   Jobs optimized at the same time, 1-${MAX_BATCH_CONCURRENCY} (default: ${DEFAULT_BATCH_CONCURRENCY})
+      --min-score <n>     Exit with code ${EXIT_CODES.belowMinScore} if a tailored CV's keyword match is below n
+  -q, --quiet             Only print errors
+  -h, --help              Show this help
+
+Exit codes: 0 success, 1 a job failed, 2 usage error, 3 unreadable input,
+4 LLM provider not configured, 5 match below --min-score, 6 output not writable, 130 cancelled.
+`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface CliOptions {
+  cvPath: string;
+  jobPaths: string[];
+  outDir: string;
+  formats: CvExportFormat[];
+  templateId: CvTemplateId;
+  localeId: CvLocaleId;
+  pageSize: PageSize;
+  provider?: LlmProviderName;
+  ocr: 'ai' | 'local' | 'off';
+  ocrPages: number;
+  redact: boolean;
+  concurrency: number;
+  minScore: number | null;
+  quiet: boolean;
+}
+
+const oneOf = <T extends string>(value: string, allowed: readonly T[], option: string): T => {
+  if (!allowed.includes(value as T)) throw new UsageError(`--${option} must be one of: ${allowed.join(', ')}.`);
+  return value as T;
+};
+
+const integer = (value: string, option: string, min: number, max = Infinity): number => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new UsageError(`--${option} must be a whole number${max === Infinity ? ` of at least ${min}` : ` from ${min} to ${max}`}.`);
+  }
+  return number;
+};
+
+function parseCliArgs(args: string[]): CliOptions | null {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        'out': { type: 'string', short: 'o', default: 'cv-output' },
+        'format': { type: 'string', short: 'f', default: 'json,markdown,pdf,docx' },
+        'template': { type: 'string', short: 't', default: DEFAULT_TEMPLATE_ID },
+        'locale': { type: 'string', short: 'l', default: DEFAULT_LOCALE_ID },
+        'page-size': { type: 'string' },
+        'provider': { type: 'string' },
+        'ocr': { type: 'string', default: 'ai' },
+        'ocr-pages': { type: 'string', default: String(DEFAULT_OCR_PAGE_LIMIT) },
+        'redact': { type: 'boolean', default: false },
+        'concurrency': { type: 'string', default: String(DEFAULT_BATCH_CONCURRENCY) },
+        'min-score': { type: 'string' },
+        'quiet': { type: 'boolean', short: 'q', default: false },
+        'help': { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+  if (values.help) return null;
+
+  const [cvPath, ...jobPaths] = positionals;
+  if (!cvPath || jobPaths.length === 0) throw new UsageError('Give the CV file followed by at least one job description file.');
+  const formats = values.format.split(',').map(f => f.trim()).filter(Boolean);
+  if (formats.length === 0) throw new UsageError('--format needs at least one format.');
+  const localeId = oneOf(values.locale, CV_LOCALES.map(l => l.id), 'locale');
+
+  return {
+    cvPath,
+    jobPaths,
+    outDir: values.out,
+    formats: formats.map(f => oneOf(f, Object.keys(CV_EXPORT_FORMATS) as CvExportFormat[], 'format')),
+    templateId: oneOf(values.template, CV_TEMPLATES.map(t => t.id), 'template'),
+    localeId,
+    pageSize: values['page-size'] ? oneOf(values['page-size'], ['letter', 'a4'], 'page-size') : getLocale(localeId).pageSize,
+    provider: values.provider ? oneOf(values.provider, ['gemini', 'openai', 'mock'], 'provider') : undefined,
+    ocr: oneOf(values.ocr, ['ai', 'local', 'off'], 'ocr'),
+    ocrPages: integer(values['ocr-pages'], 'ocr-pages', 1),
+    redact: values.redact,
+    concurrency: integer(values.concurrency, 'concurrency', 1, MAX_BATCH_CONCURRENCY),
+    minScore: values['min-score'] === undefined ? null : integer(values['min-score'], 'min-score', 0, 100),
+    quiet: values.quiet,
+  };
+}
+
+const openFile = async (filePath: string): Promise<File> => new File([await readFile(filePath)], path.basename(filePath));
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// Settings a provider cannot run without; the OpenAI-compatible servers may not need a key.
+const missingLlmSetting = (config: LlmConfig): string | null => {
+  if (config.provider === 'gemini' && !config.apiKey) return 'The Gemini API key is not configured. Set GEMINI_API_KEY in your environment, or choose a different --provider.';
+  if (config.provider === 'openai' && !config.baseUrl) return 'The LLM endpoint is not configured. Set LLM_BASE_URL to your OpenAI-compatible server, e.g. http://localhost:11434/v1.';
+  return null;
+};
+
+interface JobReport {
+  source: string;
+  company: string;
+  role: string;
+  status: BatchItemState['status'];
+  error?: string;
+  files: string[];
+  match?: { before: number; after: number; delta: number; missingKeywords: string[] };
+  fabricationFlags?: { key: string; value: string; reason: string }[];
+  lint?: { errors: number; warnings: number; suggestions: number; pageCount: number };
+}
+
+async function main(args: string[]): Promise<number> {
+  let options: CliOptions | null;
+  try {
+    options = parseCliArgs(args);
+  } catch (error) {
+    console.error(`${errorMessage(error)}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return EXIT_CODES.ok;
+  }
+  const { quiet } = options;
+  const log = (message: string) => { if (!quiet) console.error(message); };
+
+  // The app gets the Gemini key through the Vite config; on the command line it comes from the environment.
+  // Assigning undefined to process.env would store the string "undefined", so only copy a key that is set.
+  if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+  if (options.provider) process.env.LLM_PROVIDER = options.provider;
+  try {
+    createLlmProvider(readLlmConfig());
+  } catch (error) {
+    console.error(errorMessage(error));
+    return EXIT_CODES.providerNotConfigured;
+  }
+  // The providers only check their settings on the first request, which would fail every job in turn.
+  const missingSetting = missingLlmSetting(readLlmConfig());
+  if (missingSetting) {
+    console.error(missingSetting);
+    return EXIT_CODES.providerNotConfigured;
+  }
+  // Checked before any job runs, so that the results of paid requests always have somewhere to go.
+  try {
+    await mkdir(options.outDir, { recursive: true });
+    await access(options.outDir, constants.W_OK);
+  } catch (error) {
+    console.error(`Cannot write to ${options.outDir}: ${errorMessage(error)}`);
+    return EXIT_CODES.unwritableOutput;
+  }
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  let cvFile: File;
+  let cv: CvReadResult;
+  try {
+    cvFile = await openFile(options.cvPath);
+  } catch (error) {
+    console.error(`Could not open ${options.cvPath}: ${errorMessage(error)}`);
+    return EXIT_CODES.unreadableInput;
+  }
+  try {
+    log(`Reading ${options.cvPath}...`);
+    cv = await readCvFile(cvFile, {
+      ocr: options.ocr === 'off' ? undefined : {
+        maxPages: options.ocrPages,
+        preferLocal: options.ocr === 'local',
+        signal: controller.signal,
+        onProgress: ({ page, done, total }) => log(`  OCR of page ${page} (${done + 1} of ${total})...`),
+      },
+    });
+  } catch (error) {
+    if (controller.signal.aborted) return EXIT_CODES.cancelled;
+    console.error(`${options.cvPath}: ${describeCvReadError(error, cvFile)}`);
+    return error instanceof Error && error.name === 'LlmConfigurationError' ? EXIT_CODES.providerNotConfigured : EXIT_CODES.unreadableInput;
+  }
+  if (cv.unreadPages.length > 0) log(`  Scanned pages ${cv.unreadPages.join(', ')} were not read (OCR is off).`);
+  if (cv.ocr?.skippedPages.length) log(`  Scanned pages ${cv.ocr.skippedPages.join(', ')} were not read (over the --ocr-pages limit).`);
+
+  const jobs: { job: BatchJob; source: string }[] = [];
+  for (const jobPath of options.jobPaths) {
+    try {
+      const found = await readJobDescriptionFiles([await openFile(jobPath)]);
+      if (found.length === 0) throw new Error('No job description text was found.');
+      jobs.push(...found.map(job => ({ job, source: jobPath })));
+    } catch (error) {
+      console.error(`${jobPath}: ${errorMessage(error)}`);
+      return EXIT_CODES.unreadableInput;
+    }
+  }
+
+  log(`Optimizing for ${jobs.length} ${jobs.length === 1 ? 'job' : 'jobs'}...`);
+  const names = new Map(jobs.map(({ job }, index) => [job.id, batchFileName(index, job)]));
+  const states = await runBatch(cv.cvData || cv.text, jobs.map(({ job }) => job), {
+    concurrency: options.concurrency,
+    signal: controller.signal,
+    redactions: options.redact ? detectPii(cv.text) : [],
+    locale: options.localeId,
+    onUpdate: (jobId, state) => {
+      if (state.status === 'running' && state.attempts > 1) log(`  ${names.get(jobId)}: retrying (attempt ${state.attempts})`);
+      else if (state.status === 'waiting') log(`  ${names.get(jobId)}: rate limited, waiting`);
+      else if (state.status === 'failed') log(`  ${names.get(jobId)}: failed: ${state.error}`);
+    },
+  });
+
+  const exportOptions = { template: getTemplate(options.templateId), pageSize: options.pageSize };
+  const reports: JobReport[] = [];
+  let writeFailed = false;
+  const saveFile = async (fileName: string, content: () => Promise<Buffer | string>): Promise<boolean> => {
+    try {
+      await writeFile(path.join(options.outDir, fileName), await content());
+      return true;
+    } catch (error) {
+      console.error(`Could not write ${path.join(options.outDir, fileName)}: ${errorMessage(error)}`);
+      writeFailed = true;
+      return false;
+    }
+  };
+  for (const { job, source } of jobs) {
+    const state = states.get(job.id)!;
+    const report: JobReport = { source, company: job.company, role: job.role, status: state.status, error: state.error, files: [] };
+    reports.push(report);
+    const { cvData } = state;
+    if (!cvData) continue;
+
+    for (const format of options.formats) {
+      const fileName = `${names.get(job.id)}.${CV_EXPORT_FORMATS[format].extension}`;
+      const saved = await saveFile(fileName, async () => Buffer.from(await (await exportCv(cvData, format, exportOptions)).arrayBuffer()));
+      if (saved) report.files.push(fileName);
+    }
+    const { match, verification, lint } = reviewTailoredCv(cv.text, cvData, job.jobDescription, exportOptions);
+    const count = (severity: string) => lint.findings.filter(f => f.severity === severity).length;
+    report.match = {
+      before: match.before.score,
+      after: match.after.score,
+      delta: match.delta,
+      missingKeywords: match.after.missing.map(k => k.term),
+    };
+    report.fabricationFlags = verification.flags.map(({ key, value, reason }) => ({ key, value, reason }));
+    report.lint = { errors: count('error'), warnings: count('warning'), suggestions: count('info'), pageCount: lint.pageCount };
+  }
+
+  const reportSaved = await saveFile('match-report.json', async () => JSON.stringify({
+    cv: options.cvPath,
+    provider: readLlmConfig().provider,
+    template: options.templateId,
+    locale: options.localeId,
+    pageSize: options.pageSize,
+    ocr: cv.ocr && { recognizedPages: [...cv.ocr.pages.keys()], skippedPages: cv.ocr.skippedPages, usedFallback: cv.ocr.usedFallback },
+    jobs: reports,
+  }, null, 2) + '\n');
+
+  if (!quiet) {
+    for (const report of reports) {
+      const label = [report.company, report.role].filter(Boolean).join(' - ') || report.source;
+      console.log(report.match
+        ? `${label}: match ${report.match.before} -> ${report.match.after}, ${report.fabricationFlags!.length} unsupported claims, ${report.lint!.errors} errors, ${report.lint!.warnings} warnings`
+        : `${label}: ${report.status}${report.error ? ` (${report.error})` : ''}`);
+    }
+    if (reportSaved) console.log(`Wrote ${path.join(options.outDir, 'match-report.json')}`);
+  }
+
+  if (controller.signal.aborted) return EXIT_CODES.cancelled;
+  const failed = [...states.values()].filter(state => state.status === 'failed');
+  if (failed.some(state => state.errorName === 'LlmConfigurationError')) return EXIT_CODES.providerNotConfigured;
+  if (writeFailed) return EXIT_CODES.unwritableOutput;
+  if (failed.length > 0) return EXIT_CODES.jobFailed;
+  if (options.minScore !== null && reports.some(r => r.match && r.match.after < options.minScore!)) return EXIT_CODES.belowMinScore;
+  return EXIT_CODES.ok;
+}
+
+try {
+  process.exitCode = await main(process.argv.slice(2));
+} finally {
+  await terminateLocalOcr();
+}
@@ -0,0 +1,335 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { CvData } from '../services/geminiService';
+import {
+  ACCEPTED_JOB_FILE_TYPES,
+  BatchExportFormat,
+  BatchItemState,
+  BatchItemStatus,
+  BatchJob,
+  buildBatchZip,
+  createBatchJob,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  readJobDescriptionFiles,
+  runBatch,
+  splitPastedJobDescriptions,
+} from '../services/batchOptimizer';
+import { compareCvMatch } from '../services/keywordMatcher';
+import { createApplication, saveJobDescription } from '../services/cvLibrary';
+import { cvFileBaseName, downloadBlob } from '../services/download';
+import type { PageSize } from '../services/pdfExport';
+import type { PiiItem } from '../services/piiRedaction';
+import { CvTemplateId, getTemplate } from '../services/templates';
+import type { CvLocaleId } from '../services/locales';
+import { DownloadIcon, LoadingSpinner, PlusIcon, SparkleIcon, TrashIcon, UploadIcon, XCircleIcon } from './icons';
+
+export interface BatchResult {
+  cvData: CvData;
+  jobDescription: string;
+  /** The library record the result was saved as, if saving succeeded. */
+  applicationId: string | null;
+}
+
+interface BatchDialogProps {
+  /** The dialog stays mounted while hidden, so a running batch and its results survive closing it. */
+  isOpen: boolean;
+  /** The CV to optimize: structured if it was imported as such, otherwise its text. */
+  cv: string | CvData;
+  /** Text of the original CV, for the match scores. */
+  sourceCvText: string;
+  masterCvId: string | null;
+  /** Personal details to hide from the AI. */
+  redactions: PiiItem[];
+  localeId: CvLocaleId;
+  templateId: CvTemplateId;
+  pageSize: PageSize;
+  onOpenResult: (result: BatchResult) => void;
+  /** Called when results were saved to the library. */
+  onLibraryChange: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  running: 'Optimizing',
+  waiting: 'Rate limited, waiting',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'text-slate-500',
+  running: 'text-indigo-600',
+  waiting: 'text-amber-700',
+  done: 'text-green-700',
+  failed: 'text-red-600',
+  cancelled: 'text-slate-500',
+};
+
+// Optimizes the current CV for many job descriptions at once and exports all results as a ZIP.
+export const BatchDialog: React.FC<BatchDialogProps> = ({ isOpen, cv, sourceCvText, masterCvId, redactions, localeId, templateId, pageSize, onOpenResult, onLibraryChange, onClose }) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [states, setStates] = useState<Map<string, BatchItemState>>(new Map());
+  const [applicationIds, setApplicationIds] = useState<Map<string, string>>(new Map());
+  const [pastedText, setPastedText] = useState('');
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [exportFormat, setExportFormat] = useState<BatchExportFormat>('pdf');
+  const [isRunning, setIsRunning] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const matches = useMemo(() => new Map(jobs.flatMap(job => {
+    const cvData = states.get(job.id)?.cvData;
+    return cvData ? [[job.id, compareCvMatch(sourceCvText, cvData, job.jobDescription)] as const] : [];
+  })), [jobs, states, sourceCvText]);
+  const finished = jobs.filter(job => states.get(job.id)?.status === 'done');
+  // Jobs that have not been optimized yet, or failed or were cancelled last time.
+  const pending = jobs.filter(job => states.get(job.id)?.status !== 'done');
+
+  const addJobs = (added: BatchJob[]) => setJobs(current => [...current, ...added]);
+
+  const handleAddPasted = () => {
+    addJobs(splitPastedJobDescriptions(pastedText).map(text => createBatchJob(text)));
+    setPastedText('');
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files || [])];
+    e.target.value = '';
+    setError(null);
+    try {
+      const added = await readJobDescriptionFiles(files);
+      if (added.length === 0) setError('No job descriptions were found in the selected files.');
+      addJobs(added);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The files could not be read.');
+    }
+  };
+
+  const updateJob = (id: string, changes: Partial<BatchJob>) =>
+    setJobs(current => current.map(job => job.id === id ? { ...job, ...changes } : job));
+
+  const saveResult = async (job: BatchJob, cvData: CvData) => {
+    try {
+      const jobDescription = await saveJobDescription(job.jobDescription, { company: job.company, role: job.role });
+      const application = await createApplication(jobDescription, masterCvId, cvData, templateId);
+      setApplicationIds(current => new Map(current).set(job.id, application.id));
+      onLibraryChange();
+    } catch (e) {
+      console.warn("Could not save the batch result to the library:", e);
+    }
+  };
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    try {
+      await runBatch(cv, pending, {
+        concurrency,
+        signal: controller.signal,
+        redactions,
+        locale: localeId,
+        onUpdate: (jobId, state) => {
+          setStates(current => new Map(current).set(jobId, state));
+          const job = pending.find(j => j.id === jobId);
+          if (job && state.status === 'done' && state.cvData) saveResult(job, state.cvData);
+        },
+      });
+    } finally {
+      setIsRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const items = jobs.flatMap((job, index) => {
+        const cvData = states.get(job.id)?.status === 'done' ? states.get(job.id)!.cvData : undefined;
+        return cvData ? [{ job, index, cvData, match: matches.get(job.id) || null }] : [];
+      });
+      const blob = await buildBatchZip(items, exportFormat, { template: getTemplate(templateId), pageSize });
+      downloadBlob(blob, `${cvFileBaseName(items[0].cvData)}_batch.zip`);
+    } catch (e) {
+      console.error("Batch export error:", e);
+      setError('Could not create the ZIP file. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className={`fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4 ${isOpen ? '' : 'hidden'}`} onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Batch optimization</h3>
+            <p className="text-sm text-slate-600 mt-1">Tailor your CV to several job descriptions in one go. Every result is saved to your history.</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-800" title="Close">
+            <XCircleIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-[1fr_auto] gap-4 items-start">
+          <div>
+            <label htmlFor="batch-job-descriptions" className="block text-sm font-medium text-slate-700 mb-1">
+              Paste job descriptions, separated by a line with <code>---</code>
+            </label>
+            <textarea
+              id="batch-job-descriptions"
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              disabled={isRunning}
+              className="w-full p-3 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm h-32"
+            />
+          </div>
+          <div className="flex md:flex-col gap-2 md:pt-6">
+            <button
+              onClick={handleAddPasted}
+              disabled={isRunning || pastedText.trim() === ''}
+              className="flex items-center gap-2 bg-slate-200 text-slate-800 font-medium py-2 px-4 rounded-md hover:bg-slate-300 disabled:text-slate-400 transition-colors text-sm"
+            >
+              <PlusIcon className="h-4 w-4" /> Add to queue
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isRunning}
+              title="Text, PDF or Word files with one job description each, or a CSV with a Description column"
+              className="flex items-center gap-2 bg-slate-200 text-slate-800 font-medium py-2 px-4 rounded-md hover:bg-slate-300 disabled:text-slate-400 transition-colors text-sm"
+            >
+              <UploadIcon className="h-4 w-4" /> Files or CSV
+            </button>
+            <input ref={fileInputRef} type="file" multiple accept={ACCEPTED_JOB_FILE_TYPES} onChange={handleFiles} className="hidden" />
+          </div>
+        </div>
+
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+        {jobs.length > 0 && (
+          <table className="mt-4 w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-2">Role</th>
+                <th className="py-2 pr-2">Company</th>
+                <th className="py-2 pr-2">Status</th>
+                <th className="py-2 pr-2">Match</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map(job => {
+                const state = states.get(job.id);
+                const match = matches.get(job.id);
+                return (
+                  <tr key={job.id} className="border-b border-slate-100 align-top">
+                    <td className="py-2 pr-2">
+                      <input
+                        value={job.role}
+                        onChange={(e) => updateJob(job.id, { role: e.target.value })}
+                        disabled={isRunning}
+                        placeholder="Role"
+                        title={job.jobDescription.slice(0, 300)}
+                        className="w-full bg-transparent border border-transparent rounded px-1 hover:border-slate-300 focus:border-indigo-500 focus:outline-none"
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        value={job.company}
+                        onChange={(e) => updateJob(job.id, { company: e.target.value })}
+                        disabled={isRunning}
+                        placeholder="Company"
+                        className="w-full bg-transparent border border-transparent rounded px-1 hover:border-slate-300 focus:border-indigo-500 focus:outline-none"
+                      />
+                    </td>
+                    <td className={`py-2 pr-2 whitespace-nowrap ${STATUS_STYLES[state?.status || 'queued']}`}>
+                      <span className="flex items-center gap-1">
+                        {state?.status === 'running' && <LoadingSpinner className="h-3 w-3" />}
+                        {STATUS_LABELS[state?.status || 'queued']}
+                        {state && state.attempts > 1 && state.status !== 'done' && ` (attempt ${state.attempts})`}
+                      </span>
+                      {state?.error && <span className="block text-xs">{state.error}</span>}
+                    </td>
+                    <td className="py-2 pr-2 whitespace-nowrap">
+                      {match ? `${match.before.score}% → ${match.after.score}%` : ''}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {state?.cvData && (
+                        <button
+                          onClick={() => onOpenResult({ cvData: state.cvData!, jobDescription: job.jobDescription, applicationId: applicationIds.get(job.id) || null })}
+                          className="text-xs font-semibold text-indigo-600 hover:underline px-1"
+                        >
+                          Open
+                        </button>
+                      )}
+                      {!isRunning && (
+                        <button onClick={() => setJobs(jobs.filter(j => j.id !== job.id))} title="Remove" className="p-1 text-slate-500 hover:text-red-600">
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <div className="mt-4 flex flex-wrap items-center gap-4 text-sm">
+          <div className="flex items-center gap-2">
+            <label htmlFor="batch-concurrency" className="text-slate-700">Parallel requests</label>
+            <input
+              id="batch-concurrency"
+              type="number"
+              min={1}
+              max={MAX_BATCH_CONCURRENCY}
+              value={concurrency}
+              disabled={isRunning}
+              onChange={(e) => setConcurrency(Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-14 p-1 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-slate-100"
+            />
+          </div>
+          {isRunning ? (
+            <button onClick={() => abortRef.current?.abort()} className="flex items-center gap-2 bg-slate-200 text-slate-800 font-medium py-2 px-4 rounded-md hover:bg-slate-300 transition-colors">
+              <LoadingSpinner className="h-4 w-4" /> Cancel
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={pending.length === 0}
+              className="flex items-center gap-2 bg-indigo-600 text-white font-medium py-2 px-4 rounded-md hover:bg-indigo-700 disabled:bg-slate-400 transition-colors"
+            >
+              <SparkleIcon className="h-4 w-4" />
+              {finished.length > 0 && pending.length > 0 ? `Optimize remaining ${pending.length}` : `Optimize ${pending.length} ${pending.length === 1 ? 'job' : 'jobs'}`}
+            </button>
+          )}
+          <div className="ml-auto flex items-center gap-2">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as BatchExportFormat)}
+              aria-label="Export format"
+              className="p-1.5 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="pdf">PDF</option>
+              <option value="docx">DOCX</option>
+            </select>
+            <button
+              onClick={handleDownloadZip}
+              disabled={finished.length === 0 || isExporting}
+              className="flex items-center gap-2 bg-indigo-600 text-white font-medium py-2 px-4 rounded-md hover:bg-indigo-700 disabled:bg-slate-400 transition-colors"
+            >
+              {isExporting ? <LoadingSpinner className="h-4 w-4" /> : <DownloadIcon className="h-4 w-4" />}
+              Download {finished.length || ''} as ZIP
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useMemo } from 'react';
+import type { ApplicationRecord } from '../services/cvLibrary';
+import { toPlainText } from '../services/textExport';
+import { diffLines } from '../services/textDiff';
+import { XCircleIcon } from './icons';
+
+interface CompareApplicationsDialogProps {
+  before: ApplicationRecord;
+  after: ApplicationRecord;
+  onClose: () => void;
+}
+
+const applicationTitle = (application: ApplicationRecord): string =>
+  [application.role, application.company].filter(Boolean).join(' at ') || 'Untitled application';
+
+const LINE_STYLES = {
+  same: 'text-slate-700',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-700 line-through',
+};
+
+const LINE_PREFIX = { same: '  ', added: '+ ', removed: '- ' };
+
+// Line-by-line comparison of the CVs of two saved applications.
+export const CompareApplicationsDialog: React.FC<CompareApplicationsDialogProps> = ({ before, after, onClose }) => {
+  const lines = useMemo(() => {
+    const toLines = (application: ApplicationRecord) =>
+      toPlainText(application.cvData, undefined, { asciiSafe: false }).split('\n').filter(line => line.trim() !== '');
+    return diffLines(toLines(before), toLines(after));
+  }, [before, after]);
+  const changes = lines.filter(line => line.kind !== 'same').length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Compare applications</h3>
+            <p className="text-sm text-slate-600 mt-1">
+              <span className="text-red-700">{applicationTitle(before)}</span> → <span className="text-green-800">{applicationTitle(after)}</span>
+              <span className="text-slate-500"> · {changes === 0 ? 'identical' : `${changes} changed ${changes === 1 ? 'line' : 'lines'}`}</span>
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-800" title="Close">
+            <XCircleIcon className="h-6 w-6" />
+          </button>
+        </div>
+        <div className="mt-4 overflow-y-auto border border-slate-200 rounded-md font-mono text-xs">
+          {lines.map((line, i) => (
+            <div key={i} className={`px-3 py-0.5 whitespace-pre-wrap ${LINE_STYLES[line.kind]}`}>
+              {LINE_PREFIX[line.kind]}{line.text}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { CvData, generateCoverLetter } from '../services/geminiService';
+import type { PiiItem } from '../services/piiRedaction';
+import { COVER_LETTER_TONES, CoverLetter, CoverLetterTone, coverLetterToPlainText, formatLetterDate } from '../services/coverLetter';
+import { guessCompanyAndRole } from '../services/cvLibrary';
+import { buildCoverLetterPdf, PageSize } from '../services/pdfExport';
+import { CvTemplateId, getTemplate } from '../services/templates';
+import { coverLetterFileBaseName, downloadBlob } from '../services/download';
+import { CvHeader, TEMPLATE_STYLES } from './CvDisplay';
+import { CopyIcon, DownloadIcon, LoadingSpinner, PencilIcon, SparkleIcon, XCircleIcon } from './icons';
+
+interface CoverLetterDialogProps {
+  cvData: CvData;
+  jobDescriptionText: string;
+  templateId: CvTemplateId;
+  pageSize: PageSize;
+  /** Personal details to hide from the AI. */
+  redactions: PiiItem[];
+  /** The last generated letter, kept by the parent so closing the dialog does not lose it. */
+  letter: CoverLetter | null;
+  onLetterChange: (letter: CoverLetter) => void;
+  onClose: () => void;
+}
+
+const textareaClass = 'w-full p-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm';
+
+// Writes a cover letter from the optimized CV and shows it under the CV's letterhead, ready to copy or save as PDF.
+export const CoverLetterDialog: React.FC<CoverLetterDialogProps> = ({ cvData, jobDescriptionText, templateId, pageSize, redactions, letter, onLetterChange, onClose }) => {
+  const [company, setCompany] = useState(() => guessCompanyAndRole(jobDescriptionText).company);
+  const [tone, setTone] = useState<CoverLetterTone>('professional');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const styles = TEMPLATE_STYLES[getTemplate(templateId).id];
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      onLetterChange(await generateCoverLetter(cvData, jobDescriptionText, { company, tone, redactions }));
+      setIsEditing(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'An unknown error occurred.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!letter) return;
+    await navigator.clipboard.writeText(coverLetterToPlainText(letter, cvData.locale));
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  const handleSaveAsPdf = async () => {
+    if (!letter) return;
+    try {
+      const pdfBytes = await buildCoverLetterPdf(letter, cvData, { template: getTemplate(templateId), pageSize });
+      downloadBlob(new Blob([pdfBytes], { type: 'application/pdf' }), `${coverLetterFileBaseName(cvData)}.pdf`);
+    } catch (e) {
+      console.error("Cover letter PDF export error:", e);
+      setError('Could not create the PDF. Please try again.');
+    }
+  };
+
+  const updateParagraph = (index: number, text: string) =>
+    letter && onLetterChange({ ...letter, paragraphs: letter.paragraphs.map((p, i) => (i === index ? text : p)) });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 pb-4 border-b border-slate-200">
+          <div className="flex items-start justify-between">
+            <h3 className="text-lg font-semibold text-slate-800">Cover letter</h3>
+            <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-800" title="Close">
+              <XCircleIcon className="h-6 w-6" />
+            </button>
+          </div>
+          <div className="mt-3 flex flex-wrap items-end gap-3 text-sm">
+            <label className="flex-grow">
+              <span className="block font-medium text-slate-700 mb-1">Company</span>
+              <input
+                value={company}
+                onChange={(e) => setCompany(e.target.value)}
+                placeholder="e.g. Acme Corp"
+                className="w-full p-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </label>
+            <label>
+              <span className="block font-medium text-slate-700 mb-1">Tone</span>
+              <select
+                value={tone}
+                onChange={(e) => setTone(e.target.value as CoverLetterTone)}
+                className="p-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {(Object.keys(COVER_LETTER_TONES) as CoverLetterTone[]).map(t => (
+                  <option key={t} value={t}>{COVER_LETTER_TONES[t].label}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={handleGenerate}
+              disabled={isGenerating || jobDescriptionText.trim() === ''}
+              className="flex items-center gap-2 bg-indigo-600 text-white font-medium py-2 px-4 rounded-md hover:bg-indigo-700 disabled:bg-slate-400 transition-colors"
+            >
+              {isGenerating ? <LoadingSpinner className="h-4 w-4" /> : <SparkleIcon className="h-4 w-4" />}
+              {letter ? 'Write again' : 'Write cover letter'}
+            </button>
+          </div>
+          {jobDescriptionText.trim() === '' && <p className="mt-2 text-xs text-amber-700">Add the job description first, so the letter can be written for it.</p>}
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex-grow overflow-y-auto bg-slate-200 p-4">
+          {letter ? (
+            <div className={`bg-white text-black shadow-sm ${styles.container}`}>
+              <CvHeader cvData={cvData} templateId={templateId} />
+              <p className="mt-8">{formatLetterDate(new Date(), cvData.locale)}</p>
+              {isEditing ? (
+                <div className="mt-6 space-y-3">
+                  <input value={letter.greeting} onChange={(e) => onLetterChange({ ...letter, greeting: e.target.value })} aria-label="Greeting" className={textareaClass} />
+                  {letter.paragraphs.map((paragraph, i) => (
+                    <textarea key={i} value={paragraph} onChange={(e) => updateParagraph(i, e.target.value)} rows={5} aria-label={`Paragraph ${i + 1}`} className={textareaClass} />
+                  ))}
+                  <input value={letter.closing} onChange={(e) => onLetterChange({ ...letter, closing: e.target.value })} aria-label="Closing" className={textareaClass} />
+                </div>
+              ) : (
+                <>
+                  <p className="mt-6">{letter.greeting}</p>
+                  {letter.paragraphs.map((paragraph, i) => <p key={i} className="mt-4 text-justify">{paragraph}</p>)}
+                  <p className="mt-6">{letter.closing}</p>
+                </>
+              )}
+              <p className="mt-8 font-bold">{letter.signature}</p>
+            </div>
+          ) : (
+            <div className="h-64 flex items-center justify-center text-center text-slate-500">
+              <p className="text-sm">Choose a tone and click "Write cover letter". It is written from your optimized CV only.</p>
+            </div>
+          )}
+        </div>
+
+        {letter && (
+          <div className="p-4 border-t border-slate-200 flex gap-3">
+            <button onClick={() => setIsEditing(!isEditing)} className="flex items-center gap-2 bg-slate-200 text-slate-800 font-medium py-2 px-4 rounded-md hover:bg-slate-300 transition-colors">
+              <PencilIcon className="h-4 w-4" />
+              {isEditing ? 'Done Editing' : 'Edit'}
+            </button>
+            <button onClick={handleCopy} className="ml-auto flex items-center gap-2 bg-slate-200 text-slate-800 font-medium py-2 px-4 rounded-md hover:bg-slate-300 transition-colors">
+              <CopyIcon className="h-4 w-4" />
+              {isCopied ? 'Copied!' : 'Copy'}
+            </button>
+            <button onClick={handleSaveAsPdf} className="flex items-center gap-2 bg-indigo-600 text-white font-medium py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors">
+              <DownloadIcon className="h-4 w-4" />
+              Save as PDF
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import type { AlignedItem, CvChange, CvComparison } from '../services/cvDiff';
+import { diffWords } from '../services/textDiff';
+import { CheckCircleIcon, XCircleIcon } from './icons';
+
+interface CvDiffViewProps {
+  comparison: CvComparison;
+  acceptedIds: Set<string>;
+  onAccept: (changes: CvChange[]) => void;
+  onReject: (changes: CvChange[]) => void;
+}
+
+const REJECT_LABELS: Record<CvChange['kind'], string> = {
+  modified: 'Keep original',
+  added: 'Remove',
+  removed: 'Restore',
+};
+
+const renderSide = (item: AlignedItem, side: 'original' | 'optimized') => {
+  const text = item[side];
+  if (text === null) {
+    return <span className="italic text-slate-400">{side === 'original' ? 'New' : 'Removed'}</span>;
+  }
+  if (!item.change) return <span className="text-slate-500">{text}</span>;
+  if (item.change.kind !== 'modified') {
+    return <span className={side === 'original' ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}>{text}</span>;
+  }
+  // Word-level highlights: deletions on the original side, insertions on the optimized side.
+  const hidden = side === 'original' ? 'added' : 'removed';
+  return diffWords(item.change.original, item.change.optimized)
+    .filter(part => part.kind !== hidden)
+    .map((part, i) => part.kind === 'same'
+      ? <span key={i}>{part.text}</span>
+      : <span key={i} className={part.kind === 'removed' ? 'bg-red-100 text-red-800 line-through' : 'bg-green-100 text-green-800'}>{part.text}</span>);
+};
+
+const DiffRow: React.FC<{ item: AlignedItem; isAccepted: boolean; onAccept: () => void; onReject: () => void }> = ({ item, isAccepted, onAccept, onReject }) => (
+  <div className={`grid grid-cols-[1fr_1fr_auto] gap-3 py-2 border-b border-slate-100 ${item.change && !isAccepted ? '' : 'opacity-80'}`}>
+    <div>{renderSide(item, 'original')}</div>
+    <div>{renderSide(item, 'optimized')}</div>
+    <div className="w-28 flex flex-col items-end gap-1 text-xs">
+      {item.change && (isAccepted ? (
+        <span className="flex items-center gap-1 text-green-700 font-medium"><CheckCircleIcon className="h-4 w-4" />Accepted</span>
+      ) : (
+        <button onClick={onAccept} className="font-semibold text-green-700 hover:underline">Accept</button>
+      ))}
+      {item.change && (
+        <button onClick={onReject} className="font-semibold text-red-600 hover:underline">{REJECT_LABELS[item.change.kind]}</button>
+      )}
+    </div>
+  </div>
+);
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h3 className="mt-6 mb-1 text-sm font-bold uppercase tracking-wide text-slate-700 border-b border-slate-300 pb-1">{children}</h3>
+);
+
+// Original CV next to the optimized CV, aligned section by section. Rejecting a change reverts that
+// item to the original; accepting just marks it as reviewed.
+export const CvDiffView: React.FC<CvDiffViewProps> = ({ comparison, acceptedIds, onAccept, onReject }) => {
+  const pending = comparison.changes.filter(change => !acceptedIds.has(change.id));
+  const row = (item: AlignedItem, key: React.Key) => (
+    <DiffRow
+      key={key}
+      item={item}
+      isAccepted={!!item.change && acceptedIds.has(item.change.id)}
+      onAccept={() => item.change && onAccept([item.change])}
+      onReject={() => item.change && onReject([item.change])}
+    />
+  );
+
+  return (
+    <div className="h-full overflow-y-auto bg-white p-6 text-sm text-slate-800">
+      <div className="flex flex-wrap items-center gap-3">
+        <p className="font-medium">
+          {comparison.changes.length === 0
+            ? 'No differences from your original CV.'
+            : `${comparison.changes.length} ${comparison.changes.length === 1 ? 'change' : 'changes'}, ${pending.length} to review`}
+        </p>
+        {pending.length > 0 && (
+          <div className="ml-auto flex gap-2">
+            <button onClick={() => onAccept(pending)} className="flex items-center gap-1 text-xs font-semibold bg-green-50 text-green-700 py-1 px-2 rounded-md hover:bg-green-100">
+              <CheckCircleIcon className="h-4 w-4" /> Accept all
+            </button>
+            <button onClick={() => onReject(pending)} className="flex items-center gap-1 text-xs font-semibold bg-red-50 text-red-600 py-1 px-2 rounded-md hover:bg-red-100">
+              <XCircleIcon className="h-4 w-4" /> Reject all
+            </button>
+          </div>
+        )}
+      </div>
+      {comparison.notCompared.length > 0 && (
+        <p className="mt-2 text-xs text-slate-500">
+          Not compared here, check these sections in the preview: {comparison.notCompared.join(', ')}.
+        </p>
+      )}
+      {!comparison.isStructuredSource && (
+        <p className="mt-2 text-xs text-slate-500">
+          Your CV was uploaded as a document, so each line of the optimized CV is matched to the most similar line of the original. Lines the AI left out are not listed.
+        </p>
+      )}
+
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-3 mt-4 text-xs font-semibold uppercase tracking-wide text-slate-500">
+        <span>Original</span>
+        <span>Optimized</span>
+        <span className="w-28" />
+      </div>
+
+      <SectionTitle>Summary</SectionTitle>
+      {row(comparison.summary, 'summary')}
+
+      {comparison.jobs.length > 0 && <SectionTitle>Work Experience</SectionTitle>}
+      {comparison.jobs.map(job => (
+        <div key={job.jobIndex} className="mt-3">
+          <p className="font-semibold">{[job.jobTitle, job.company].filter(Boolean).join(', ')}</p>
+          {job.bullets.length === 0 ? <p className="text-slate-400 italic py-2">No bullets.</p> : job.bullets.map((item, i) => row(item, i))}
+        </div>
+      ))}
+
+      {comparison.skills.length > 0 && <SectionTitle>Skills</SectionTitle>}
+      {comparison.skills.map((item, i) => row(item, i))}
+    </div>
+  );
+};
@@ -0,0 +1,329 @@
+import React from 'react';
+import type { ContactInfo, CvData } from '../services/geminiService';
+import type { LintFinding, LintSeverity } from '../services/cvLinter';
+import { cvPhoto, formatEducationDetails, formatLanguage, formatPersonalDetails, hasSectionContent, ungroupedSkillIndexes } from '../services/cvSections';
+import { CvSectionId, CvTemplateId, getTemplate, resolveSectionOrder } from '../services/templates';
+import { localeStrings, sectionTitle } from '../services/locales';
+
+interface TemplateStyles {
+  container: string;
+  header: string;
+  name: string;
+  contact: string;
+  section: string;
+  heading: string;
+  body: string;
+  entry: string;
+  jobTitle: string;
+  subtle: string;
+  bullets: string;
+}
+
+// Visual styling of each template. Structure (section order, columns) comes from services/templates.
+// Every template keeps to plain text, standard headings and real lists so ATS parsers can read it.
+export const TEMPLATE_STYLES: Record<CvTemplateId, TemplateStyles> = {
+  classic: {
+    container: 'p-8 md:p-12 font-[calibri] text-[11pt] leading-normal',
+    header: 'text-center',
+    name: 'text-3xl font-bold uppercase tracking-wider',
+    contact: 'text-sm mt-2',
+    section: 'mt-6',
+    heading: 'text-sm font-bold uppercase border-b-2 border-black pb-1 tracking-widest',
+    body: 'mt-2',
+    entry: 'mt-3',
+    jobTitle: 'text-md font-bold',
+    subtle: 'text-sm',
+    bullets: 'list-disc list-inside mt-2 space-y-1',
+  },
+  compact: {
+    container: 'p-6 md:p-8 font-[calibri] text-[9.5pt] leading-snug',
+    header: 'text-left border-b border-black pb-2',
+    name: 'text-2xl font-bold',
+    contact: 'text-xs mt-1',
+    section: 'mt-3',
+    heading: 'text-xs font-bold uppercase tracking-wider',
+    body: 'mt-1',
+    entry: 'mt-2',
+    jobTitle: 'font-bold',
+    subtle: 'text-xs',
+    bullets: 'list-disc list-inside mt-1',
+  },
+  modern: {
+    container: 'p-8 md:p-10 font-[calibri] text-[10.5pt] leading-normal',
+    header: 'text-left border-l-4 border-indigo-700 pl-4',
+    name: 'text-3xl font-bold text-indigo-900',
+    contact: 'text-sm mt-1 text-slate-700',
+    section: 'mt-5',
+    heading: 'text-sm font-bold uppercase tracking-widest text-indigo-800 border-b border-indigo-200 pb-1',
+    body: 'mt-2',
+    entry: 'mt-3',
+    jobTitle: 'font-bold',
+    subtle: 'text-sm text-slate-700',
+    bullets: 'list-disc list-inside mt-1 space-y-1',
+  },
+  academic: {
+    container: 'p-8 md:p-12 font-serif text-[11pt] leading-relaxed',
+    header: 'text-center border-b border-black pb-3',
+    name: 'text-3xl font-semibold',
+    contact: 'text-sm mt-2',
+    section: 'mt-6',
+    heading: 'text-sm font-semibold uppercase tracking-wider',
+    body: 'mt-2',
+    entry: 'mt-3',
+    jobTitle: 'font-semibold',
+    subtle: 'text-sm',
+    bullets: 'list-disc list-outside ml-5 mt-1 space-y-1',
+  },
+  europass: {
+    container: 'p-8 md:p-10 font-[calibri] text-[10.5pt] leading-normal',
+    header: 'text-left border-b-2 border-blue-800 pb-3',
+    name: 'text-3xl font-bold text-blue-900',
+    contact: 'text-sm mt-1',
+    section: 'mt-5',
+    heading: 'text-sm font-bold uppercase tracking-wider text-blue-800',
+    body: 'mt-2',
+    entry: 'mt-3',
+    jobTitle: 'font-bold',
+    subtle: 'text-sm text-slate-700',
+    bullets: 'list-disc list-inside mt-1 space-y-1',
+  },
+};
+
+// Wraps a CV field that the fabrication guard could not trace back to the original CV.
+const Flagged: React.FC<{ reason?: string; children: React.ReactNode }> = ({ reason, children }) => {
+  if (!reason) return <>{children}</>;
+  return <span title={reason} className="bg-amber-100 underline decoration-wavy decoration-amber-500">{children}</span>;
+};
+
+const LINT_UNDERLINES: Record<LintSeverity, string> = {
+  error: 'decoration-red-500',
+  warning: 'decoration-orange-400',
+  info: 'decoration-sky-400',
+};
+
+// Underlines a field with quality findings (most severe first) and offers their fixes right after it.
+const LintMark: React.FC<{ findings?: LintFinding[]; onFix?: (finding: LintFinding) => void; children: React.ReactNode }> = ({ findings, onFix, children }) => {
+  if (!findings?.length) return <>{children}</>;
+  return (
+    <>
+      <span title={findings.map(f => f.message).join('\n')} className={`underline decoration-dotted decoration-2 underline-offset-2 ${LINT_UNDERLINES[findings[0].severity]}`}>
+        {children}
+      </span>
+      {onFix && findings.filter(f => f.fix).map(f => (
+        <button key={f.rule} type="button" onClick={() => onFix(f)} title={f.message} className="ml-1.5 text-[0.75em] font-semibold text-indigo-600 hover:underline print:hidden">
+          {f.fix!.label}
+        </button>
+      ))}
+    </>
+  );
+};
+
+interface CvHeaderProps {
+  cvData: CvData;
+  templateId: CvTemplateId;
+  findings?: Map<string, LintFinding[]>;
+  onFix?: (finding: LintFinding) => void;
+}
+
+// Name and contact line. Also used above the cover letter so both documents share a letterhead.
+export const CvHeader: React.FC<CvHeaderProps> = ({ cvData, templateId, findings, onFix }) => {
+  const styles = TEMPLATE_STYLES[getTemplate(templateId).id];
+  const contact = cvData.contactInfo;
+  const contactParts = ([
+    ['location', contact?.location],
+    ['phone', contact?.phone],
+    ['email', contact?.email],
+    ['linkedin', contact?.linkedin && <a href={contact.linkedin} className="text-blue-600 hover:underline">{contact.linkedin}</a>],
+  ] as [keyof ContactInfo, React.ReactNode][]).filter(([, value]) => value);
+  const photo = cvPhoto(cvData);
+  const personalDetails = formatPersonalDetails(cvData);
+  return (
+    <div className={`${styles.header} ${photo ? 'flow-root' : ''}`}>
+      {photo && <img src={photo} alt={cvData.fullName} className="float-right ml-4 w-24 h-32 object-cover" />}
+      <h1 className={styles.name}>{cvData.fullName}</h1>
+      {cvData.contactInfo && (
+        <p className={styles.contact}>
+          {contactParts.map(([field, value], i) => (
+            <React.Fragment key={field}>
+              {i > 0 && ' | '}
+              <LintMark findings={findings?.get(`contactInfo.${field}`)} onFix={onFix}>{value}</LintMark>
+            </React.Fragment>
+          ))}
+        </p>
+      )}
+      {personalDetails && <p className={styles.contact}>{personalDetails}</p>}
+    </div>
+  );
+};
+
+interface CvDisplayProps {
+  cvData: CvData;
+  templateId: CvTemplateId;
+  flags?: Map<string, string>;
+  /** Quality findings to mark in place, with `onFix` applying a finding's fix. */
+  findings?: Map<string, LintFinding[]>;
+  onFix?: (finding: LintFinding) => void;
+}
+
+// Renders the structured CV data through the selected template.
+export const CvDisplay: React.FC<CvDisplayProps> = ({ cvData, templateId, flags, findings, onFix }) => {
+  const template = getTemplate(templateId);
+  const styles = TEMPLATE_STYLES[template.id];
+  const flagFor = (key: string) => flags?.get(key);
+  const lint = (key: string, children: React.ReactNode) => <LintMark findings={findings?.get(key)} onFix={onFix}>{children}</LintMark>;
+  // In narrow side columns entries stack instead of aligning dates to the right.
+  const isSidebar = (section: CvSectionId) => template.sidebarSections.includes(section);
+
+  // A title with its date aligned right, stacked instead in the side column.
+  const datedLine = (section: CvSectionId, title: React.ReactNode, date: React.ReactNode) => (
+    <div className={isSidebar(section) ? '' : 'flex justify-between items-baseline gap-4'}>
+      <h3 className={styles.jobTitle}>{title}</h3>
+      {date && <p className={`${styles.subtle} font-semibold`}>{date}</p>}
+    </div>
+  );
+
+  const link = (url: string) => <a href={url} className="text-blue-600 hover:underline break-all">{url}</a>;
+
+  const credentials = (section: CvSectionId, items: { name: string; issuer: string; date: string; flagKey?: string }[]) =>
+    items.map((item, index) => (
+      <div key={index} className={styles.body}>
+        {datedLine(section, item.flagKey ? <Flagged reason={flagFor(item.flagKey)}>{item.name}</Flagged> : item.name, item.date)}
+        {item.issuer && <p className={`${styles.subtle} italic`}>{item.issuer}</p>}
+      </div>
+    ));
+
+  const renderContent = (section: CvSectionId): React.ReactNode => {
+    switch (section) {
+      case 'summary':
+        return <p className={`${styles.body} text-justify`}>{lint('summary', cvData.summary)}</p>;
+      case 'experience':
+        return cvData.workExperience.map((job, index) => (
+          <div key={index} className={styles.entry}>
+            <div className="flex justify-between items-baseline">
+              <h3 className={styles.jobTitle}><Flagged reason={flagFor(`workExperience.${index}.jobTitle`)}>{job.jobTitle}</Flagged></h3>
+              <p className={`${styles.subtle} font-semibold`}><Flagged reason={flagFor(`workExperience.${index}.dates`)}>{job.dates}</Flagged></p>
+            </div>
+            <div className="flex justify-between items-baseline">
+              <p className="italic"><Flagged reason={flagFor(`workExperience.${index}.company`)}>{job.company}</Flagged></p>
+              <p className={`${styles.subtle} italic`}>{job.location}</p>
+            </div>
+            <ul className={styles.bullets}>
+              {job.responsibilities.map((resp, i) => (
+                <li key={i}>{lint(`workExperience.${index}.responsibilities.${i}`, resp)}</li>
+              ))}
+            </ul>
+          </div>
+        ));
+      case 'skills': {
+        // Flags are keyed by position in the CV data, so each skill keeps its original index.
+        const groups = (cvData.skillGroups || [])
+          .map((group, g) => ({ category: group.category, skills: group.skills.map((skill, i) => ({ skill, key: `skillGroups.${g}.skills.${i}` })) }))
+          .filter(group => group.skills.length > 0);
+        const rest = ungroupedSkillIndexes(cvData).map(i => ({ skill: cvData.skills[i], key: `skills.${i}` }));
+        const lines = groups.length === 0 ? [{ category: '', skills: rest }] : rest.length > 0 ? [...groups, { category: localeStrings(cvData.locale).otherSkills, skills: rest }] : groups;
+        return lines.map((line, l) => isSidebar(section) ? (
+          <div key={l} className={styles.body}>
+            {line.category && <h3 className={styles.jobTitle}>{line.category}</h3>}
+            <ul className="space-y-0.5">
+              {line.skills.map(({ skill, key }) => (
+                <li key={key}><Flagged reason={flagFor(key)}>{skill}</Flagged></li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <p key={l} className={styles.body}>
+            {line.category && <span className="font-semibold">{line.category}: </span>}
+            {line.skills.map(({ skill, key }, i) => (
+              <React.Fragment key={key}>
+                {i > 0 && (line.category ? ', ' : ' | ')}
+                <Flagged reason={flagFor(key)}>{skill}</Flagged>
+              </React.Fragment>
+            ))}
+          </p>
+        ));
+      }
+      case 'education':
+        return cvData.education.map((edu, index) => (
+          <div key={index} className={`${styles.body} ${isSidebar(section) ? '' : 'flex justify-between'}`}>
+            <div>
+              <h3 className={styles.jobTitle}><Flagged reason={flagFor(`education.${index}.institution`)}>{edu.institution}</Flagged></h3>
+              <p className="italic"><Flagged reason={flagFor(`education.${index}.degree`)}>{edu.degree}</Flagged></p>
+              {formatEducationDetails(edu, cvData.locale) && <p className={styles.subtle}>{formatEducationDetails(edu, cvData.locale)}</p>}
+            </div>
+            <p className={`${styles.subtle} font-semibold`}><Flagged reason={flagFor(`education.${index}.dates`)}>{edu.dates}</Flagged></p>
+          </div>
+        ));
+      case 'projects':
+        return cvData.projects!.map((project, index) => (
+          <div key={index} className={styles.entry}>
+            {datedLine(section, project.name, project.dates)}
+            {project.url && <p className={styles.subtle}>{link(project.url)}</p>}
+            {project.description && <p className="mt-1">{project.description}</p>}
+          </div>
+        ));
+      case 'certifications':
+        return credentials(section, cvData.certifications!.map((c, i) => ({ ...c, flagKey: `certifications.${i}.name` })));
+      case 'awards':
+        return credentials(section, cvData.awards!.map(award => ({ name: award.title, issuer: award.issuer, date: award.date })));
+      case 'languages':
+        return isSidebar(section) ? (
+          <ul className={`${styles.body} space-y-0.5`}>
+            {cvData.languages!.map((language, i) => <li key={i}>{formatLanguage(language)}</li>)}
+          </ul>
+        ) : (
+          <p className={styles.body}>{cvData.languages!.map(formatLanguage).join(' | ')}</p>
+        );
+      case 'publications':
+        return (
+          <ul className={styles.bullets}>
+            {cvData.publications!.map((publication, i) => (
+              <li key={i}>
+                <span className="italic">{publication.title}</span>
+                {[publication.publisher, publication.date].filter(Boolean).map(part => `, ${part}`).join('')}
+                {publication.url && <>{'. '}{link(publication.url)}</>}
+              </li>
+            ))}
+          </ul>
+        );
+      case 'volunteering':
+        return cvData.volunteering!.map((work, index) => (
+          <div key={index} className={styles.entry}>
+            {datedLine(section, work.role, work.dates)}
+            <p className="italic">{work.organization}</p>
+            {work.responsibilities.length > 0 && (
+              <ul className={styles.bullets}>
+                {work.responsibilities.map((resp, i) => <li key={i}>{lint(`volunteering.${index}.responsibilities.${i}`, resp)}</li>)}
+              </ul>
+            )}
+          </div>
+        ));
+    }
+  };
+
+  const renderSection = (section: CvSectionId): React.ReactNode =>
+    hasSectionContent(cvData, section) ? (
+      <section key={section} className={styles.section}>
+        <h2 className={styles.heading}>{sectionTitle(section, cvData.locale)}</h2>
+        {renderContent(section)}
+      </section>
+    ) : null;
+
+  const sectionOrder = resolveSectionOrder(template, cvData.sectionOrder);
+  const mainSections = sectionOrder.filter(s => !isSidebar(s));
+  const sideSections = sectionOrder.filter(isSidebar);
+
+  return (
+    <div id="cv-preview" className={`bg-white text-black h-full overflow-y-auto ${styles.container}`}>
+      <CvHeader cvData={cvData} templateId={template.id} findings={findings} onFix={onFix} />
+
+      {sideSections.length > 0 ? (
+        <div className="grid grid-cols-3 gap-6">
+          <div className="col-span-2">{mainSections.map(renderSection)}</div>
+          <aside>{sideSections.map(renderSection)}</aside>
+        </div>
+      ) : (
+        mainSections.map(renderSection)
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,511 @@
+import React from 'react';
+import type { CvData, ContactInfo, WorkExperience, Education, PersonalDetails, RegenerationTarget, SkillGroup } from '../services/geminiService';
+import { CvSectionId, CvTemplateId, getTemplate, resolveSectionOrder } from '../services/templates';
+import { getLocale, sectionTitle } from '../services/locales';
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, SparkleIcon, TrashIcon } from './icons';
+
+interface CvEditorProps {
+  cvData: CvData;
+  /** The template whose section order applies until the user sets their own. */
+  templateId: CvTemplateId;
+  /** `coalesceKey` identifies the edited field so consecutive keystrokes form one undo step. */
+  onChange: (cvData: CvData, coalesceKey?: string) => void;
+  /** When provided, sections and bullets get a button to regenerate them with the AI. */
+  onRegenerate?: (target: RegenerationTarget) => void;
+}
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+const replaceAt = <T,>(items: T[], index: number, item: T): T[] => items.map((existing, i) => (i === index ? item : existing));
+
+const removeAt = <T,>(items: T[], index: number): T[] => items.filter((_, i) => i !== index);
+
+const inputClass = 'w-full bg-transparent border border-dashed border-slate-300 rounded px-1 focus:outline-none focus:border-indigo-500 focus:bg-indigo-50';
+
+const ItemControls: React.FC<{ onUp: () => void; onDown: () => void; onDelete: () => void; label: string }> = ({ onUp, onDown, onDelete, label }) => (
+  <div className="flex flex-shrink-0 items-center text-slate-400">
+    <button type="button" onClick={onUp} title={`Move ${label} up`} className="p-0.5 hover:text-indigo-600"><ArrowUpIcon className="h-4 w-4" /></button>
+    <button type="button" onClick={onDown} title={`Move ${label} down`} className="p-0.5 hover:text-indigo-600"><ArrowDownIcon className="h-4 w-4" /></button>
+    <button type="button" onClick={onDelete} title={`Delete ${label}`} className="p-0.5 hover:text-red-600"><TrashIcon className="h-4 w-4" /></button>
+  </div>
+);
+
+const AddButton: React.FC<{ onClick: () => void; label: string }> = ({ onClick, label }) => (
+  <button type="button" onClick={onClick} className="mt-2 flex items-center gap-1 text-xs font-semibold text-indigo-600 hover:underline">
+    <PlusIcon className="h-4 w-4" />
+    {label}
+  </button>
+);
+
+const RegenerateButton: React.FC<{ onClick: () => void; label: string }> = ({ onClick, label }) => (
+  <button type="button" onClick={onClick} title={label} className="p-0.5 text-slate-400 hover:text-indigo-600">
+    <SparkleIcon className="h-4 w-4" />
+  </button>
+);
+
+const SectionHeading: React.FC<{ title: string; onRegenerate?: () => void; onMove?: (offset: number) => void }> = ({ title, onRegenerate, onMove }) => (
+  <h2 className="flex items-center gap-1 text-sm font-bold uppercase border-b-2 border-black pb-1 tracking-widest">
+    <span className="flex-grow">{title}</span>
+    {onRegenerate && <RegenerateButton onClick={onRegenerate} label={`Regenerate ${title.toLowerCase()}`} />}
+    {onMove && (
+      <>
+        <button type="button" onClick={() => onMove(-1)} title="Move section up" className="p-0.5 text-slate-400 hover:text-indigo-600"><ArrowUpIcon className="h-4 w-4" /></button>
+        <button type="button" onClick={() => onMove(1)} title="Move section down" className="p-0.5 text-slate-400 hover:text-indigo-600"><ArrowDownIcon className="h-4 w-4" /></button>
+      </>
+    )}
+  </h2>
+);
+
+// A field of a list entry. `lines` fields hold a list of strings edited one per line.
+interface EntryField<T> {
+  key: keyof T & string;
+  label: string;
+  className?: string;
+  wide?: boolean;
+  lines?: boolean;
+}
+
+interface EntryListProps<T> {
+  items: T[];
+  fields: EntryField<T>[];
+  /** Prefix of the coalesce keys, e.g. `projects`. */
+  listKey: string;
+  itemLabel: string;
+  emptyItem: T;
+  onChange: (items: T[], coalesceKey?: string) => void;
+}
+
+// Editor for the simpler optional sections: each entry is a small grid of text fields.
+const EntryList = <T extends object,>({ items, fields, listKey, itemLabel, emptyItem, onChange }: EntryListProps<T>) => (
+  <>
+    {items.map((item, index) => (
+      <div key={index} className="mt-2 flex gap-2 items-start">
+        <div className="flex-grow grid grid-cols-2 gap-1">
+          {fields.map(field => {
+            const value = item[field.key] as unknown;
+            const className = `${inputClass} ${field.className || ''} ${field.wide || field.lines ? 'col-span-2' : ''}`;
+            const update = (next: unknown) => onChange(replaceAt(items, index, { ...item, [field.key]: next }), `${listKey}.${index}.${field.key}`);
+            return field.lines ? (
+              <textarea
+                key={field.key}
+                aria-label={field.label}
+                placeholder={`${field.label} (one per line)`}
+                value={((value as string[] | undefined) || []).join('\n')}
+                rows={3}
+                onChange={(e) => update(e.target.value.split('\n'))}
+                className={className}
+              />
+            ) : (
+              <input
+                key={field.key}
+                aria-label={field.label}
+                placeholder={field.label}
+                value={(value as string | undefined) || ''}
+                onChange={(e) => update(e.target.value)}
+                className={className}
+              />
+            );
+          })}
+        </div>
+        <ItemControls
+          label={itemLabel}
+          onUp={() => onChange(moveItem(items, index, index - 1))}
+          onDown={() => onChange(moveItem(items, index, index + 1))}
+          onDelete={() => onChange(removeAt(items, index))}
+        />
+      </div>
+    ))}
+    <AddButton label={`Add ${itemLabel}`} onClick={() => onChange([...items, { ...emptyItem }])} />
+  </>
+);
+
+const emptyJob: WorkExperience = { jobTitle: '', company: '', location: '', dates: '', responsibilities: [''] };
+const emptyEducation: Education = { institution: '', degree: '', dates: '', gpa: '', honors: '' };
+
+// Edit-mode counterpart of CvDisplay: every field of the CV is editable in place,
+// list items can be added, reordered and deleted, and sections can be moved.
+export const CvEditor: React.FC<CvEditorProps> = ({ cvData, templateId, onChange, onRegenerate }) => {
+  const template = getTemplate(templateId);
+  const sectionOrder = resolveSectionOrder(template, cvData.sectionOrder);
+  const contactInfo: ContactInfo = cvData.contactInfo || { email: '', phone: '', linkedin: '', location: '' };
+  const workExperience = cvData.workExperience || [];
+  const education = cvData.education || [];
+  const skills = cvData.skills || [];
+  const skillGroups = cvData.skillGroups || [];
+
+  const updateContact = (field: keyof ContactInfo, value: string) =>
+    onChange({ ...cvData, contactInfo: { ...contactInfo, [field]: value } }, `contactInfo.${field}`);
+
+  // Date of birth, nationality and photo are customary in some countries only, so they are offered
+  // for those locales, or when the CV already has them.
+  const personalDetails: PersonalDetails = cvData.personalDetails || { dateOfBirth: '', nationality: '', photo: '' };
+  const showPersonalDetails = getLocale(cvData.locale).personalDetails || Object.values(personalDetails).some(Boolean);
+  const updatePersonalDetails = (field: keyof PersonalDetails, value: string) =>
+    onChange({ ...cvData, personalDetails: { ...personalDetails, [field]: value } }, `personalDetails.${field}`);
+
+  const handlePhotoSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !['image/jpeg', 'image/png'].includes(file.type)) return;
+    const reader = new FileReader();
+    reader.onload = () => updatePersonalDetails('photo', String(reader.result));
+    reader.readAsDataURL(file);
+  };
+
+  const updateJob = (index: number, job: WorkExperience, coalesceKey?: string) =>
+    onChange({ ...cvData, workExperience: replaceAt(workExperience, index, job) }, coalesceKey);
+
+  const updateEducation = (index: number, edu: Education, coalesceKey?: string) =>
+    onChange({ ...cvData, education: replaceAt(education, index, edu) }, coalesceKey);
+
+  const updateSkillGroup = (index: number, group: SkillGroup, coalesceKey?: string) =>
+    onChange({ ...cvData, skillGroups: replaceAt(skillGroups, index, group) }, coalesceKey);
+
+  const moveSection = (section: CvSectionId, offset: number) => {
+    const from = sectionOrder.indexOf(section);
+    onChange({ ...cvData, sectionOrder: moveItem(sectionOrder, from, from + offset) });
+  };
+
+  const heading = (section: CvSectionId, onRegenerateSection?: () => void) => (
+    <SectionHeading title={sectionTitle(section, cvData.locale)} onRegenerate={onRegenerateSection} onMove={offset => moveSection(section, offset)} />
+  );
+
+  const renderSection = (section: CvSectionId): React.ReactNode => {
+    switch (section) {
+      case 'summary':
+        return (
+          <section key={section}>
+            {heading(section, onRegenerate && (() => onRegenerate({ kind: 'summary' })))}
+            <textarea
+              aria-label="Professional summary"
+              value={cvData.summary}
+              onChange={(e) => onChange({ ...cvData, summary: e.target.value }, 'summary')}
+              rows={4}
+              className={`${inputClass} mt-2`}
+            />
+          </section>
+        );
+      case 'experience':
+        return (
+          <section key={section}>
+            {heading(section)}
+            {workExperience.map((job, index) => (
+              <div key={index} className="mt-3 p-2 rounded border border-slate-200">
+                <div className="flex gap-2 items-start">
+                  <div className="flex-grow grid grid-cols-2 gap-1">
+                    <input aria-label="Job title" value={job.jobTitle} placeholder="Job title" onChange={(e) => updateJob(index, { ...job, jobTitle: e.target.value }, `workExperience.${index}.jobTitle`)} className={`${inputClass} font-bold`} />
+                    <input aria-label="Dates" value={job.dates} placeholder="Dates" onChange={(e) => updateJob(index, { ...job, dates: e.target.value }, `workExperience.${index}.dates`)} className={`${inputClass} text-sm font-semibold text-right`} />
+                    <input aria-label="Company" value={job.company} placeholder="Company" onChange={(e) => updateJob(index, { ...job, company: e.target.value }, `workExperience.${index}.company`)} className={`${inputClass} italic`} />
+                    <input aria-label="Location" value={job.location || ''} placeholder="Location" onChange={(e) => updateJob(index, { ...job, location: e.target.value }, `workExperience.${index}.location`)} className={`${inputClass} text-sm italic text-right`} />
+                  </div>
+                  {onRegenerate && <RegenerateButton onClick={() => onRegenerate({ kind: 'responsibilities', jobIndex: index })} label="Regenerate all bullets for this position" />}
+                  <ItemControls
+                    label="position"
+                    onUp={() => onChange({ ...cvData, workExperience: moveItem(workExperience, index, index - 1) })}
+                    onDown={() => onChange({ ...cvData, workExperience: moveItem(workExperience, index, index + 1) })}
+                    onDelete={() => onChange({ ...cvData, workExperience: removeAt(workExperience, index) })}
+                  />
+                </div>
+                <ul className="mt-2 space-y-1">
+                  {job.responsibilities.map((resp, i) => (
+                    <li key={i} className="flex gap-2 items-start">
+                      <span className="mt-1">•</span>
+                      <textarea
+                        aria-label={`Bullet ${i + 1}`}
+                        value={resp}
+                        rows={2}
+                        onChange={(e) => updateJob(index, { ...job, responsibilities: replaceAt(job.responsibilities, i, e.target.value) }, `workExperience.${index}.responsibilities.${i}`)}
+                        className={inputClass}
+                      />
+                      {onRegenerate && <RegenerateButton onClick={() => onRegenerate({ kind: 'bullet', jobIndex: index, bulletIndex: i })} label="Suggest alternatives for this bullet" />}
+                      <ItemControls
+                        label="bullet"
+                        onUp={() => updateJob(index, { ...job, responsibilities: moveItem(job.responsibilities, i, i - 1) })}
+                        onDown={() => updateJob(index, { ...job, responsibilities: moveItem(job.responsibilities, i, i + 1) })}
+                        onDelete={() => updateJob(index, { ...job, responsibilities: removeAt(job.responsibilities, i) })}
+                      />
+                    </li>
+                  ))}
+                </ul>
+                <AddButton label="Add bullet" onClick={() => updateJob(index, { ...job, responsibilities: [...job.responsibilities, ''] })} />
+              </div>
+            ))}
+            <AddButton label="Add position" onClick={() => onChange({ ...cvData, workExperience: [...workExperience, { ...emptyJob }] })} />
+          </section>
+        );
+      case 'skills':
+        return (
+          <section key={section}>
+            {heading(section, onRegenerate && (() => onRegenerate({ kind: 'skills' })))}
+            <div className="mt-2 flex flex-wrap gap-2">
+              {skills.map((skill, i) => (
+                <div key={i} className="flex items-center gap-1 border border-slate-200 rounded px-1">
+                  <input
+                    aria-label={`Skill ${i + 1}`}
+                    value={skill}
+                    size={Math.max(skill.length, 6)}
+                    onChange={(e) => onChange({ ...cvData, skills: replaceAt(skills, i, e.target.value) }, `skills.${i}`)}
+                    className={`${inputClass} w-auto`}
+                  />
+                  <ItemControls
+                    label="skill"
+                    onUp={() => onChange({ ...cvData, skills: moveItem(skills, i, i - 1) })}
+                    onDown={() => onChange({ ...cvData, skills: moveItem(skills, i, i + 1) })}
+                    onDelete={() => onChange({ ...cvData, skills: removeAt(skills, i) })}
+                  />
+                </div>
+              ))}
+            </div>
+            <AddButton label="Add skill" onClick={() => onChange({ ...cvData, skills: [...skills, ''] })} />
+            {skillGroups.map((group, g) => (
+              <div key={g} className="mt-3 p-2 rounded border border-slate-200">
+                <div className="flex gap-2 items-center">
+                  <input
+                    aria-label="Skill group"
+                    value={group.category}
+                    placeholder="Group, e.g. Cloud"
+                    onChange={(e) => updateSkillGroup(g, { ...group, category: e.target.value }, `skillGroups.${g}.category`)}
+                    className={`${inputClass} font-semibold`}
+                  />
+                  <ItemControls
+                    label="skill group"
+                    onUp={() => onChange({ ...cvData, skillGroups: moveItem(skillGroups, g, g - 1) })}
+                    onDown={() => onChange({ ...cvData, skillGroups: moveItem(skillGroups, g, g + 1) })}
+                    onDelete={() => onChange({ ...cvData, skillGroups: removeAt(skillGroups, g) })}
+                  />
+                </div>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {group.skills.map((skill, i) => (
+                    <div key={i} className="flex items-center gap-1 border border-slate-200 rounded px-1">
+                      <input
+                        aria-label={`${group.category || 'Group'} skill ${i + 1}`}
+                        value={skill}
+                        size={Math.max(skill.length, 6)}
+                        onChange={(e) => updateSkillGroup(g, { ...group, skills: replaceAt(group.skills, i, e.target.value) }, `skillGroups.${g}.skills.${i}`)}
+                        className={`${inputClass} w-auto`}
+                      />
+                      <ItemControls
+                        label="skill"
+                        onUp={() => updateSkillGroup(g, { ...group, skills: moveItem(group.skills, i, i - 1) })}
+                        onDown={() => updateSkillGroup(g, { ...group, skills: moveItem(group.skills, i, i + 1) })}
+                        onDelete={() => updateSkillGroup(g, { ...group, skills: removeAt(group.skills, i) })}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <AddButton label="Add skill" onClick={() => updateSkillGroup(g, { ...group, skills: [...group.skills, ''] })} />
+              </div>
+            ))}
+            <AddButton label="Add skill group" onClick={() => onChange({ ...cvData, skillGroups: [...skillGroups, { category: '', skills: [''] }] })} />
+          </section>
+        );
+      case 'education':
+        return (
+          <section key={section}>
+            {heading(section)}
+            {education.map((edu, index) => (
+              <div key={index} className="mt-2 flex gap-2 items-start">
+                <div className="flex-grow grid grid-cols-2 gap-1">
+                  <input aria-label="Institution" value={edu.institution} placeholder="Institution" onChange={(e) => updateEducation(index, { ...edu, institution: e.target.value }, `education.${index}.institution`)} className={`${inputClass} font-bold`} />
+                  <input aria-label="Dates" value={edu.dates} placeholder="Dates" onChange={(e) => updateEducation(index, { ...edu, dates: e.target.value }, `education.${index}.dates`)} className={`${inputClass} text-sm font-semibold text-right`} />
+                  <input aria-label="Degree" value={edu.degree} placeholder="Degree" onChange={(e) => updateEducation(index, { ...edu, degree: e.target.value }, `education.${index}.degree`)} className={`${inputClass} italic col-span-2`} />
+                  <input aria-label="GPA" value={edu.gpa || ''} placeholder="GPA or grade" onChange={(e) => updateEducation(index, { ...edu, gpa: e.target.value }, `education.${index}.gpa`)} className={`${inputClass} text-sm`} />
+                  <input aria-label="Honors" value={edu.honors || ''} placeholder="Honors" onChange={(e) => updateEducation(index, { ...edu, honors: e.target.value }, `education.${index}.honors`)} className={`${inputClass} text-sm`} />
+                </div>
+                <ItemControls
+                  label="education entry"
+                  onUp={() => onChange({ ...cvData, education: moveItem(education, index, index - 1) })}
+                  onDown={() => onChange({ ...cvData, education: moveItem(education, index, index + 1) })}
+                  onDelete={() => onChange({ ...cvData, education: removeAt(education, index) })}
+                />
+              </div>
+            ))}
+            <AddButton label="Add education" onClick={() => onChange({ ...cvData, education: [...education, { ...emptyEducation }] })} />
+          </section>
+        );
+      case 'projects':
+        return (
+          <section key={section}>
+            {heading(section)}
+            <EntryList
+              items={cvData.projects || []}
+              listKey="projects"
+              itemLabel="project"
+              emptyItem={{ name: '', dates: '', url: '', description: '' }}
+              fields={[
+                { key: 'name', label: 'Project name', className: 'font-bold' },
+                { key: 'dates', label: 'Dates', className: 'text-sm font-semibold text-right' },
+                { key: 'url', label: 'Link', wide: true, className: 'text-sm' },
+                { key: 'description', label: 'Description', wide: true },
+              ]}
+              onChange={(projects, coalesceKey) => onChange({ ...cvData, projects }, coalesceKey)}
+            />
+          </section>
+        );
+      case 'certifications':
+        return (
+          <section key={section}>
+            {heading(section)}
+            <EntryList
+              items={cvData.certifications || []}
+              listKey="certifications"
+              itemLabel="certification"
+              emptyItem={{ name: '', issuer: '', date: '' }}
+              fields={[
+                { key: 'name', label: 'Certification', className: 'font-bold' },
+                { key: 'date', label: 'Date', className: 'text-sm font-semibold text-right' },
+                { key: 'issuer', label: 'Issuer', wide: true, className: 'italic' },
+              ]}
+              onChange={(certifications, coalesceKey) => onChange({ ...cvData, certifications }, coalesceKey)}
+            />
+          </section>
+        );
+      case 'languages':
+        return (
+          <section key={section}>
+            {heading(section)}
+            <EntryList
+              items={cvData.languages || []}
+              listKey="languages"
+              itemLabel="language"
+              emptyItem={{ language: '', proficiency: '' }}
+              fields={[
+                { key: 'language', label: 'Language' },
+                { key: 'proficiency', label: 'Proficiency, e.g. Native or C1' },
+              ]}
+              onChange={(languages, coalesceKey) => onChange({ ...cvData, languages }, coalesceKey)}
+            />
+          </section>
+        );
+      case 'publications':
+        return (
+          <section key={section}>
+            {heading(section)}
+            <EntryList
+              items={cvData.publications || []}
+              listKey="publications"
+              itemLabel="publication"
+              emptyItem={{ title: '', publisher: '', date: '', url: '' }}
+              fields={[
+                { key: 'title', label: 'Title', wide: true, className: 'italic' },
+                { key: 'publisher', label: 'Journal or publisher' },
+                { key: 'date', label: 'Date', className: 'text-sm text-right' },
+                { key: 'url', label: 'Link', wide: true, className: 'text-sm' },
+              ]}
+              onChange={(publications, coalesceKey) => onChange({ ...cvData, publications }, coalesceKey)}
+            />
+          </section>
+        );
+      case 'awards':
+        return (
+          <section key={section}>
+            {heading(section)}
+            <EntryList
+              items={cvData.awards || []}
+              listKey="awards"
+              itemLabel="award"
+              emptyItem={{ title: '', issuer: '', date: '' }}
+              fields={[
+                { key: 'title', label: 'Award', className: 'font-bold' },
+                { key: 'date', label: 'Date', className: 'text-sm font-semibold text-right' },
+                { key: 'issuer', label: 'Awarded by', wide: true, className: 'italic' },
+              ]}
+              onChange={(awards, coalesceKey) => onChange({ ...cvData, awards }, coalesceKey)}
+            />
+          </section>
+        );
+      case 'volunteering':
+        return (
+          <section key={section}>
+            {heading(section)}
+            <EntryList
+              items={cvData.volunteering || []}
+              listKey="volunteering"
+              itemLabel="volunteer role"
+              emptyItem={{ role: '', organization: '', dates: '', responsibilities: [] }}
+              fields={[
+                { key: 'role', label: 'Role', className: 'font-bold' },
+                { key: 'dates', label: 'Dates', className: 'text-sm font-semibold text-right' },
+                { key: 'organization', label: 'Organization', wide: true, className: 'italic' },
+                { key: 'responsibilities', label: 'Bullets', lines: true },
+              ]}
+              onChange={(volunteering, coalesceKey) => onChange({ ...cvData, volunteering }, coalesceKey)}
+            />
+          </section>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-white p-8 md:p-12 text-black font-[calibri] text-[11pt] leading-normal h-full overflow-y-auto space-y-6">
+      <div className="text-center space-y-2">
+        <input
+          aria-label="Full name"
+          value={cvData.fullName}
+          onChange={(e) => onChange({ ...cvData, fullName: e.target.value }, 'fullName')}
+          placeholder="Full name"
+          className={`${inputClass} text-3xl font-bold uppercase tracking-wider text-center`}
+        />
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          {(['location', 'phone', 'email', 'linkedin'] as const).map(field => (
+            <input
+              key={field}
+              aria-label={field}
+              value={contactInfo[field] || ''}
+              onChange={(e) => updateContact(field, e.target.value)}
+              placeholder={field.charAt(0).toUpperCase() + field.slice(1)}
+              className={inputClass}
+            />
+          ))}
+        </div>
+        {showPersonalDetails && (
+          <div className="grid grid-cols-2 gap-2 text-sm items-center">
+            <input
+              aria-label="Date of birth"
+              value={personalDetails.dateOfBirth}
+              onChange={(e) => updatePersonalDetails('dateOfBirth', e.target.value)}
+              placeholder="Date of birth"
+              className={inputClass}
+            />
+            <input
+              aria-label="Nationality"
+              value={personalDetails.nationality}
+              onChange={(e) => updatePersonalDetails('nationality', e.target.value)}
+              placeholder="Nationality"
+              className={inputClass}
+            />
+            <div className="col-span-2 flex items-center justify-center gap-3 text-xs text-slate-600">
+              {personalDetails.photo && <img src={personalDetails.photo} alt="CV photo" className="w-12 h-16 object-cover rounded" />}
+              <label className="font-semibold text-indigo-600 hover:underline cursor-pointer">
+                {personalDetails.photo ? 'Replace photo' : 'Add photo (JPEG or PNG)'}
+                <input type="file" accept="image/jpeg,image/png" onChange={handlePhotoSelected} className="sr-only" />
+              </label>
+              {personalDetails.photo && (
+                <button type="button" onClick={() => updatePersonalDetails('photo', '')} className="font-semibold text-red-600 hover:underline">
+                  Remove photo
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {cvData.sectionOrder && (
+        <p className="text-xs text-slate-500">
+          Sections are in your own order.{' '}
+          <button type="button" onClick={() => onChange({ ...cvData, sectionOrder: undefined })} className="font-semibold text-indigo-600 hover:underline">
+            Use the {template.name} order
+          </button>
+        </p>
+      )}
+
+      {sectionOrder.map(renderSection)}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import type { CvData } from '../services/geminiService';
+import { LintFinding, LintReport, LintSeverity, SEVERITY_ORDER } from '../services/cvLinter';
+
+interface CvQualityPanelProps {
+  report: LintReport;
+  cvData: CvData;
+  showHighlights: boolean;
+  onToggleHighlights: () => void;
+  onFix: (finding: LintFinding) => void;
+}
+
+const SEVERITY_LABELS: Record<LintSeverity, { one: string; many: string; badge: string }> = {
+  error: { one: 'error', many: 'errors', badge: 'bg-red-100 text-red-800' },
+  warning: { one: 'warning', many: 'warnings', badge: 'bg-orange-100 text-orange-800' },
+  info: { one: 'suggestion', many: 'suggestions', badge: 'bg-sky-100 text-sky-800' },
+};
+
+// Where in the CV a finding is, e.g. "Senior Engineer, bullet 3".
+const describeLocation = (key: string, cvData: CvData): string => {
+  const [section, index, , item] = key.split('.');
+  if (section === 'workExperience' || section === 'volunteering') {
+    const entry = section === 'workExperience' ? cvData.workExperience[Number(index)]?.jobTitle : cvData.volunteering?.[Number(index)]?.role;
+    return `${entry || `Entry ${Number(index) + 1}`}, bullet ${Number(item) + 1}`;
+  }
+  if (section === 'contactInfo') return index === 'linkedin' ? 'LinkedIn' : index.charAt(0).toUpperCase() + index.slice(1);
+  if (section === 'summary') return 'Summary';
+  return 'Whole CV';
+};
+
+// Lists the quality linter's findings for the CV, most severe first. Suggestions are collapsed
+// by default since most CVs have a few.
+export const CvQualityPanel: React.FC<CvQualityPanelProps> = ({ report, cvData, showHighlights, onToggleHighlights, onFix }) => {
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  if (report.findings.length === 0) return null;
+
+  const counts = SEVERITY_ORDER
+    .map(severity => ({ severity, count: report.findings.filter(f => f.severity === severity).length }))
+    .filter(({ count }) => count > 0);
+  const visible = showSuggestions ? report.findings : report.findings.filter(f => f.severity !== 'info');
+  const suggestionCount = report.findings.filter(f => f.severity === 'info').length;
+
+  return (
+    <div className="p-4 border-b border-slate-300 bg-slate-50 text-sm text-slate-800">
+      <p className="font-semibold">
+        Quality check:{' '}
+        {counts.map(({ severity, count }) => `${count} ${count === 1 ? SEVERITY_LABELS[severity].one : SEVERITY_LABELS[severity].many}`).join(', ')}
+        <span className="font-normal text-slate-500"> · about {report.pageCount} {report.pageCount === 1 ? 'page' : 'pages'}</span>
+      </p>
+      {visible.length > 0 && (
+        <ul className="mt-2 text-xs space-y-1 max-h-48 overflow-y-auto">
+          {visible.map(f => (
+            <li key={`${f.rule}:${f.key}`} className="flex items-start gap-2">
+              <span className={`flex-shrink-0 px-1.5 rounded font-semibold ${SEVERITY_LABELS[f.severity].badge}`}>{SEVERITY_LABELS[f.severity].one}</span>
+              <span className="flex-grow">
+                <span className="font-semibold">{describeLocation(f.key, cvData)}</span> — {f.message}
+              </span>
+              {f.fix && (
+                <button onClick={() => onFix(f)} className="flex-shrink-0 font-semibold text-indigo-600 hover:underline">
+                  {f.fix.label}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-3 flex gap-3">
+        {suggestionCount > 0 && (
+          <button onClick={() => setShowSuggestions(!showSuggestions)} className="text-xs font-semibold text-slate-700 hover:underline">
+            {showSuggestions ? 'Hide suggestions' : `Show ${suggestionCount} ${suggestionCount === 1 ? 'suggestion' : 'suggestions'}`}
+          </button>
+        )}
+        <button onClick={onToggleHighlights} className="text-xs font-semibold text-slate-700 hover:underline">
+          {showHighlights ? 'Hide highlights' : 'Show highlights'}
+        </button>
+      </div>
+    </div>
+  );
+};
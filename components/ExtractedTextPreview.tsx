@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import type { PageLayout } from '../services/pdfLayout';
+import type { PdfOcrResult } from '../services/pdfOcr';
+import { isLowConfidence, OCR_ENGINES } from '../services/ocr';
+
+interface ExtractedTextPreviewProps {
+  text: string;
+  /** Layout of each PDF page, when the CV was a PDF with a text layer. */
+  pages?: PageLayout[] | null;
+  isStructured: boolean;
+  /** Result of reading the scanned pages, if any. */
+  ocr?: PdfOcrResult | null;
+}
+
+const pageList = (pages: number[]): string => `${pages.length === 1 ? 'page' : 'pages'} ${pages.join(', ')}`;
+
+// Shows exactly the text that will be sent to the optimizer, so extraction problems
+// (garbled columns, missing sections) can be spotted before optimizing.
+export const ExtractedTextPreview: React.FC<ExtractedTextPreviewProps> = ({ text, pages, isStructured, ocr }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const wordCount = text.trim() === '' ? 0 : text.trim().split(/\s+/).length;
+  const multiColumnPages = (pages || [])
+    .map((page, i) => ({ page: i + 1, columns: page.columns }))
+    .filter(p => p.columns > 1);
+  const ocrPages = [...(ocr?.pages.entries() || [])].sort(([a], [b]) => a - b);
+  const lowConfidencePages = ocrPages.filter(([, result]) => isLowConfidence(result));
+  const skippedPages = ocr?.skippedPages || [];
+
+  return (
+    <div className="border border-slate-200 rounded-md bg-slate-50 text-sm">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <p className="text-slate-700">
+          <span className="font-medium">{isStructured ? 'Imported CV' : 'Extracted text'}</span>
+          <span className="text-slate-500"> · {wordCount} words{pages ? ` · ${pages.length} ${pages.length === 1 ? 'page' : 'pages'}` : ''}</span>
+        </p>
+        <button onClick={() => setIsExpanded(!isExpanded)} className="ml-auto text-xs font-semibold text-indigo-600 hover:underline">
+          {isExpanded ? 'Hide' : 'Preview'}
+        </button>
+      </div>
+      {ocr?.usedFallback && (
+        <p className="px-3 pb-2 text-xs text-amber-700">AI text recognition failed, so scanned pages were read on this device instead.</p>
+      )}
+      {lowConfidencePages.length > 0 && (
+        <p className="px-3 pb-2 text-xs text-amber-700">
+          Low OCR confidence on {lowConfidencePages.map(([page, result]) => `page ${page} (${result.confidence}%)`).join(', ')}. Check the extracted text before optimizing.
+        </p>
+      )}
+      {skippedPages.length > 0 && (
+        <p className="px-3 pb-2 text-xs text-amber-700">
+          Scanned {pageList(skippedPages)} {skippedPages.length === 1 ? 'was' : 'were'} not read because of the OCR page limit.
+        </p>
+      )}
+      {isExpanded && (
+        <div className="border-t border-slate-200 px-3 py-2">
+          {multiColumnPages.length > 0 && (
+            <p className="text-xs text-slate-500 mb-2">
+              Multi-column layout detected on {multiColumnPages.map(p => `page ${p.page} (${p.columns} columns)`).join(', ')}. Columns are read one after the other.
+            </p>
+          )}
+          {ocrPages.length > 0 && (
+            <p className="text-xs text-slate-500 mb-2">
+              Read with OCR: {ocrPages.map(([page, result]) =>
+                `page ${page} (${OCR_ENGINES[result.engine].label}${result.confidence !== undefined ? `, ${result.confidence}% confidence` : ''})`
+              ).join(', ')}.
+            </p>
+          )}
+          <pre className="whitespace-pre-wrap font-mono text-xs text-slate-800 max-h-72 overflow-y-auto">{text}</pre>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import type { VerificationReport } from '../services/fabricationGuard';
+import { XCircleIcon } from './icons';
+
+interface FabricationWarningPanelProps {
+  report: VerificationReport;
+  showHighlights: boolean;
+  onToggleHighlights: () => void;
+  onStripFlagged: () => void;
+}
+
+// Lists claims in the optimized CV that could not be traced back to the uploaded CV.
+export const FabricationWarningPanel: React.FC<FabricationWarningPanelProps> = ({ report, showHighlights, onToggleHighlights, onStripFlagged }) => {
+  if (report.flags.length === 0) return null;
+
+  return (
+    <div className="p-4 border-b border-amber-300 bg-amber-50 text-sm text-amber-900">
+      <div className="flex items-start gap-3">
+        <XCircleIcon className="h-5 w-5 flex-shrink-0 mt-0.5 text-amber-600" />
+        <div className="flex-grow">
+          <p className="font-semibold">
+            {report.flags.length} {report.flags.length === 1 ? 'claim' : 'claims'} could not be found in your original CV.
+          </p>
+          <ul className="mt-1 text-xs space-y-0.5">
+            {report.flags.map(f => (
+              <li key={f.key}><span className="font-semibold">{f.value}</span> — {f.reason}</li>
+            ))}
+          </ul>
+          {report.translated && (
+            <p className="mt-1 text-xs italic">Job titles, degrees and skills were translated, so only employers, institutions, dates and certifications were checked.</p>
+          )}
+        </div>
+      </div>
+      <div className="mt-3 flex gap-3">
+        <button onClick={onStripFlagged} className="text-xs font-semibold bg-amber-600 text-white py-1 px-3 rounded-md hover:bg-amber-700 transition-colors">
+          Remove flagged items
+        </button>
+        <button onClick={onToggleHighlights} className="text-xs font-semibold text-amber-800 hover:underline">
+          {showHighlights ? 'Hide highlights' : 'Show highlights'}
+        </button>
+      </div>
+    </div>
+  );
+};
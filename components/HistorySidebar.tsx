@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import {
+  APPLICATION_STATUSES,
+  ApplicationRecord,
+  ApplicationStatus,
+  deleteApplication,
+  deleteMasterCv,
+  duplicateApplication,
+  MasterCvRecord,
+  updateApplication,
+} from '../services/cvLibrary';
+import { CompareApplicationsDialog } from './CompareApplicationsDialog';
+import { CopyIcon, FileIcon, TrashIcon, XCircleIcon } from './icons';
+
+interface HistorySidebarProps {
+  applications: ApplicationRecord[];
+  masterCvs: MasterCvRecord[];
+  activeApplicationId: string | null;
+  error: string | null;
+  onOpenApplication: (application: ApplicationRecord) => void;
+  onApplicationDeleted: (id: string) => void;
+  onLoadMasterCv: (cv: MasterCvRecord) => void;
+  /** Called after the sidebar changed the library, so the lists can be reloaded. */
+  onChange: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ApplicationStatus, string> = {
+  drafted: 'bg-slate-100 text-slate-700',
+  applied: 'bg-blue-100 text-blue-800',
+  interview: 'bg-amber-100 text-amber-800',
+  offer: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-700',
+};
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Slide-over panel listing saved applications and master CVs. Changes are written to local storage directly.
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  applications, masterCvs, activeApplicationId, error, onOpenApplication, onApplicationDeleted, onLoadMasterCv, onChange, onClose,
+}) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : 'The change could not be saved.');
+    }
+    onChange();
+  };
+
+  const toggleSelected = (id: string) =>
+    // Keep at most two selected; picking a third replaces the oldest pick.
+    setSelectedIds(ids => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id].slice(-2));
+
+  const handleDelete = (application: ApplicationRecord) => {
+    if (!window.confirm(`Delete the application${application.company ? ` for ${application.company}` : ''}? This cannot be undone.`)) return;
+    setSelectedIds(ids => ids.filter(id => id !== application.id));
+    run(async () => {
+      await deleteApplication(application.id);
+      onApplicationDeleted(application.id);
+    });
+  };
+
+  const handleDeleteMasterCv = (cv: MasterCvRecord) => {
+    if (!window.confirm(`Delete the saved CV "${cv.name}"? Applications made from it are kept.`)) return;
+    run(() => deleteMasterCv(cv.id));
+  };
+
+  const compared = selectedIds
+    .map(id => applications.find(application => application.id === id))
+    .filter((application): application is ApplicationRecord => !!application)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-slate-900/30" onClick={onClose}>
+      <aside className="bg-white w-full max-w-md h-full shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-slate-200">
+          <h2 className="text-lg font-semibold text-slate-800">History</h2>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-800" title="Close">
+            <XCircleIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-4 space-y-6 text-sm">
+          {(error || actionError) && <p className="text-red-600">{actionError || error}</p>}
+
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-semibold text-slate-700">Applications</h3>
+              <button
+                onClick={() => setIsComparing(true)}
+                disabled={compared.length !== 2}
+                title="Select two applications to compare their CVs"
+                className="text-xs font-semibold text-indigo-600 hover:underline disabled:text-slate-400 disabled:no-underline"
+              >
+                Compare selected ({compared.length}/2)
+              </button>
+            </div>
+            {applications.length === 0 ? (
+              <p className="text-slate-500">Every optimized CV is saved here as an application.</p>
+            ) : (
+              <ul className="space-y-3">
+                {applications.map(application => (
+                  <li
+                    key={application.id}
+                    className={`border rounded-md p-3 ${application.id === activeApplicationId ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200'}`}
+                  >
+                    <div className="flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(application.id)}
+                        onChange={() => toggleSelected(application.id)}
+                        title="Select to compare"
+                        className="mt-1.5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <div className="flex-grow space-y-1">
+                        <input
+                          defaultValue={application.role}
+                          placeholder="Role"
+                          aria-label="Role"
+                          onBlur={(e) => e.target.value !== application.role && run(() => updateApplication(application.id, { role: e.target.value.trim() }))}
+                          className="w-full font-semibold text-slate-800 bg-transparent border border-transparent rounded px-1 hover:border-slate-300 focus:border-indigo-500 focus:outline-none"
+                        />
+                        <input
+                          defaultValue={application.company}
+                          placeholder="Company"
+                          aria-label="Company"
+                          onBlur={(e) => e.target.value !== application.company && run(() => updateApplication(application.id, { company: e.target.value.trim() }))}
+                          className="w-full text-slate-600 bg-transparent border border-transparent rounded px-1 hover:border-slate-300 focus:border-indigo-500 focus:outline-none"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 mt-2 pl-6">
+                      <span className="text-xs text-slate-500">{formatDate(application.createdAt)}</span>
+                      <select
+                        value={application.status}
+                        onChange={(e) => run(() => updateApplication(application.id, { status: e.target.value as ApplicationStatus }))}
+                        aria-label="Status"
+                        className={`text-xs font-medium rounded-full px-2 py-0.5 border-0 ${STATUS_STYLES[application.status]}`}
+                      >
+                        {(Object.keys(APPLICATION_STATUSES) as ApplicationStatus[]).map(status => (
+                          <option key={status} value={status}>{APPLICATION_STATUSES[status]}</option>
+                        ))}
+                      </select>
+                      <div className="ml-auto flex items-center gap-1">
+                        <button onClick={() => onOpenApplication(application)} className="text-xs font-semibold text-indigo-600 hover:underline px-1">
+                          {application.id === activeApplicationId ? 'Open (current)' : 'Open'}
+                        </button>
+                        <button onClick={() => run(() => duplicateApplication(application.id))} title="Duplicate" className="p-1 text-slate-500 hover:text-slate-800">
+                          <CopyIcon className="h-4 w-4" />
+                        </button>
+                        <button onClick={() => handleDelete(application)} title="Delete" className="p-1 text-slate-500 hover:text-red-600">
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section>
+            <h3 className="font-semibold text-slate-700 mb-2">Saved CVs</h3>
+            {masterCvs.length === 0 ? (
+              <p className="text-slate-500">Uploaded CVs are saved here so you can reuse them.</p>
+            ) : (
+              <ul className="space-y-2">
+                {masterCvs.map(cv => (
+                  <li key={cv.id} className="flex items-center gap-2 border border-slate-200 rounded-md p-2">
+                    <FileIcon className="h-5 w-5 text-indigo-500 flex-shrink-0" />
+                    <div className="overflow-hidden">
+                      <p className="font-medium text-slate-800 truncate" title={cv.name}>{cv.name}</p>
+                      <p className="text-xs text-slate-500">{formatDate(cv.updatedAt)}</p>
+                    </div>
+                    <button onClick={() => onLoadMasterCv(cv)} className="ml-auto text-xs font-semibold text-indigo-600 hover:underline px-1">
+                      Use
+                    </button>
+                    <button onClick={() => handleDeleteMasterCv(cv)} title="Delete" className="p-1 text-slate-500 hover:text-red-600">
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+        {isComparing && compared.length === 2 && (
+          <CompareApplicationsDialog before={compared[0]} after={compared[1]} onClose={() => setIsComparing(false)} />
+        )}
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { JOB_KEYWORD_KINDS, JobAnalysis, JobAnalysisKeyword, JobKeywordKind, KeywordPriority } from '../services/jobAnalysis';
+import { LoadingSpinner, PlusIcon, SparkleIcon, XCircleIcon } from './icons';
+
+interface JobAnalysisPanelProps {
+  analysis: JobAnalysis;
+  onChange: (analysis: JobAnalysis) => void;
+  /** True when the job description was edited after it was analyzed. */
+  isStale: boolean;
+  isAnalyzing: boolean;
+  onReanalyze: () => void;
+  onDiscard: () => void;
+}
+
+const DETAIL_FIELDS: { key: 'title' | 'seniority' | 'yearsOfExperience' | 'education' | 'location' | 'workArrangement'; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'seniority', label: 'Seniority' },
+  { key: 'yearsOfExperience', label: 'Experience' },
+  { key: 'education', label: 'Education' },
+  { key: 'location', label: 'Location' },
+  { key: 'workArrangement', label: 'Remote / on-site' },
+];
+
+const PRIORITY_STYLES: Record<KeywordPriority, string> = {
+  pinned: 'bg-indigo-600 text-white border-indigo-600',
+  normal: 'bg-white text-slate-800 border-slate-300',
+  deprioritized: 'bg-slate-100 text-slate-400 border-slate-200 line-through',
+};
+
+const inputClass = 'w-full p-1.5 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm';
+
+const KeywordGroup: React.FC<{
+  kind: JobKeywordKind;
+  keywords: JobAnalysisKeyword[];
+  onSetPriority: (keyword: JobAnalysisKeyword, priority: KeywordPriority) => void;
+  onRemove: (keyword: JobAnalysisKeyword) => void;
+  onAdd: (term: string) => void;
+}> = ({ kind, keywords, onSetPriority, onRemove, onAdd }) => {
+  const [newTerm, setNewTerm] = useState('');
+  const add = () => {
+    if (newTerm.trim()) onAdd(newTerm.trim());
+    setNewTerm('');
+  };
+
+  return (
+    <div>
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-1">{JOB_KEYWORD_KINDS[kind]}</p>
+      <div className="flex flex-wrap gap-1.5">
+        {keywords.map(keyword => (
+          <span key={keyword.term} className={`inline-flex items-center gap-1 text-xs border rounded-full pl-2 pr-1 py-0.5 ${PRIORITY_STYLES[keyword.priority]}`}>
+            {keyword.term}
+            <button
+              onClick={() => onSetPriority(keyword, keyword.priority === 'pinned' ? 'normal' : 'pinned')}
+              title={keyword.priority === 'pinned' ? 'Unpin' : 'Pin: feature this prominently'}
+              className="px-1 font-semibold no-underline hover:opacity-75"
+            >
+              {keyword.priority === 'pinned' ? '★' : '☆'}
+            </button>
+            <button
+              onClick={() => onSetPriority(keyword, keyword.priority === 'deprioritized' ? 'normal' : 'deprioritized')}
+              title={keyword.priority === 'deprioritized' ? 'Restore priority' : 'De-prioritize: do not emphasize'}
+              className="px-1 font-semibold hover:opacity-75"
+            >
+              {keyword.priority === 'deprioritized' ? '↑' : '↓'}
+            </button>
+            <button onClick={() => onRemove(keyword)} title="Remove" className="hover:opacity-75">
+              <XCircleIcon className="h-3.5 w-3.5" />
+            </button>
+          </span>
+        ))}
+        <span className="inline-flex items-center gap-1">
+          <input
+            value={newTerm}
+            onChange={(e) => setNewTerm(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && add()}
+            placeholder="Add"
+            aria-label={`Add to ${JOB_KEYWORD_KINDS[kind].toLowerCase()}`}
+            className="w-24 text-xs p-1 border border-slate-300 rounded-full px-2 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <button onClick={add} disabled={!newTerm.trim()} title="Add" className="text-slate-500 hover:text-indigo-600 disabled:text-slate-300">
+            <PlusIcon className="h-4 w-4" />
+          </button>
+        </span>
+      </div>
+    </div>
+  );
+};
+
+// Editable checklist of what the AI found in the job description. The edited version is what the optimizer sees.
+export const JobAnalysisPanel: React.FC<JobAnalysisPanelProps> = ({ analysis, onChange, isStale, isAnalyzing, onReanalyze, onDiscard }) => {
+  const setKeywords = (keywords: JobAnalysisKeyword[]) => onChange({ ...analysis, keywords });
+  const setResponsibilities = (responsibilities: string[]) => onChange({ ...analysis, responsibilities });
+
+  return (
+    <div className="border border-slate-200 rounded-md bg-slate-50 p-3 text-sm space-y-3">
+      <div className="flex items-center gap-2">
+        <p className="font-medium text-slate-700">Job analysis</p>
+        <p className="text-xs text-slate-500">★ pin, ↓ de-prioritize, or remove keywords before optimizing.</p>
+        <button onClick={onDiscard} className="ml-auto text-xs font-semibold text-slate-500 hover:underline">Discard</button>
+      </div>
+      {isStale && (
+        <div className="flex items-center gap-2 text-xs text-amber-700">
+          <span>The job description changed since it was analyzed, so the optimizer will use the raw text.</span>
+          <button onClick={onReanalyze} disabled={isAnalyzing} className="flex items-center gap-1 font-semibold text-indigo-600 hover:underline disabled:text-slate-400">
+            {isAnalyzing ? <LoadingSpinner size="h-3 w-3" /> : <SparkleIcon className="h-3 w-3" />}
+            Analyze again
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        {DETAIL_FIELDS.map(({ key, label }) => (
+          <label key={key} className="text-xs text-slate-500">
+            {label}
+            <input value={analysis[key]} onChange={(e) => onChange({ ...analysis, [key]: e.target.value })} className={`${inputClass} mt-0.5 text-slate-800`} />
+          </label>
+        ))}
+      </div>
+
+      {(Object.keys(JOB_KEYWORD_KINDS) as JobKeywordKind[]).map(kind => (
+        <KeywordGroup
+          key={kind}
+          kind={kind}
+          keywords={analysis.keywords.filter(k => k.kind === kind)}
+          onSetPriority={(keyword, priority) => setKeywords(analysis.keywords.map(k => k === keyword ? { ...k, priority } : k))}
+          onRemove={(keyword) => setKeywords(analysis.keywords.filter(k => k !== keyword))}
+          onAdd={(term) => {
+            if (!analysis.keywords.some(k => k.term.toLowerCase() === term.toLowerCase())) {
+              setKeywords([...analysis.keywords, { term, kind, priority: 'normal' }]);
+            }
+          }}
+        />
+      ))}
+
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-1">Responsibilities</p>
+        <ul className="space-y-1">
+          {analysis.responsibilities.map((responsibility, i) => (
+            <li key={i} className="flex items-start gap-2">
+              <input
+                value={responsibility}
+                onChange={(e) => setResponsibilities(analysis.responsibilities.map((r, j) => j === i ? e.target.value : r))}
+                className={inputClass}
+              />
+              <button onClick={() => setResponsibilities(analysis.responsibilities.filter((_, j) => j !== i))} title="Remove" className="p-1 text-slate-500 hover:text-red-600">
+                <XCircleIcon className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button onClick={() => setResponsibilities([...analysis.responsibilities, ''])} className="mt-1 flex items-center gap-1 text-xs font-semibold text-indigo-600 hover:underline">
+          <PlusIcon className="h-3 w-3" /> Add responsibility
+        </button>
+      </div>
+    </div>
+  );
+};
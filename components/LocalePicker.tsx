@@ -0,0 +1,20 @@
+import React from 'react';
+import { CV_LOCALES, CvLocaleId } from '../services/locales';
+
+export const LocalePicker: React.FC<{ value: CvLocaleId; onChange: (id: CvLocaleId) => void; disabled?: boolean }> = ({ value, onChange, disabled }) => (
+  <div className="flex items-center gap-2 text-sm">
+    <label htmlFor="cv-locale" className="font-medium text-slate-700">CV language</label>
+    <select
+      id="cv-locale"
+      value={value}
+      onChange={(e) => onChange(e.target.value as CvLocaleId)}
+      disabled={disabled}
+      title="Language, date format and paper size of the optimized CV"
+      className="p-1.5 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+    >
+      {CV_LOCALES.map(l => (
+        <option key={l.id} value={l.id}>{l.label}</option>
+      ))}
+    </select>
+  </div>
+);
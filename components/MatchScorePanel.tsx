@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import type { JobKeyword, MatchComparison } from '../services/keywordMatcher';
+
+const scoreColor = (score: number): string => {
+  if (score >= 75) return 'text-green-600';
+  if (score >= 50) return 'text-amber-600';
+  return 'text-red-600';
+};
+
+const KeywordChips: React.FC<{ keywords: JobKeyword[]; variant: 'matched' | 'missing' }> = ({ keywords, variant }) => {
+  if (keywords.length === 0) {
+    return <p className="text-xs text-slate-500 italic">None</p>;
+  }
+  const chipClass = variant === 'matched'
+    ? 'bg-green-50 text-green-700 border-green-200'
+    : 'bg-red-50 text-red-700 border-red-200';
+  return (
+    <div className="flex flex-wrap gap-1">
+      {keywords.map(k => (
+        <span key={k.term} title={k.category} className={`text-xs px-2 py-0.5 rounded-full border ${chipClass}`}>
+          {k.term}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+// Shows the offline keyword match of the original CV versus the optimized one.
+export const MatchScorePanel: React.FC<{ comparison: MatchComparison }> = ({ comparison }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { before, after, delta, keywords } = comparison;
+
+  if (keywords.length === 0) {
+    return (
+      <div className="p-4 border-b border-slate-300 bg-white text-sm text-slate-500">
+        No recognizable keywords were found in the job description to score against.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 border-b border-slate-300 bg-white text-sm">
+      <div className="flex items-center gap-6">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-slate-500">Keyword match</p>
+          <p className="font-semibold">
+            <span className={scoreColor(before.score)}>{before.score}%</span>
+            <span className="text-slate-400 mx-2">→</span>
+            <span className={`text-lg ${scoreColor(after.score)}`}>{after.score}%</span>
+            <span className={`ml-2 text-xs ${delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              ({delta >= 0 ? '+' : ''}{delta})
+            </span>
+          </p>
+        </div>
+        <p className="text-xs text-slate-500">
+          {after.matched.length} of {keywords.length} job keywords found in the optimized CV.
+        </p>
+        <button onClick={() => setIsExpanded(!isExpanded)} className="ml-auto text-xs font-semibold text-indigo-600 hover:underline">
+          {isExpanded ? 'Hide keywords' : 'Show keywords'}
+        </button>
+      </div>
+      {isExpanded && (
+        <div className="mt-3 space-y-3">
+          <div>
+            <p className="text-xs font-semibold text-slate-700 mb-1">Matched</p>
+            <KeywordChips keywords={after.matched} variant="matched" />
+          </div>
+          <div>
+            <p className="text-xs font-semibold text-slate-700 mb-1">Missing</p>
+            <KeywordChips keywords={after.missing} variant="missing" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
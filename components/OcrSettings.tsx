@@ -0,0 +1,39 @@
+import React from 'react';
+
+interface OcrSettingsProps {
+  pageLimit: number;
+  onPageLimitChange: (limit: number) => void;
+  preferLocal: boolean;
+  onPreferLocalChange: (preferLocal: boolean) => void;
+  disabled?: boolean;
+}
+
+// Options for reading scanned PDF pages. Pages that have a text layer are never sent to OCR.
+export const OcrSettings: React.FC<OcrSettingsProps> = ({ pageLimit, onPageLimitChange, preferLocal, onPreferLocalChange, disabled }) => (
+  <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-xs text-slate-600">
+    <div className="flex items-center gap-2">
+      <label htmlFor="ocr-page-limit">Scan at most</label>
+      <input
+        id="ocr-page-limit"
+        type="number"
+        min={1}
+        max={50}
+        value={pageLimit}
+        disabled={disabled}
+        onChange={(e) => onPageLimitChange(Math.min(50, Math.max(1, Number(e.target.value) || 1)))}
+        className="w-14 p-1 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-slate-100"
+      />
+      <span>scanned pages with OCR</span>
+    </div>
+    <label className="flex items-center gap-2" title="Scanned pages are read in the browser and never sent to the AI provider.">
+      <input
+        type="checkbox"
+        checked={preferLocal}
+        disabled={disabled}
+        onChange={(e) => onPreferLocalChange(e.target.checked)}
+        className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+      />
+      Read scans on this device (no upload)
+    </label>
+  </div>
+);
@@ -0,0 +1,40 @@
+import React from 'react';
+import { OPTIMIZATION_STAGES, OptimizationProgress, OptimizationStage } from '../services/geminiService';
+import { LoadingSpinner } from './icons';
+
+interface OptimizationProgressPanelProps {
+  progress: OptimizationProgress | null;
+  isCancelling: boolean;
+  onCancel: () => void;
+}
+
+// The stages every optimization goes through; 'repairing' only happens when the answer was incomplete.
+const STAGE_ORDER: OptimizationStage[] = ['waiting', 'header', 'summary', 'experience', 'education', 'skills', 'additional', 'checking'];
+
+// Current stage of a running optimization with a step bar and a Cancel button.
+export const OptimizationProgressPanel: React.FC<OptimizationProgressPanelProps> = ({ progress, isCancelling, onCancel }) => {
+  const stage = progress?.stage ?? 'waiting';
+  const step = stage === 'repairing' ? STAGE_ORDER.length : STAGE_ORDER.indexOf(stage) + 1;
+  const roles = progress?.partialCv?.workExperience.length ?? 0;
+
+  return (
+    <div className="p-3 border-b border-slate-300 bg-white text-sm">
+      <div className="flex items-center gap-2">
+        <LoadingSpinner className="h-4 w-4 text-indigo-500" />
+        <p className="font-semibold text-slate-700">
+          {isCancelling ? 'Cancelling...' : OPTIMIZATION_STAGES[stage]}
+          {stage === 'experience' && roles > 0 && !isCancelling && <span className="font-normal text-slate-500"> ({roles} {roles === 1 ? 'role' : 'roles'} so far)</span>}
+        </p>
+        <span className="text-xs text-slate-500">Step {step} of {STAGE_ORDER.length}</span>
+        <button onClick={onCancel} disabled={isCancelling} className="ml-auto text-sm font-semibold text-indigo-600 hover:underline disabled:text-slate-400">
+          Cancel
+        </button>
+      </div>
+      <div className="mt-2 flex gap-1" aria-hidden="true">
+        {STAGE_ORDER.map((s, i) => (
+          <div key={s} title={OPTIMIZATION_STAGES[s]} className={`h-1.5 flex-1 rounded-full ${i < step ? 'bg-indigo-500' : 'bg-slate-200'}`} />
+        ))}
+      </div>
+    </div>
+  );
+};
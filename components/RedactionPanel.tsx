@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import type { CvData } from '../services/geminiService';
+import { PII_KINDS, PiiItem, redactText, redactValue } from '../services/piiRedaction';
+
+interface RedactionPanelProps {
+  /** The CV as it is sent to the AI: structured if it was imported as such, otherwise its text. */
+  cv: string | CvData;
+  /** Personal details found in the CV. */
+  items: PiiItem[];
+  isEnabled: boolean;
+  onToggleEnabled: (isEnabled: boolean) => void;
+  /** Values the user chose to send as they are. */
+  optedOut: Set<string>;
+  onToggleItem: (item: PiiItem) => void;
+  /** True when scanned pages were sent to the AI as images, which cannot be redacted. */
+  usedAiOcr: boolean;
+}
+
+// Lists the personal details found in the CV and shows exactly what the AI will receive instead.
+export const RedactionPanel: React.FC<RedactionPanelProps> = ({ cv, items, isEnabled, onToggleEnabled, optedOut, onToggleItem, usedAiOcr }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const redactions = isEnabled ? items.filter(item => !optedOut.has(item.value)) : [];
+  const sentText = typeof cv === 'string' ? redactText(cv, redactions) : JSON.stringify(redactValue(cv, redactions), null, 2);
+
+  return (
+    <div className="border border-slate-200 rounded-md bg-slate-50 text-sm">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <label className="flex items-center gap-2 text-slate-700">
+          <input type="checkbox" checked={isEnabled} onChange={(e) => onToggleEnabled(e.target.checked)} className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
+          <span className="font-medium">Hide personal details from the AI</span>
+        </label>
+        <span className="text-slate-500">
+          · {items.length === 0 ? 'none found' : `${redactions.length} of ${items.length} hidden`}
+        </span>
+        <button onClick={() => setIsExpanded(!isExpanded)} className="ml-auto text-xs font-semibold text-indigo-600 hover:underline">
+          {isExpanded ? 'Hide' : 'Review'}
+        </button>
+      </div>
+      {usedAiOcr && (
+        <p className="px-3 pb-2 text-xs text-amber-700">
+          Scanned pages were sent to the AI as images, which cannot be redacted. Choose on-device OCR before uploading to keep them private.
+        </p>
+      )}
+      {isExpanded && (
+        <div className="border-t border-slate-200 px-3 py-2 space-y-2">
+          <p className="text-xs text-slate-500">
+            Each detail is replaced with a placeholder before the CV is sent, and the real value is put back into the optimized CV. Untick a detail to send it as it is.
+          </p>
+          {items.length > 0 && (
+            <ul className="space-y-1">
+              {items.map(item => (
+                <li key={item.value} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={isEnabled && !optedOut.has(item.value)}
+                    disabled={!isEnabled}
+                    onChange={() => onToggleItem(item)}
+                    aria-label={`Hide ${item.value}`}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span className="w-24 text-slate-500">{PII_KINDS[item.kind].label}</span>
+                  <span className="text-slate-800 truncate" title={item.value}>{item.value}</span>
+                  <span className="ml-auto font-mono text-slate-500">{item.token}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Sent to the AI</p>
+          <pre className="whitespace-pre-wrap font-mono text-xs text-slate-800 max-h-72 overflow-y-auto">{sentText}</pre>
+        </div>
+      )}
+    </div>
+  );
+};
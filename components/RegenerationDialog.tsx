@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { regenerateCvSection, CvData, RegenerationTarget } from '../services/geminiService';
+import type { PiiItem } from '../services/piiRedaction';
+import { LoadingSpinner, SparkleIcon, XCircleIcon } from './icons';
+
+interface RegenerationDialogProps {
+  cvData: CvData;
+  target: RegenerationTarget;
+  sourceCvText: string;
+  jobDescriptionText: string;
+  /** Personal details to hide from the AI. */
+  redactions: PiiItem[];
+  onApply: (lines: string[]) => void;
+  onClose: () => void;
+}
+
+const QUICK_INSTRUCTIONS = ['More quantitative', 'Shorter', 'More senior tone', 'More keywords'];
+
+const targetTitle = (cvData: CvData, target: RegenerationTarget): string => {
+  switch (target.kind) {
+    case 'summary':
+      return 'Regenerate summary';
+    case 'skills':
+      return 'Regenerate skills';
+    case 'responsibilities':
+      return `Regenerate bullets for ${cvData.workExperience[target.jobIndex]?.jobTitle || 'this role'}`;
+    case 'bullet':
+      return 'Regenerate bullet';
+  }
+};
+
+const currentContent = (cvData: CvData, target: RegenerationTarget): string[] => {
+  switch (target.kind) {
+    case 'summary':
+      return [cvData.summary];
+    case 'skills':
+      return cvData.skills;
+    case 'responsibilities':
+      return cvData.workExperience[target.jobIndex]?.responsibilities || [];
+    case 'bullet':
+      return [cvData.workExperience[target.jobIndex]?.responsibilities[target.bulletIndex] || ''];
+  }
+};
+
+// Modal that regenerates a single part of the CV and lets the user pick one of the alternatives.
+export const RegenerationDialog: React.FC<RegenerationDialogProps> = ({ cvData, target, sourceCvText, jobDescriptionText, redactions, onApply, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+  const [candidates, setCandidates] = useState<string[][]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const result = await regenerateCvSection(cvData, target, sourceCvText, jobDescriptionText, {
+        instruction: instruction.trim() || undefined,
+        redactions,
+      });
+      setCandidates(result);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'An unknown error occurred.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const renderLines = (lines: string[]) =>
+    lines.length > 1 ? (
+      <ul className="list-disc list-inside space-y-1">
+        {lines.map((line, i) => <li key={i}>{line}</li>)}
+      </ul>
+    ) : (
+      <p>{lines[0]}</p>
+    );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between">
+          <h3 className="text-lg font-semibold text-slate-800">{targetTitle(cvData, target)}</h3>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-800" title="Close">
+            <XCircleIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="mt-3 text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded-md p-3">
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-1">Current</p>
+          {renderLines(currentContent(cvData, target))}
+        </div>
+
+        <label htmlFor="regeneration-instruction" className="block text-sm font-medium text-slate-700 mt-4 mb-1">
+          Instruction (optional)
+        </label>
+        <input
+          id="regeneration-instruction"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder='e.g. "more quantitative", "shorter"'
+          className="w-full p-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+        />
+        <div className="mt-2 flex flex-wrap gap-2">
+          {QUICK_INSTRUCTIONS.map(q => (
+            <button key={q} onClick={() => setInstruction(q)} className="text-xs px-2 py-1 rounded-full bg-slate-100 text-slate-700 hover:bg-slate-200">
+              {q}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating}
+          className="mt-4 flex items-center gap-2 bg-indigo-600 text-white font-medium py-2 px-4 rounded-md hover:bg-indigo-700 disabled:bg-slate-400 transition-colors"
+        >
+          {isGenerating ? <LoadingSpinner className="h-4 w-4" /> : <SparkleIcon className="h-4 w-4" />}
+          {candidates.length > 0 ? 'Generate again' : 'Generate'}
+        </button>
+
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+        {candidates.length > 0 && (
+          <div className="mt-4 space-y-3">
+            <p className="text-sm font-medium text-slate-700">Pick an alternative</p>
+            {candidates.map((lines, i) => (
+              <button
+                key={i}
+                onClick={() => onApply(lines)}
+                className="w-full text-left text-sm p-3 border border-slate-200 rounded-md hover:border-indigo-500 hover:bg-indigo-50 transition-colors"
+              >
+                {renderLines(lines)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
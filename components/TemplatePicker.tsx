@@ -0,0 +1,19 @@
+import React from 'react';
+import { CV_TEMPLATES, CvTemplateId } from '../services/templates';
+
+export const TemplatePicker: React.FC<{ value: CvTemplateId; onChange: (id: CvTemplateId) => void }> = ({ value, onChange }) => (
+  <div className="flex items-center gap-2 text-sm">
+    <label htmlFor="cv-template" className="font-medium text-slate-700">Template</label>
+    <select
+      id="cv-template"
+      value={value}
+      onChange={(e) => onChange(e.target.value as CvTemplateId)}
+      title={CV_TEMPLATES.find(t => t.id === value)?.description}
+      className="p-1.5 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+    >
+      {CV_TEMPLATES.map(t => (
+        <option key={t.id} value={t.id}>{t.name}</option>
+      ))}
+    </select>
+  </div>
+);
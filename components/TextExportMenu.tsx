@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import type { CvData } from '../services/geminiService';
+import { CvTemplateDefinition } from '../services/templates';
+import { exportCvAsText, TEXT_EXPORT_FORMATS, TextExportFormat } from '../services/textExport';
+import { cvFileBaseName, downloadBlob } from '../services/download';
+import { CopyIcon, DownloadIcon } from './icons';
+
+interface TextExportMenuProps {
+  cvData: CvData;
+  template: CvTemplateDefinition;
+}
+
+// Copies or downloads the CV as plain text, Markdown or JSON Resume. The text is built
+// from CvData rather than the rendered preview, so it also works while editing.
+export const TextExportMenu: React.FC<TextExportMenuProps> = ({ cvData, template }) => {
+  const [format, setFormat] = useState<TextExportFormat>('text');
+  const [isCopied, setIsCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(exportCvAsText(cvData, format, template));
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  const handleDownload = () => {
+    const { extension, mimeType } = TEXT_EXPORT_FORMATS[format];
+    const text = exportCvAsText(cvData, format, template);
+    downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), `${cvFileBaseName(cvData)}.${extension}`);
+  };
+
+  return (
+    <div className="ml-auto flex items-center gap-1">
+      <select
+        aria-label="Text export format"
+        value={format}
+        onChange={(e) => setFormat(e.target.value as TextExportFormat)}
+        className="p-2 text-sm border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+      >
+        {(Object.keys(TEXT_EXPORT_FORMATS) as TextExportFormat[]).map(f => (
+          <option key={f} value={f}>{TEXT_EXPORT_FORMATS[f].label}</option>
+        ))}
+      </select>
+      <button onClick={handleCopy} className="flex items-center gap-2 bg-slate-200 text-slate-800 font-medium py-2 px-4 rounded-md hover:bg-slate-300 transition-colors">
+        <CopyIcon className="h-4 w-4" />
+        {isCopied ? 'Copied!' : 'Copy'}
+      </button>
+      <button onClick={handleDownload} title={`Download as .${TEXT_EXPORT_FORMATS[format].extension}`} className="p-2 rounded-md text-slate-700 hover:bg-slate-200 transition-colors">
+        <DownloadIcon className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ApplicationRecord, listApplications, listMasterCvs, MasterCvRecord } from '../services/cvLibrary';
+
+/**
+ * Loads the saved master CVs and applications from local storage. Call `refresh` after changing
+ * the library. If storage is unavailable (e.g. some private browsing modes) the lists stay empty
+ * and `error` explains why; the rest of the app keeps working without persistence.
+ */
+export function useCvLibrary() {
+  const [applications, setApplications] = useState<ApplicationRecord[]>([]);
+  const [masterCvs, setMasterCvs] = useState<MasterCvRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [nextApplications, nextMasterCvs] = await Promise.all([listApplications(), listMasterCvs()]);
+      setApplications(nextApplications);
+      setMasterCvs(nextMasterCvs);
+      setError(null);
+    } catch (e) {
+      console.warn("Could not load the CV library:", e);
+      setError('Your saved CVs and applications could not be loaded. Local storage may be disabled in this browser.');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { applications, masterCvs, error, refresh };
+}
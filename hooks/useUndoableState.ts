@@ -0,0 +1,82 @@
+import { useCallback, useReducer } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Consecutive updates with the same key (e.g. typing in one field) collapse into a single undo step.
+  lastKey: string | null;
+}
+
+type HistoryAction<T> =
+  | { type: 'set'; value: T; coalesceKey?: string }
+  | { type: 'reset'; value: T }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const MAX_HISTORY = 100;
+
+function historyReducer<T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> {
+  switch (action.type) {
+    case 'set': {
+      if (action.value === state.present) return state;
+      if (action.coalesceKey && action.coalesceKey === state.lastKey) {
+        return { ...state, present: action.value, future: [] };
+      }
+      return {
+        past: [...state.past, state.present].slice(-MAX_HISTORY),
+        present: action.value,
+        future: [],
+        lastKey: action.coalesceKey ?? null,
+      };
+    }
+    case 'reset':
+      return { past: [], present: action.value, future: [], lastKey: null };
+    case 'undo': {
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        lastKey: null,
+      };
+    }
+    case 'redo': {
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        lastKey: null,
+      };
+    }
+  }
+}
+
+/**
+ * State with undo/redo history. `set` records a new history entry, `reset` replaces
+ * the value and clears the history (e.g. when a fresh result arrives from the AI).
+ */
+export function useUndoableState<T>(initialValue: T) {
+  const [state, dispatch] = useReducer(historyReducer<T>, {
+    past: [],
+    present: initialValue,
+    future: [],
+    lastKey: null,
+  });
+
+  const set = useCallback((value: T, coalesceKey?: string) => dispatch({ type: 'set', value, coalesceKey }), []);
+  const reset = useCallback((value: T) => dispatch({ type: 'reset', value }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  return {
+    value: state.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
@@ -0,0 +1,16 @@
+// Helpers for long-running work that the user can cancel with an AbortSignal.
+
+/** Rejects as soon as the signal is aborted, without waiting for the underlying work to finish. */
+export const abortable = <T,>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/** Waits for `ms` milliseconds, or rejects early with the signal's reason if it is aborted. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  abortable(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
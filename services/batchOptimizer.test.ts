@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BatchItemState, BatchJob, runBatch } from './batchOptimizer';
+import { createMockProvider, GenerateRequest, LlmRateLimitError, setLlmProvider } from './llm';
+
+const job = (id: string): BatchJob => ({ id, jobDescription: `Job ${id}`, company: '', role: '' });
+
+// A provider that answers with the mock fixtures, after running `before` for each request.
+const useProvider = (before: (request: GenerateRequest) => void | Promise<void>) => {
+  const mock = createMockProvider();
+  const generate = vi.fn(async (request: GenerateRequest) => {
+    await before(request);
+    return mock.generate(request);
+  });
+  setLlmProvider({ name: 'test', generate });
+  return generate;
+};
+
+const statusesOf = (updates: [string, BatchItemState][], id: string) =>
+  updates.filter(([jobId]) => jobId === id).map(([, state]) => state.status);
+
+describe('runBatch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('waits after a rate limit and then retries', async () => {
+    let calls = 0;
+    useProvider(() => {
+      if (++calls === 1) throw new LlmRateLimitError('Too many requests', 30_000);
+    });
+    const updates: [string, BatchItemState][] = [];
+    const run = runBatch('My CV', [job('a')], { concurrency: 1, onUpdate: (id, state) => updates.push([id, state]) });
+
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(updates.at(-1)![1]).toMatchObject({ status: 'waiting', attempts: 1 });
+    await vi.advanceTimersByTimeAsync(1_000);
+    const states = await run;
+
+    expect(states.get('a')).toMatchObject({ status: 'done', attempts: 2 });
+    expect(statusesOf(updates, 'a')).toEqual(['queued', 'running', 'waiting', 'running', 'done']);
+  });
+
+  it('pauses the other workers while rate limited', async () => {
+    let calls = 0;
+    const generate = useProvider(() => {
+      if (++calls === 1) throw new LlmRateLimitError('Too many requests', 10_000);
+    });
+    const run = runBatch('My CV', [job('a'), job('b'), job('c')], { concurrency: 2, onUpdate: () => {} });
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    // "a" was limited; "b" finished, and "c" waits for the pause instead of sending a request.
+    expect(generate).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(5_000);
+    const states = await run;
+    expect([...states.values()].map(state => state.status)).toEqual(['done', 'done', 'done']);
+    expect(generate).toHaveBeenCalledTimes(4);
+  });
+
+  it('fails a job that is still rate limited after the last retry', async () => {
+    const generate = useProvider(() => {
+      throw new LlmRateLimitError('Too many requests');
+    });
+    const run = runBatch('My CV', [job('a')], { concurrency: 1, maxRetries: 2, baseDelayMs: 1_000, onUpdate: () => {} });
+
+    await vi.runAllTimersAsync();
+    const states = await run;
+    expect(states.get('a')).toMatchObject({ status: 'failed', attempts: 3, errorName: 'LlmRateLimitError', error: 'Too many requests' });
+    expect(generate).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails other errors at once without retrying', async () => {
+    const generate = useProvider(() => {
+      throw new Error('The AI returned an invalid answer.');
+    });
+    const states = await runBatch('My CV', [job('a'), job('b')], { concurrency: 1, onUpdate: () => {} });
+
+    expect(states.get('a')).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(states.get('b')).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('marks unfinished jobs as cancelled when aborted', async () => {
+    const controller = new AbortController();
+    useProvider(request => {
+      if (request.prompt.includes('Job b')) throw new LlmRateLimitError('Too many requests', 60_000);
+    });
+    const run = runBatch('My CV', [job('a'), job('b'), job('c')], { concurrency: 1, signal: controller.signal, onUpdate: () => {} });
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    controller.abort();
+    const states = await run;
+    expect(states.get('a')).toMatchObject({ status: 'done' });
+    expect(states.get('b')).toMatchObject({ status: 'cancelled', retryAt: undefined });
+    expect(states.get('c')).toMatchObject({ status: 'cancelled', attempts: 0 });
+  });
+});
@@ -0,0 +1,224 @@
+import JSZip from 'jszip';
+import { CvData, optimizeCvWithGemini } from './geminiService';
+import { sleep } from './abort';
+import { LlmRateLimitError } from './llm';
+import { guessCompanyAndRole } from './cvLibrary';
+import { importCvFile } from './cvImport';
+import { parseCsv } from './linkedInImport';
+import { buildCvDocx } from './docxExport';
+import { buildCvPdf, PageSize } from './pdfExport';
+import type { CvTemplateDefinition } from './templates';
+import type { MatchComparison } from './keywordMatcher';
+import type { PiiItem } from './piiRedaction';
+import type { CvLocaleId } from './locales';
+
+// Batch mode: one CV optimized against many job descriptions. Jobs run through a small worker
+// pool; when the provider reports a rate limit, all workers pause and the job is retried with
+// exponential backoff.
+
+export interface BatchJob {
+  id: string;
+  jobDescription: string;
+  company: string;
+  role: string;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItemState {
+  status: BatchItemStatus;
+  /** Number of requests made so far for this job. */
+  attempts: number;
+  cvData?: CvData;
+  error?: string;
+  /** The `name` of the error a failed job ended with, e.g. 'LlmConfigurationError'. */
+  errorName?: string;
+  /** While waiting after a rate limit: when the next attempt is due (ms since epoch). */
+  retryAt?: number;
+}
+
+export interface BatchOptions {
+  /** Jobs optimized at the same time. */
+  concurrency: number;
+  /** Retries per job after rate-limit errors. Other errors fail the job straight away. */
+  maxRetries?: number;
+  /** First backoff delay; doubled on every further retry unless the provider says how long to wait. */
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  /** Personal details to replace with placeholders before the CV is sent. */
+  redactions?: PiiItem[];
+  /** Language and regional format of the tailored CVs. */
+  locale?: CvLocaleId;
+  onUpdate: (jobId: string, state: BatchItemState) => void;
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 5;
+
+/** File types accepted as job descriptions: one per document, or many in a CSV. */
+export const ACCEPTED_JOB_FILE_TYPES = '.txt,.md,.pdf,.docx,.odt,.rtf,.csv';
+
+export const createBatchJob = (jobDescription: string, details: Partial<Pick<BatchJob, 'company' | 'role'>> = {}): BatchJob => {
+  const guessed = guessCompanyAndRole(jobDescription);
+  return {
+    id: crypto.randomUUID(),
+    jobDescription: jobDescription.trim(),
+    company: details.company?.trim() || guessed.company,
+    role: details.role?.trim() || guessed.role,
+  };
+};
+
+/** Splits pasted text into job descriptions at lines consisting only of `---` (or `===`). */
+export const splitPastedJobDescriptions = (text: string): string[] =>
+  text.split(/^\s*(?:-{3,}|={3,})\s*$/m).map(part => part.trim()).filter(Boolean);
+
+const findColumn = (header: string[], pattern: RegExp): number => header.findIndex(name => pattern.test(name.trim()));
+
+/**
+ * Reads job descriptions from a CSV with a header row. The description column is required
+ * ("Description", "Job Description" or "JD"); "Company" and "Title"/"Role"/"Position" are optional.
+ */
+export function parseJobDescriptionsCsv(text: string): BatchJob[] {
+  const [header = [], ...rows] = parseCsv(text);
+  const descriptionColumn = findColumn(header, /^(?:job\s*)?description$|^jd$|^text$/i);
+  if (descriptionColumn === -1) {
+    throw new Error('The CSV needs a "Description" column with the job description text.');
+  }
+  const companyColumn = findColumn(header, /^(?:company|employer|organi[sz]ation)$/i);
+  const roleColumn = findColumn(header, /^(?:(?:job\s*)?title|role|position)$/i);
+  return rows
+    .filter(row => (row[descriptionColumn] || '').trim() !== '')
+    .map(row => createBatchJob(row[descriptionColumn], {
+      company: companyColumn === -1 ? undefined : row[companyColumn],
+      role: roleColumn === -1 ? undefined : row[roleColumn],
+    }));
+}
+
+/** Reads job descriptions from uploaded files: CSVs may hold many, any other document is one. */
+export async function readJobDescriptionFiles(files: File[]): Promise<BatchJob[]> {
+  const jobs: BatchJob[] = [];
+  for (const file of files) {
+    if (/\.csv$/i.test(file.name)) {
+      jobs.push(...parseJobDescriptionsCsv(await file.text()));
+    } else {
+      const { text } = await importCvFile(file);
+      if (text.trim() !== '') jobs.push(createBatchJob(text));
+    }
+  }
+  return jobs;
+}
+
+/**
+ * Optimizes `cv` for every job, at most `options.concurrency` at a time, reporting each state
+ * change through `options.onUpdate`. Resolves with the final state of every job; when the signal
+ * is aborted, unfinished jobs end as 'cancelled'.
+ */
+export async function runBatch(cv: string | CvData, jobs: BatchJob[], options: BatchOptions): Promise<Map<string, BatchItemState>> {
+  const { signal, redactions, locale, onUpdate, maxRetries = 4, baseDelayMs = 5000 } = options;
+  const states = new Map<string, BatchItemState>();
+  const update = (job: BatchJob, state: BatchItemState) => {
+    states.set(job.id, state);
+    onUpdate(job.id, state);
+  };
+  jobs.forEach(job => update(job, { status: 'queued', attempts: 0 }));
+
+  // Set when any request is rate limited, so that no worker sends another request before then.
+  let pausedUntil = 0;
+  let next = 0;
+
+  const runJob = async (job: BatchJob) => {
+    let attempts = 0;
+    while (true) {
+      if (pausedUntil > Date.now()) {
+        update(job, { status: 'waiting', attempts, retryAt: pausedUntil });
+        await sleep(pausedUntil - Date.now(), signal);
+      }
+      signal?.throwIfAborted();
+      attempts++;
+      update(job, { status: 'running', attempts });
+      try {
+        const cvData = await optimizeCvWithGemini(cv, job.jobDescription, { signal, redactions, locale });
+        update(job, { status: 'done', attempts, cvData });
+        return;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        if (!(error instanceof LlmRateLimitError) || attempts > maxRetries) {
+          update(job, {
+            status: 'failed',
+            attempts,
+            error: error instanceof Error ? error.message : 'An unknown error occurred.',
+            errorName: error instanceof Error ? error.name : undefined,
+          });
+          return;
+        }
+        const delay = error.retryAfterMs ?? baseDelayMs * 2 ** (attempts - 1) * (1 + Math.random() * 0.25);
+        pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < jobs.length && !signal?.aborted) {
+      const job = jobs[next++];
+      try {
+        await runJob(job);
+      } catch {
+        // Aborted: the remaining jobs are marked as cancelled below.
+        break;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(options.concurrency, MAX_BATCH_CONCURRENCY, jobs.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  jobs.forEach(job => {
+    const state = states.get(job.id);
+    if (state && state.status !== 'done' && state.status !== 'failed') update(job, { ...state, status: 'cancelled', retryAt: undefined });
+  });
+  return states;
+}
+
+export type BatchExportFormat = 'pdf' | 'docx';
+
+export interface BatchExportItem {
+  job: BatchJob;
+  /** Position of the job in the batch, so that file names match the results table even when jobs failed. */
+  index: number;
+  cvData: CvData;
+  match: MatchComparison | null;
+}
+
+const slug = (text: string): string =>
+  text.normalize('NFKD').replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '_').slice(0, 40);
+
+/** File name (without extension) for the tailored CV of the job at `index`, e.g. `01_Acme_Engineer`. */
+export const batchFileName = (index: number, job: BatchJob): string =>
+  [String(index + 1).padStart(2, '0'), slug(job.company), slug(job.role)].filter(Boolean).join('_');
+
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Packs the tailored CVs into a ZIP, one PDF or DOCX per job, plus `results.csv` listing the
+ * company, role, file name and keyword match scores of each.
+ */
+export async function buildBatchZip(
+  items: BatchExportItem[],
+  format: BatchExportFormat,
+  options: { template: CvTemplateDefinition; pageSize: PageSize },
+): Promise<Blob> {
+  const zip = new JSZip();
+  const rows = [['Company', 'Role', 'File', 'Original match', 'Optimized match'].map(csvField).join(',')];
+  for (const { job, index, cvData, match } of items) {
+    const fileName = `${batchFileName(index, job)}.${format}`;
+    zip.file(fileName, format === 'pdf'
+      ? await buildCvPdf(cvData, { template: options.template, pageSize: options.pageSize })
+      : await buildCvDocx(cvData, options.template, options.pageSize));
+    rows.push([job.company, job.role, fileName, match?.before.score ?? '', match?.after.score ?? ''].map(csvField).join(','));
+  }
+  zip.file('results.csv', rows.join('\n') + '\n');
+  return zip.generateAsync({ type: 'blob' });
+}
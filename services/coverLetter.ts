@@ -0,0 +1,46 @@
+import { CvLocaleId, getLocale } from './locales';
+import type { PiiItem } from './piiRedaction';
+import { toAsciiSafe } from './textExport';
+
+// A cover letter written from the optimized CV. It is kept structured (greeting, body paragraphs,
+// closing) so the preview, the PDF and the plain text are laid out the same way as the CV.
+
+export type CoverLetterTone = 'professional' | 'enthusiastic' | 'formal' | 'conversational';
+
+export const COVER_LETTER_TONES: Record<CoverLetterTone, { label: string; instruction: string }> = {
+  professional: { label: 'Professional', instruction: 'confident and professional, without clichés' },
+  enthusiastic: { label: 'Enthusiastic', instruction: 'warm and enthusiastic about the role and the company, while staying factual' },
+  formal: { label: 'Formal', instruction: 'formal and reserved, as expected by traditional employers' },
+  conversational: { label: 'Conversational', instruction: 'friendly and conversational, in plain language with short sentences' },
+};
+
+export interface CoverLetter {
+  /** e.g. "Dear Hiring Manager," */
+  greeting: string;
+  /** Body of the letter, 3-4 paragraphs. */
+  paragraphs: string[];
+  /** e.g. "Kind regards," */
+  closing: string;
+  /** Name under the closing; the CV's full name. */
+  signature: string;
+}
+
+export interface CoverLetterOptions {
+  company: string;
+  tone: CoverLetterTone;
+  /** Personal details to replace with placeholders before sending the CV, and to restore in the letter. */
+  redactions?: PiiItem[];
+}
+
+/** Date line of the letter, e.g. "18 October 2026", in the CV's language. */
+export const formatLetterDate = (date: Date = new Date(), locale?: CvLocaleId): string =>
+  date.toLocaleDateString(locale && locale !== 'en-US' ? locale : 'en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+/** The letter as ATS-safe plain text for pasting into application forms. */
+export function coverLetterToPlainText(letter: CoverLetter, locale?: CvLocaleId): string {
+  const keepAccents = getLocale(locale).language !== 'en';
+  return [letter.greeting, ...letter.paragraphs, `${letter.closing}\n${letter.signature}`]
+    .map(block => block.split('\n').map(line => toAsciiSafe(line, { keepAccents })).join('\n'))
+    .filter(Boolean)
+    .join('\n\n') + '\n';
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { CvData } from './geminiService';
+import { compareCvs, revertChanges } from './cvDiff';
+
+const cv = (overrides: Partial<CvData>): CvData => ({
+  fullName: 'Jane Doe',
+  contactInfo: { email: '', phone: '', linkedin: '', location: '' },
+  summary: 'Engineer.',
+  workExperience: [],
+  education: [],
+  skills: [],
+  ...overrides,
+});
+
+const job = (responsibilities: string[]) => ({ jobTitle: 'Engineer', company: 'Acme', location: '', dates: '2020 - 2022', responsibilities });
+
+describe('compareCvs', () => {
+  it('gives repeated bullets and skills their own change ids', () => {
+    const original = cv({ workExperience: [job(['Wrote tests'])], skills: ['Go'] });
+    const optimized = cv({ workExperience: [job(['Wrote tests', 'Shipped features weekly', 'Shipped features weekly'])], skills: ['Go', 'Python', 'Python'] });
+    const comparison = compareCvs(original, optimized);
+    const ids = comparison.changes.map(change => change.id);
+    expect(ids).toEqual([
+      'bullet:0:Shipped features weekly',
+      'bullet:0:Shipped features weekly#2',
+      'skill:Python',
+      'skill:Python#2',
+    ]);
+  });
+
+  it('reverts only the chosen one of two identical items', () => {
+    const original = cv({ workExperience: [job([])], skills: [] });
+    const optimized = cv({ workExperience: [job(['Shipped features weekly', 'Shipped features weekly'])], skills: ['Python', 'Python'] });
+    const comparison = compareCvs(original, optimized);
+    const reverted = revertChanges(optimized, comparison, new Set(['bullet:0:Shipped features weekly#2', 'skill:Python']));
+    expect(reverted.workExperience[0].responsibilities).toEqual(['Shipped features weekly']);
+    expect(reverted.skills).toEqual(['Python']);
+  });
+
+  it('lists the sections it does not compare', () => {
+    const optimized = cv({
+      education: [{ institution: 'TU Munich', degree: 'MSc', dates: '2018' }],
+      skillGroups: [{ category: 'Languages', skills: ['Go'] }],
+      projects: [],
+      certifications: [{ name: 'CKA', issuer: 'CNCF', date: '2021' }],
+    });
+    expect(compareCvs('Engineer.', optimized).notCompared).toEqual(['Education', 'Grouped skills', 'Certifications']);
+  });
+});
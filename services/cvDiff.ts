@@ -0,0 +1,248 @@
+import type { CvData } from './geminiService';
+import { containsTerm, normalizeForMatching } from './keywordMatcher';
+import { SECTION_TITLES } from './templates';
+
+// Aligns the original CV with the optimized CV section by section, so the user can see what the
+// AI changed and revert individual changes. The original is either a structured CV (JSON Resume
+// or LinkedIn imports) or the extracted text of an uploaded file. For text, each optimized
+// bullet is paired with the most similar line of the original; content the AI dropped can only
+// be detected when the original is structured.
+
+export type CvChangeKind = 'modified' | 'added' | 'removed';
+
+export interface CvChange {
+  /**
+   * Stable while the underlying text does not change, e.g. `bullet:0:Led a team of five`. A repeated
+   * text gets its occurrence number, e.g. `skill:Python#2` for the second "Python".
+   */
+  id: string;
+  kind: CvChangeKind;
+  /** Empty for added content. */
+  original: string;
+  /** Empty for removed content. */
+  optimized: string;
+}
+
+export interface AlignedItem {
+  /** Null when the optimized CV added this item. */
+  original: string | null;
+  /** Null when the optimized CV dropped this item. */
+  optimized: string | null;
+  /** Null when the item is unchanged. */
+  change: CvChange | null;
+}
+
+export interface JobComparison {
+  /** Index of the role in the optimized CV. */
+  jobIndex: number;
+  jobTitle: string;
+  company: string;
+  bullets: AlignedItem[];
+}
+
+export interface CvComparison {
+  summary: AlignedItem;
+  jobs: JobComparison[];
+  skills: AlignedItem[];
+  changes: CvChange[];
+  /** True when the original was structured, so dropped bullets and skills are listed too. */
+  isStructuredSource: boolean;
+  /** Titles of the optimized CV's sections that are not compared, e.g. "Education" or "Projects". */
+  notCompared: string[];
+}
+
+// Pairs below this word-overlap score are treated as unrelated.
+const MIN_BULLET_SIMILARITY = 0.3;
+const MIN_SUMMARY_SIMILARITY = 0.2;
+
+const LIST_MARKER = /^\s*(?:#{1,6}\s+|[-*•●▪■◦‣–]\s*)/;
+
+const wordsOf = (text: string): Set<string> =>
+  new Set(normalizeForMatching(text).split(/[^\p{L}\p{N}+#]+/u).filter(word => word.length > 1));
+
+/** Dice coefficient of the two texts' word sets. */
+const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => b.has(word) && shared++);
+  return (2 * shared) / (a.size + b.size);
+};
+
+const isSameText = (a: string, b: string): boolean => normalizeForMatching(a) === normalizeForMatching(b);
+
+/**
+ * Pairs items of `targets` with items of `candidates`, most similar pairs first, each candidate
+ * used at most once. Returns the candidate index for each target index.
+ */
+function pairBySimilarity(targets: string[], candidates: string[], minScore: number, isAvailable = (_: number) => true): Map<number, number> {
+  const candidateWords = candidates.map(wordsOf);
+  const scored: { target: number; candidate: number; score: number }[] = [];
+  targets.forEach((target, t) => {
+    const words = wordsOf(target);
+    candidateWords.forEach((other, c) => {
+      if (!isAvailable(c)) return;
+      const score = isSameText(target, candidates[c]) ? 2 : similarity(words, other);
+      if (score >= minScore) scored.push({ target: t, candidate: c, score });
+    });
+  });
+  scored.sort((a, b) => b.score - a.score);
+
+  const pairs = new Map<number, number>();
+  const used = new Set<number>();
+  for (const { target, candidate } of scored) {
+    if (pairs.has(target) || used.has(candidate)) continue;
+    pairs.set(target, candidate);
+    used.add(candidate);
+  }
+  return pairs;
+}
+
+/** Gives each repeated id its occurrence number, so that identical items can be reverted one by one. */
+const uniqueIds = () => {
+  const seen = new Map<string, number>();
+  return (id: string): string => {
+    const count = (seen.get(id) || 0) + 1;
+    seen.set(id, count);
+    return count === 1 ? id : `${id}#${count}`;
+  };
+};
+
+const align = (id: string, original: string | null, optimized: string | null): AlignedItem => {
+  if (original !== null && optimized !== null && isSameText(original, optimized)) return { original, optimized, change: null };
+  const kind: CvChangeKind = original === null ? 'added' : optimized === null ? 'removed' : 'modified';
+  return { original, optimized, change: { id, kind, original: original ?? '', optimized: optimized ?? '' } };
+};
+
+/** Aligns optimized bullets with the original ones; dropped originals are placed after the bullet they used to follow. */
+function alignBullets(jobIndex: number, optimized: string[], original: string[], pairs: Map<number, number>, listRemoved: boolean): AlignedItem[] {
+  const unique = uniqueIds();
+  const id = (text: string) => unique(`bullet:${jobIndex}:${text}`);
+  const items: AlignedItem[] = optimized.map((bullet, i) => {
+    const match = pairs.get(i);
+    return align(id(bullet), match === undefined ? null : original[match], bullet);
+  });
+  if (!listRemoved) return items;
+
+  const optimizedIndexOf = new Map([...pairs].map(([o, c]) => [c, o]));
+  const removed: { after: number; text: string }[] = [];
+  let after = -1;
+  original.forEach((text, c) => {
+    if (optimizedIndexOf.has(c)) after = optimizedIndexOf.get(c)!;
+    else removed.push({ after, text });
+  });
+  // Insert from the back so that earlier insertion points stay valid.
+  removed.sort((a, b) => a.after - b.after);
+  for (let r = removed.length - 1; r >= 0; r--) {
+    items.splice(removed[r].after + 1, 0, align(id(removed[r].text), removed[r].text, null));
+  }
+  return items;
+}
+
+/** Finds the original role an optimized role was rewritten from: same employer and title, same employer, or same position. */
+const matchJob = (optimized: CvData['workExperience'][number], index: number, original: CvData['workExperience'], used: Set<number>): number => {
+  const free = (i: number) => !used.has(i);
+  const byBoth = original.findIndex((job, i) => free(i) && isSameText(job.company, optimized.company) && isSameText(job.jobTitle, optimized.jobTitle));
+  if (byBoth !== -1) return byBoth;
+  const byCompany = original.findIndex((job, i) => free(i) && isSameText(job.company, optimized.company));
+  if (byCompany !== -1) return byCompany;
+  return index < original.length && free(index) ? index : -1;
+};
+
+/** Lines of the original text without headings and list markers, for pairing with bullets. */
+const sourceLines = (text: string): string[] =>
+  text.split('\n').map(line => line.replace(LIST_MARKER, '').trim()).filter(line => line.split(/\s+/).length >= 3);
+
+/** Blank-line separated blocks of the original text without their headings, for pairing with the summary. */
+const sourceParagraphs = (text: string): string[] =>
+  text.split(/\n\s*\n/)
+    .map(block => block.split('\n').filter(line => !/^\s*#/.test(line)).map(line => line.replace(LIST_MARKER, '').trim()).join(' ').trim())
+    .filter(Boolean);
+
+/** Compares the original CV (structured, or extracted text) with the optimized CV. */
+export function compareCvs(original: string | CvData, optimized: CvData): CvComparison {
+  const isStructuredSource = typeof original !== 'string';
+  const optimizedJobs = optimized.workExperience || [];
+  let summary: AlignedItem;
+  let jobs: JobComparison[];
+  let skills: AlignedItem[];
+  const skillId = uniqueIds();
+
+  if (typeof original !== 'string') {
+    summary = align('summary', original.summary || null, optimized.summary || null);
+
+    const usedJobs = new Set<number>();
+    jobs = optimizedJobs.map((job, jobIndex) => {
+      const match = matchJob(job, jobIndex, original.workExperience || [], usedJobs);
+      if (match !== -1) usedJobs.add(match);
+      const originalBullets = match === -1 ? [] : original.workExperience[match].responsibilities || [];
+      const bullets = job.responsibilities || [];
+      const pairs = pairBySimilarity(bullets, originalBullets, MIN_BULLET_SIMILARITY);
+      return { jobIndex, jobTitle: job.jobTitle, company: job.company, bullets: alignBullets(jobIndex, bullets, originalBullets, pairs, true) };
+    });
+
+    const originalSkills = original.skills || [];
+    const optimizedSkills = optimized.skills || [];
+    skills = [
+      ...optimizedSkills.map(skill => align(skillId(`skill:${skill}`), originalSkills.some(s => isSameText(s, skill)) ? skill : null, skill)),
+      ...originalSkills
+        .filter(skill => !optimizedSkills.some(s => isSameText(s, skill)))
+        .map(skill => align(skillId(`skill:${skill}`), skill, null)),
+    ];
+  } else {
+    const paragraphs = sourceParagraphs(original);
+    const summaryMatch = optimized.summary ? pairBySimilarity([optimized.summary], paragraphs, MIN_SUMMARY_SIMILARITY).get(0) : undefined;
+    summary = align('summary', summaryMatch === undefined ? null : paragraphs[summaryMatch], optimized.summary || null);
+
+    // Every line of the original can be the source of at most one bullet in the whole CV.
+    const lines = sourceLines(original);
+    const usedLines = new Set<number>();
+    jobs = optimizedJobs.map((job, jobIndex) => {
+      const bullets = job.responsibilities || [];
+      const pairs = pairBySimilarity(bullets, lines, MIN_BULLET_SIMILARITY, c => !usedLines.has(c));
+      pairs.forEach(c => usedLines.add(c));
+      return { jobIndex, jobTitle: job.jobTitle, company: job.company, bullets: alignBullets(jobIndex, bullets, lines, pairs, false) };
+    });
+
+    const normalizedSource = normalizeForMatching(original);
+    skills = (optimized.skills || []).map(skill =>
+      align(skillId(`skill:${skill}`), containsTerm(normalizedSource, normalizeForMatching(skill)) ? skill : null, skill));
+  }
+
+  const changes = [summary, ...jobs.flatMap(job => job.bullets), ...skills]
+    .map(item => item.change)
+    .filter((change): change is CvChange => change !== null);
+  return { summary, jobs, skills, changes, isStructuredSource, notCompared: uncomparedSections(optimized) };
+}
+
+// Only the summary, bullets and ungrouped skills are aligned; these sections are left for the user to check.
+const uncomparedSections = (cv: CvData): string[] => [
+  cv.education?.length && SECTION_TITLES.education,
+  cv.skillGroups?.some(group => group.skills.length > 0) && 'Grouped skills',
+  cv.projects?.length && SECTION_TITLES.projects,
+  cv.certifications?.length && SECTION_TITLES.certifications,
+  cv.languages?.length && SECTION_TITLES.languages,
+  cv.publications?.length && SECTION_TITLES.publications,
+  cv.awards?.length && SECTION_TITLES.awards,
+  cv.volunteering?.length && SECTION_TITLES.volunteering,
+].filter((title): title is string => typeof title === 'string');
+
+/**
+ * Returns a copy of the optimized CV with the given changes reverted to the original: rewritten
+ * text goes back to the original wording, added items are removed and dropped items restored.
+ * `comparison` must have been computed for `cvData`.
+ */
+export function revertChanges(cvData: CvData, comparison: CvComparison, changeIds: Set<string>): CvData {
+  const resolve = (item: AlignedItem): string | null =>
+    item.change && changeIds.has(item.change.id) ? item.original : item.optimized;
+  const kept = (items: AlignedItem[]): string[] => items.map(resolve).filter((text): text is string => text !== null);
+
+  return {
+    ...cvData,
+    summary: resolve(comparison.summary) ?? '',
+    workExperience: (cvData.workExperience || []).map((job, jobIndex) => {
+      const aligned = comparison.jobs.find(j => j.jobIndex === jobIndex);
+      return aligned ? { ...job, responsibilities: kept(aligned.bullets) } : job;
+    }),
+    skills: kept(comparison.skills),
+  };
+}
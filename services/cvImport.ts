@@ -0,0 +1,230 @@
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import { cvSchema, CvData } from './geminiService';
+import { extractPdfText, PdfPageText } from './pdfText';
+import { fromJsonResume, isJsonResume } from './jsonResumeImport';
+import { importLinkedInZip } from './linkedInImport';
+import { validateAgainstSchema } from './schemaValidator';
+import { toPlainText } from './textExport';
+
+// Reads an uploaded CV file. Documents are converted to text for the optimizer; structured
+// sources (JSON Resume, a LinkedIn export or our own CvData JSON) are mapped straight to CvData.
+
+export type CvImportFormat = 'pdf' | 'docx' | 'odt' | 'rtf' | 'text' | 'markdown' | 'json' | 'linkedin-zip';
+
+export interface ImportedCv {
+  format: CvImportFormat;
+  /** The CV as text, used for the optimizer prompt, keyword matching and the fabrication guard. */
+  text: string;
+  /** Set when the file was structured and could be mapped without text extraction. */
+  cvData?: CvData;
+  /** 1-based numbers of PDF pages that are scanned images and need OCR. */
+  scannedPages: number[];
+  /** For PDFs, the reconstructed text and layout of each page. */
+  pages?: PdfPageText[];
+}
+
+export class CvImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CvImportError';
+  }
+}
+
+const FORMATS_BY_EXTENSION: Record<string, CvImportFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  odt: 'odt',
+  rtf: 'rtf',
+  txt: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  json: 'json',
+  zip: 'linkedin-zip',
+};
+
+const FORMATS_BY_MIME_TYPE: Record<string, CvImportFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.oasis.opendocument.text': 'odt',
+  'application/rtf': 'rtf',
+  'text/rtf': 'rtf',
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'application/json': 'json',
+  'application/zip': 'linkedin-zip',
+  'application/x-zip-compressed': 'linkedin-zip',
+};
+
+/** Value for the `accept` attribute of the CV file input. */
+export const ACCEPTED_CV_FILE_TYPES = [
+  ...Object.keys(FORMATS_BY_EXTENSION).map(ext => `.${ext}`),
+  ...Object.keys(FORMATS_BY_MIME_TYPE),
+].join(',');
+
+/** Works out the format of an uploaded file, by extension first since MIME types for text formats vary by OS. */
+export function detectCvImportFormat(file: File): CvImportFormat | null {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return FORMATS_BY_EXTENSION[extension] || FORMATS_BY_MIME_TYPE[file.type] || null;
+}
+
+const decodeXmlEntities = (text: string): string =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/** Extracts the text of an OpenDocument text file, one line per paragraph, heading or list item. */
+export async function extractOdtText(data: ArrayBuffer): Promise<string> {
+  const zip = await JSZip.loadAsync(data);
+  const content = await zip.file('content.xml')?.async('string');
+  if (!content) throw new CvImportError('This ODT file has no document content. It may be corrupted.');
+  const body = content.replace(/^[\s\S]*?<office:body>|<\/office:body>[\s\S]*$/g, '');
+  return decodeXmlEntities(
+    body
+      .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_, count) => ' '.repeat(Number(count) || 1))
+      .replace(/<text:tab\s*\/>/g, '\t')
+      .replace(/<text:line-break\s*\/>/g, '\n')
+      .replace(/<\/text:(?:p|h)>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  ).replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// RTF groups whose content is not document text (fonts, styles, metadata, images, ...).
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata', 'colorschememapping',
+  'datastore', 'latentstyles', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'footnote', 'fldinst',
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n', page: '\n', row: '\n', tab: '\t', cell: '\t',
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+};
+
+/** Extracts the text of an RTF document. Formatting is dropped; paragraphs become lines. */
+export function extractRtfText(rtf: string): string {
+  if (!rtf.trimStart().startsWith('{\\rtf')) throw new CvImportError('This file is not a valid RTF document.');
+  const ansi = new TextDecoder('windows-1252');
+  const stack: { skip: boolean; unicodeSkip: number }[] = [];
+  let skip = false;
+  let unicodeSkip = 1; // characters to drop after \uN, which RTF writers follow with an ANSI fallback
+  let pendingSkip = 0;
+  let out = '';
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+    } else if (!skip) {
+      out += text;
+    }
+  };
+
+  const token = /\\([a-z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|[\r\n]+|([^\\{}\r\n]+)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(rtf))) {
+    const [, word, param, hex, symbol, brace, text] = match;
+    if (brace === '{') {
+      stack.push({ skip, unicodeSkip });
+    } else if (brace === '}') {
+      ({ skip, unicodeSkip } = stack.pop() || { skip: false, unicodeSkip: 1 });
+    } else if (symbol) {
+      if (symbol === '*') skip = true;
+      else if (symbol === '\\' || symbol === '{' || symbol === '}') emit(symbol);
+      else if (symbol === '~') emit(' ');
+      else if (symbol === '_') emit('-');
+      else if (symbol === '\n' || symbol === '\r') emit('\n');
+    } else if (word) {
+      pendingSkip = 0;
+      if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+        skip = true;
+      } else if (word === 'uc') {
+        unicodeSkip = Number(param) || 0;
+      } else if (word === 'u') {
+        const code = Number(param);
+        emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+        pendingSkip = unicodeSkip;
+      } else if (RTF_SYMBOLS[word]) {
+        emit(RTF_SYMBOLS[word]);
+      }
+    } else if (hex) {
+      emit(ansi.decode(new Uint8Array([parseInt(hex, 16)])));
+    } else if (text) {
+      // Plain text also counts towards the fallback characters of a preceding \uN.
+      for (const char of text) emit(char);
+    }
+  }
+  return out.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+const readText = async (file: File): Promise<string> => (await file.text()).replace(/^\ufeff/, '');
+
+const structured = (format: CvImportFormat, cvData: CvData): ImportedCv => ({
+  format,
+  cvData,
+  text: toPlainText(cvData, undefined, { asciiSafe: false }),
+  scannedPages: [],
+});
+
+const parseJsonCv = (text: string): CvData => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new CvImportError('This JSON file could not be parsed. Please check that it is valid JSON.');
+  }
+  if (isJsonResume(json)) return fromJsonResume(json);
+  // A CV in our own format, e.g. saved from an earlier session.
+  if (json && typeof json === 'object' && 'fullName' in json) {
+    return validateAgainstSchema<CvData>(json, cvSchema).value;
+  }
+  throw new CvImportError('This JSON file is not a JSON Resume document (no "basics" or "work" section was found).');
+};
+
+/**
+ * Reads a CV file in any supported format. Throws a CvImportError with a user-facing message
+ * when the format is unsupported or the file contains no usable CV.
+ */
+export async function importCvFile(file: File): Promise<ImportedCv> {
+  const format = detectCvImportFormat(file);
+  let text: string;
+
+  switch (format) {
+    case 'pdf': {
+      const { text: pdfText, pages } = await extractPdfText(await file.arrayBuffer());
+      const scannedPages = pages.flatMap((page, i) => (page.needsOcr ? [i + 1] : []));
+      return { format, text: pdfText, scannedPages, pages };
+    }
+    case 'docx':
+      text = (await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() })).value;
+      break;
+    case 'odt':
+      text = await extractOdtText(await file.arrayBuffer());
+      break;
+    case 'rtf':
+      text = extractRtfText(await readText(file));
+      break;
+    case 'text':
+    case 'markdown':
+      text = await readText(file);
+      break;
+    case 'json':
+      return structured(format, parseJsonCv(await readText(file)));
+    case 'linkedin-zip': {
+      const cvData = await importLinkedInZip(await file.arrayBuffer());
+      if (!cvData) {
+        throw new CvImportError('This ZIP file is not a LinkedIn data export (Profile.csv and Positions.csv were not found).');
+      }
+      return structured(format, cvData);
+    }
+    default:
+      throw new CvImportError('Unsupported file type. Use PDF, DOCX, ODT, RTF, TXT, Markdown, JSON Resume or a LinkedIn data export ZIP.');
+  }
+
+  if (text.trim() === '') throw new CvImportError('No text was found in this file.');
+  return { format, text, scannedPages: [] };
+}
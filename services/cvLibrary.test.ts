@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { guessCompanyAndRole } from './cvLibrary';
+
+describe('guessCompanyAndRole', () => {
+  it('prefers a labelled company line', () => {
+    expect(guessCompanyAndRole('Backend Developer\nCompany: Initech Ltd\nYou will work at Globex partners.'))
+      .toEqual({ company: 'Initech Ltd', role: 'Backend Developer' });
+  });
+
+  it('stops the company name at the end of the sentence', () => {
+    expect(guessCompanyAndRole('Backend Developer\nCome work at Initech. We need Go skills.').company).toBe('Initech');
+  });
+
+  it('keeps dots inside a company name', () => {
+    expect(guessCompanyAndRole('Data Analyst at Booking.com\nAmsterdam').company).toBe('Booking.com');
+  });
+
+  it('prefers a match near the top of the posting', () => {
+    const text = 'Senior Engineer\nJoin Acme Robotics as our next engineer.\n\nYou will present at Kubecon every year.';
+    expect(guessCompanyAndRole(text).company).toBe('Acme Robotics');
+  });
+
+  it('ignores "looking at"', () => {
+    expect(guessCompanyAndRole('Recruiter\nWe are looking at Python developers for a client.').company).toBe('');
+  });
+
+  it('takes the company off the end of the first line', () => {
+    expect(guessCompanyAndRole('Backend Developer at Globex\nWe build payment systems.'))
+      .toEqual({ company: 'Globex', role: 'Backend Developer' });
+    expect(guessCompanyAndRole('Data Engineer - Initech\nRemote, full time.\nWe build data pipelines.\nYou will present at Kubecon.'))
+      .toEqual({ company: 'Initech', role: 'Data Engineer' });
+  });
+});
@@ -0,0 +1,230 @@
+import type { CvData } from './geminiService';
+import type { CvTemplateId } from './templates';
+
+// Local persistence for the CV library and application history, in the browser's IndexedDB.
+// Nothing stored here leaves the device. Three stores:
+// - masterCvs: the CVs the user has uploaded (extracted text, plus the structured CV for
+//   JSON Resume / LinkedIn imports), de-duplicated by content;
+// - jobDescriptions: every job description a CV was optimized for;
+// - applications: one record per optimized CV, linking the master CV and job description it was
+//   made from, with the company, role and application status. Edits to the CV are saved into it.
+
+export type ApplicationStatus = 'drafted' | 'applied' | 'interview' | 'offer' | 'rejected';
+
+export const APPLICATION_STATUSES: Record<ApplicationStatus, string> = {
+  drafted: 'Drafted',
+  applied: 'Applied',
+  interview: 'Interview',
+  offer: 'Offer',
+  rejected: 'Rejected',
+};
+
+export interface MasterCvRecord {
+  id: string;
+  /** File name of the upload. */
+  name: string;
+  /** Size of the uploaded file in bytes. */
+  size: number;
+  text: string;
+  /** The structured CV, for imports that did not need text extraction. */
+  cvData: CvData | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface JobDescriptionRecord {
+  id: string;
+  text: string;
+  company: string;
+  role: string;
+  createdAt: number;
+}
+
+export interface ApplicationRecord {
+  id: string;
+  masterCvId: string | null;
+  jobDescriptionId: string;
+  company: string;
+  role: string;
+  status: ApplicationStatus;
+  cvData: CvData;
+  templateId: CvTemplateId;
+  createdAt: number;
+  updatedAt: number;
+}
+
+type StoreName = 'masterCvs' | 'jobDescriptions' | 'applications';
+
+const DB_NAME = 'ats-cv-optimizer';
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Local storage is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('masterCvs', { keyPath: 'id' });
+        db.createObjectStore('jobDescriptions', { keyPath: 'id' });
+        db.createObjectStore('applications', { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Close other tabs of this app to upgrade its local storage.'));
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+async function withStore<T>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+}
+
+const getAll = <T,>(name: StoreName) => withStore<T[]>(name, 'readonly', store => store.getAll());
+const getOne = async <T,>(name: StoreName, id: string): Promise<T | null> =>
+  (await withStore<T | undefined>(name, 'readonly', store => store.get(id))) ?? null;
+const put = <T,>(name: StoreName, record: T) => withStore(name, 'readwrite', store => store.put(record)).then(() => record);
+const remove = (name: StoreName, id: string) => withStore(name, 'readwrite', store => store.delete(id)).then(() => undefined);
+
+const newestFirst = <T extends { createdAt: number },>(records: T[]): T[] => records.sort((a, b) => b.createdAt - a.createdAt);
+
+// --- Master CVs ---
+
+export async function listMasterCvs(): Promise<MasterCvRecord[]> {
+  return newestFirst(await getAll<MasterCvRecord>('masterCvs'));
+}
+
+export const getMasterCv = (id: string) => getOne<MasterCvRecord>('masterCvs', id);
+
+/** Saves an uploaded CV. Uploading the same content again updates the existing record. */
+export async function saveMasterCv(cv: { name: string; size: number; text: string; cvData: CvData | null }): Promise<MasterCvRecord> {
+  const now = Date.now();
+  const existing = (await getAll<MasterCvRecord>('masterCvs')).find(record => record.text === cv.text);
+  return put<MasterCvRecord>('masterCvs', existing
+    ? { ...existing, ...cv, updatedAt: now }
+    : { id: crypto.randomUUID(), ...cv, createdAt: now, updatedAt: now });
+}
+
+export const deleteMasterCv = (id: string) => remove('masterCvs', id);
+
+// --- Job descriptions ---
+
+export const getJobDescription = (id: string) => getOne<JobDescriptionRecord>('jobDescriptions', id);
+
+const firstMatch = (text: string, patterns: RegExp[]): string => {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match[1].trim().replace(/[.,;:]$/, '');
+  }
+  return '';
+};
+
+// "at Acme", "join Acme Labs": up to four capitalised words, which may contain inner dots
+// ("Booking.com") but end at a sentence boundary. "looking at ..." is not a company.
+const COMPANY_AFTER_AT =
+  /(?<!\blook(?:s|ed|ing)?[ \t]+)\b(?:at|[Jj]oin)[ \t]+(\p{Lu}(?:[\p{L}\p{N}&'-]|\.(?=[\p{L}\p{N}]))*(?:[ \t]+\p{Lu}(?:[\p{L}\p{N}&'-]|\.(?=[\p{L}\p{N}]))*){0,3})/u;
+
+// A first line such as "Backend Developer at Globex" or "Backend Developer - Globex".
+const TITLE_AND_COMPANY = /^(.+?)\s+(?:at|@|[-–—|])\s+(.+)$/;
+
+/**
+ * Best-effort guess of the company and role from a job description: labelled lines such as
+ * "Company: Acme" first, then "... at Acme" (preferring the first lines of the posting) and the
+ * first line as the title, without a company named after it. Both can be edited later.
+ */
+export function guessCompanyAndRole(text: string): { company: string; role: string } {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const firstLine = lines[0] && lines[0].length <= 80 ? lines[0] : '';
+  const [, titleOnFirstLine = firstLine, companyOnFirstLine = ''] = firstLine.match(TITLE_AND_COMPANY) || [];
+  const role = firstMatch(text, [/^\s*(?:job title|position|role)\s*[:\-–]\s*(.+)$/im]) || titleOnFirstLine;
+  const company = firstMatch(text, [/^\s*(?:company|employer|organi[sz]ation)\s*[:\-–]\s*(.+)$/im])
+    || firstMatch(lines.slice(0, 3).join('\n'), [COMPANY_AFTER_AT])
+    || companyOnFirstLine.replace(/[.,;:]$/, '')
+    || firstMatch(text, [COMPANY_AFTER_AT]);
+  return { company: company.slice(0, 80), role: role.slice(0, 80) };
+}
+
+/**
+ * Saves a job description, reusing the record if the exact same text was saved before.
+ * The company and role are guessed from the text unless given.
+ */
+export async function saveJobDescription(
+  text: string,
+  details: { company: string; role: string } = guessCompanyAndRole(text),
+): Promise<JobDescriptionRecord> {
+  const existing = (await getAll<JobDescriptionRecord>('jobDescriptions')).find(record => record.text === text);
+  if (existing) return existing;
+  return put<JobDescriptionRecord>('jobDescriptions', { id: crypto.randomUUID(), text, ...details, createdAt: Date.now() });
+}
+
+// --- Applications ---
+
+export async function listApplications(): Promise<ApplicationRecord[]> {
+  return newestFirst(await getAll<ApplicationRecord>('applications'));
+}
+
+export const getApplication = (id: string) => getOne<ApplicationRecord>('applications', id);
+
+/** Records a newly optimized CV as a drafted application for the given job description. */
+export async function createApplication(
+  jobDescription: JobDescriptionRecord,
+  masterCvId: string | null,
+  cvData: CvData,
+  templateId: CvTemplateId,
+): Promise<ApplicationRecord> {
+  const now = Date.now();
+  return put<ApplicationRecord>('applications', {
+    id: crypto.randomUUID(),
+    masterCvId,
+    jobDescriptionId: jobDescription.id,
+    company: jobDescription.company,
+    role: jobDescription.role,
+    status: 'drafted',
+    cvData,
+    templateId,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export async function updateApplication(
+  id: string,
+  changes: Partial<Pick<ApplicationRecord, 'company' | 'role' | 'status' | 'cvData' | 'templateId'>>,
+): Promise<ApplicationRecord> {
+  const existing = await getApplication(id);
+  if (!existing) throw new Error('This application no longer exists.');
+  return put<ApplicationRecord>('applications', { ...existing, ...changes, updatedAt: Date.now() });
+}
+
+/** Copies an application, e.g. to tailor the same CV further for a similar role. The copy starts as a draft. */
+export async function duplicateApplication(id: string): Promise<ApplicationRecord> {
+  const existing = await getApplication(id);
+  if (!existing) throw new Error('This application no longer exists.');
+  const now = Date.now();
+  return put<ApplicationRecord>('applications', {
+    ...existing,
+    id: crypto.randomUUID(),
+    role: existing.role ? `${existing.role} (copy)` : 'Copy',
+    status: 'drafted',
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export const deleteApplication = (id: string) => remove('applications', id);
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { CvData } from './geminiService';
+import { applyLintFix, lintCv } from './cvLinter';
+import { getTemplate } from './templates';
+
+const cv = (responsibilities: string[], overrides: Partial<CvData> = {}): CvData => ({
+  fullName: 'Jane Doe',
+  contactInfo: { email: 'jane@example.com', phone: '+1 555 010 0100', linkedin: 'https://www.linkedin.com/in/janedoe', location: '' },
+  summary: '',
+  workExperience: [{ jobTitle: 'Engineer', company: 'Acme', location: '', dates: '2018 - 2020', responsibilities }],
+  education: [],
+  skills: [],
+  ...overrides,
+});
+
+const lint = (cvData: CvData) => lintCv(cvData, getTemplate('classic'), 'letter');
+const rulesOf = (cvData: CvData) => lint(cvData).findings.map(finding => finding.rule);
+
+describe('lintCv', () => {
+  it('has no findings for a well-written bullet', () => {
+    expect(lint(cv(['Reduced build times by 40% across 12 services.'])).findings).toEqual([]);
+  });
+
+  it('flags weak openers, first person and missing numbers', () => {
+    expect(rulesOf(cv(['Responsible for the billing system.']))).toEqual(['action-verb', 'quantification']);
+    const [firstPerson] = lint(cv(['I led a team of five.'])).findings;
+    expect(firstPerson).toMatchObject({ rule: 'first-person', fix: { value: 'Led a team of five.' } });
+  });
+
+  it('suggests the tense that matches the dates', () => {
+    const [ended] = lint(cv(['Manages 3 engineers.'])).findings;
+    expect(ended).toMatchObject({ rule: 'tense', severity: 'warning', fix: { value: 'Managed 3 engineers.' } });
+    const current = cv(['Managed 3 engineers.']);
+    current.workExperience[0].dates = 'May 2020 - Present';
+    expect(lint(current).findings[0]).toMatchObject({ rule: 'tense', fix: { value: 'Manage 3 engineers.' } });
+  });
+
+  it('flags verbs repeated more than twice and overly long bullets', () => {
+    expect(rulesOf(cv(['Built 2 APIs.', 'Built 3 apps.', 'Built 4 tools.']))).toEqual(['repeated-verb']);
+    const long = `Built ${Array.from({ length: 30 }, (_, i) => `item${i}`).join(' ')} in 2020.`;
+    expect(rulesOf(cv([long]))).toEqual(['length']);
+  });
+
+  it('checks the contact details and offers fixes', () => {
+    const report = lint(cv(['Built 2 APIs.'], {
+      contactInfo: { email: 'mailto:jane@example.com', phone: 'call me', linkedin: 'linkedin.com/in/janedoe', location: '' },
+    }));
+    expect(report.findings.map(f => [f.key, f.severity])).toEqual([
+      ['contactInfo.email', 'error'],
+      ['contactInfo.phone', 'error'],
+      ['contactInfo.linkedin', 'warning'],
+    ]);
+    const fixed = applyLintFix(applyLintFix(cv([]), report.findings[0]), report.findings[2]);
+    expect(fixed.contactInfo).toMatchObject({ email: 'jane@example.com', linkedin: 'https://www.linkedin.com/in/janedoe' });
+  });
+
+  it('skips the English wording rules for CVs in other languages', () => {
+    expect(rulesOf(cv(['Verantwortlich für das Abrechnungssystem.'], { locale: 'de-DE' }))).toEqual([]);
+  });
+});
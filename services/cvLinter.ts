@@ -0,0 +1,291 @@
+import type { CvData } from './geminiService';
+import { parseDateRange } from './dateRange';
+import { getLocale } from './locales';
+import { pageMetrics, PageSize } from './pdfExport';
+import type { CvTemplateDefinition } from './templates';
+import { toPlainText } from './textExport';
+
+// Rule-based checks of the writing and contact details of a CV, run locally on every change.
+// Findings use the same field keys as the fabrication guard (e.g. `workExperience.0.responsibilities.2`)
+// so the preview can mark them in place, and carry a replacement value where a fix is mechanical.
+// The wording rules rely on English word lists and are skipped for CVs written in other languages.
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule =
+  | 'action-verb'
+  | 'quantification'
+  | 'first-person'
+  | 'tense'
+  | 'length'
+  | 'repeated-verb'
+  | 'buzzword'
+  | 'email'
+  | 'phone'
+  | 'linkedin'
+  | 'page-overflow';
+
+export interface LintFix {
+  label: string;
+  /** Replacement for the whole field at the finding's key. */
+  value: string;
+}
+
+export interface LintFinding {
+  /** Key of the field, e.g. `workExperience.0.responsibilities.2`, `summary` or `contactInfo.email`; `document` for the CV as a whole. */
+  key: string;
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  fix?: LintFix;
+}
+
+export interface LintReport {
+  findings: LintFinding[];
+  /** Findings indexed by key for quick lookup while rendering. */
+  byKey: Map<string, LintFinding[]>;
+  /** Estimated number of pages of the exported PDF. */
+  pageCount: number;
+}
+
+export const SEVERITY_ORDER: LintSeverity[] = ['error', 'warning', 'info'];
+
+// Common resume verbs with their simple past. Words that are also nouns or adjectives in their
+// base form (e.g. "present", "found") are left out, so their tense is never "corrected".
+const VERB_PAST: Record<string, string> = {
+  accelerate: 'accelerated', achieve: 'achieved', analyze: 'analyzed', architect: 'architected', author: 'authored',
+  automate: 'automated', boost: 'boosted', build: 'built', coach: 'coached', collaborate: 'collaborated',
+  conduct: 'conducted', consolidate: 'consolidated', coordinate: 'coordinated', create: 'created', define: 'defined',
+  deliver: 'delivered', deploy: 'deployed', design: 'designed', develop: 'developed', direct: 'directed',
+  drive: 'drove', enable: 'enabled', engineer: 'engineered', establish: 'established', evaluate: 'evaluated',
+  execute: 'executed', expand: 'expanded', facilitate: 'facilitated', generate: 'generated', grow: 'grew',
+  guide: 'guided', handle: 'handled', identify: 'identified', implement: 'implemented', improve: 'improved',
+  increase: 'increased', integrate: 'integrated', introduce: 'introduced', launch: 'launched', lead: 'led',
+  maintain: 'maintained', manage: 'managed', mentor: 'mentored', migrate: 'migrated', modernize: 'modernized',
+  monitor: 'monitored', negotiate: 'negotiated', optimize: 'optimized', organize: 'organized', oversee: 'oversaw',
+  own: 'owned', partner: 'partnered', plan: 'planned', prepare: 'prepared', produce: 'produced',
+  prototype: 'prototyped', publish: 'published', rebuild: 'rebuilt', recruit: 'recruited', redesign: 'redesigned',
+  reduce: 'reduced', refactor: 'refactored', release: 'released', research: 'researched', resolve: 'resolved',
+  review: 'reviewed', run: 'ran', save: 'saved', scale: 'scaled', secure: 'secured', sell: 'sold',
+  serve: 'served', ship: 'shipped', simplify: 'simplified', solve: 'solved', spearhead: 'spearheaded',
+  standardize: 'standardized', streamline: 'streamlined', supervise: 'supervised', support: 'supported',
+  teach: 'taught', test: 'tested', train: 'trained', transform: 'transformed', translate: 'translated',
+  upgrade: 'upgraded', win: 'won', write: 'wrote',
+};
+
+const thirdPerson = (verb: string): string =>
+  /(s|sh|ch|x|z)$/.test(verb) ? `${verb}es` : /[^aeiou]y$/.test(verb) ? `${verb.slice(0, -1)}ies` : `${verb}s`;
+
+// Every known form mapped to its base form.
+const BASE_OF = new Map<string, string>(Object.entries(VERB_PAST).flatMap(([base, past]) => [
+  [base, base], [thirdPerson(base), base], [past, base],
+]));
+const PAST_FORMS = new Set(Object.values(VERB_PAST));
+const PRESENT_FORMS = new Set(Object.keys(VERB_PAST).flatMap(base => [base, thirdPerson(base)]));
+
+const WEAK_OPENERS = /^(responsible for|worked on|helped|assisted|duties included|involved in|participated in|tasked with|in charge of)\b/i;
+
+const FIRST_PERSON = new Set(['i', "i'm", "i've", "i'd", 'me', 'my', 'mine', 'we', 'our', 'ours', 'us']);
+
+const BUZZWORDS = [
+  'synergy', 'synergies', 'go-getter', 'team player', 'results-driven', 'results-oriented', 'detail-oriented',
+  'hard-working', 'hardworking', 'think outside the box', 'self-starter', 'dynamic', 'passionate', 'motivated',
+  'best-of-breed', 'best in class', 'rockstar', 'ninja', 'guru', 'value-add', 'proactive', 'go-to person',
+];
+
+const NUMBER_WORDS = /\b(one|two|three|four|five|six|seven|eight|nine|ten|twelve|dozens?|hundreds?|thousands?|millions?|billions?|double[ds]?|tripled?|half|percent)\b/i;
+
+const MAX_BULLET_WORDS = 30;
+const MAX_VERB_REPEATS = 2;
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const firstWordOf = (text: string): string => (text.trim().split(/\s+/)[0] || '').replace(/[^\w'-]/g, '');
+
+const wordsOf = (text: string): string[] => text.split(/[\s,;:()"]+/).map(w => w.replace(/[.!?]+$/, '')).filter(Boolean);
+
+/** Replaces the first word of a bullet, keeping the rest as written. */
+const replaceFirstWord = (text: string, word: string): string => text.trim().replace(/^\S+/, capitalize(word));
+
+interface Bullet {
+  key: string;
+  text: string;
+  isCurrent: boolean;
+}
+
+const bulletsOf = (cvData: CvData): Bullet[] => [
+  ...(cvData.workExperience || []).flatMap((job, j) => job.responsibilities.map((text, i) => ({
+    key: `workExperience.${j}.responsibilities.${i}`, text, isCurrent: parseDateRange(job.dates).isCurrent,
+  }))),
+  ...(cvData.volunteering || []).flatMap((work, j) => work.responsibilities.map((text, i) => ({
+    key: `volunteering.${j}.responsibilities.${i}`, text, isCurrent: parseDateRange(work.dates).isCurrent,
+  }))),
+].filter(bullet => bullet.text.trim() !== '');
+
+const lintWording = (bullet: Bullet): LintFinding[] => {
+  const findings: LintFinding[] = [];
+  const add = (rule: LintRule, severity: LintSeverity, message: string, fix?: LintFix) =>
+    findings.push({ key: bullet.key, rule, severity, message, fix });
+  const words = wordsOf(bullet.text);
+  const first = firstWordOf(bullet.text).toLowerCase();
+
+  // "US" is the country.
+  const pronouns = [...new Set(words.filter(w => w !== 'US' && FIRST_PERSON.has(w.toLowerCase())))];
+  // "I led ..." becomes "Led ..."; pronouns elsewhere in the sentence need rewording by hand.
+  const afterPronoun = firstWordOf(bullet.text.trim().replace(/^\S+\s*/, '')).toLowerCase();
+  if (pronouns.length > 0) {
+    const canDrop = ['i', 'we'].includes(first) && BASE_OF.has(afterPronoun);
+    add('first-person', 'warning', `Uses first person ("${pronouns.join('", "')}"); CV bullets leave out the subject.`,
+      canDrop ? { label: `Remove "${words[0]}"`, value: capitalize(bullet.text.trim().replace(/^\S+\s+/, '')) } : undefined);
+  }
+
+  const opener = bullet.text.trim().match(WEAK_OPENERS);
+  if (opener) {
+    add('action-verb', 'warning', `Starts with "${opener[1]}", which describes duties rather than results. Lead with what you did.`);
+  } else if (!FIRST_PERSON.has(first) && !BASE_OF.has(first) && !/^[a-z]{3,}(ed|ing)$/.test(first)) {
+    add('action-verb', 'info', 'Does not start with an action verb such as "Led", "Built" or "Reduced".');
+  }
+
+  const base = BASE_OF.get(first);
+  if (base && bullet.isCurrent && PAST_FORMS.has(first)) {
+    add('tense', 'info', `"${capitalize(first)}" is past tense, but this role is current. Use the present tense.`,
+      { label: `Use "${capitalize(base)}"`, value: replaceFirstWord(bullet.text, base) });
+  } else if (base && !bullet.isCurrent && PRESENT_FORMS.has(first)) {
+    add('tense', 'warning', `"${capitalize(first)}" is present tense, but this role has ended. Use the past tense.`,
+      { label: `Use "${capitalize(VERB_PAST[base])}"`, value: replaceFirstWord(bullet.text, VERB_PAST[base]) });
+  }
+
+  if (!/\d/.test(bullet.text) && !NUMBER_WORDS.test(bullet.text)) {
+    add('quantification', 'info', 'No numbers. Add the scale or the result (users, revenue, time saved, team size) where you can.');
+  }
+  return findings;
+};
+
+const lintBuzzwords = (entries: { key: string; text: string }[]): LintFinding[] => {
+  const found = entries.flatMap(({ key, text }) => {
+    const lower = text.toLowerCase();
+    const hits = BUZZWORDS.filter(word => new RegExp(`(^|[^a-z-])${word}([^a-z-]|$)`).test(lower));
+    return hits.length > 0 ? [{ key, hits }] : [];
+  });
+  // A single buzzword is a suggestion; several across the CV start to read as filler.
+  const total = found.reduce((sum, { hits }) => sum + hits.length, 0);
+  return found.map(({ key, hits }) => ({
+    key,
+    rule: 'buzzword' as const,
+    severity: total >= 3 ? 'warning' as const : 'info' as const,
+    message: `Buzzword${hits.length > 1 ? 's' : ''} "${hits.join('", "')}"${total >= 3 ? ` (${total} in the CV)` : ''}. Show ${hits.length > 1 ? 'them' : 'it'} with a concrete example instead.`,
+  }));
+};
+
+const lintRepeatedVerbs = (bullets: Bullet[]): LintFinding[] => {
+  const seen = new Map<string, number>();
+  return bullets.flatMap(bullet => {
+    const first = firstWordOf(bullet.text).toLowerCase();
+    const base = BASE_OF.get(first);
+    if (!base) return [];
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    if (count <= MAX_VERB_REPEATS) return [];
+    return [{
+      key: bullet.key,
+      rule: 'repeated-verb' as const,
+      severity: 'info' as const,
+      message: `"${capitalize(first)}" already starts ${count - 1} other bullets. Vary your verbs.`,
+    }];
+  });
+};
+
+const LINKEDIN_URL = /^https?:\/\/([a-z]{2,3}\.)?linkedin\.com\/(in|pub)\/[^\s/?#]+\/?$/i;
+
+const lintContact = (cvData: CvData): LintFinding[] => {
+  const findings: LintFinding[] = [];
+  const { email = '', phone = '', linkedin = '' } = cvData.contactInfo || {};
+
+  const isEmail = (value: string) => /^[\p{L}\p{N}_.!#$%&'*+/=?^`{|}~-]+@[\p{L}\p{N}-]+(\.[\p{L}\p{N}-]+)*\.\p{L}{2,}$/u.test(value);
+  if (!email.trim()) {
+    findings.push({ key: 'contactInfo.email', rule: 'email', severity: 'warning', message: 'No email address. Recruiters need a way to reach you.' });
+  } else if (!isEmail(email)) {
+    const cleaned = email.replace(/^mailto:/i, '').replace(/\s+/g, '');
+    findings.push({
+      key: 'contactInfo.email', rule: 'email', severity: 'error', message: `"${email}" is not a valid email address.`,
+      fix: isEmail(cleaned) ? { label: `Use "${cleaned}"`, value: cleaned } : undefined,
+    });
+  }
+
+  const digits = phone.replace(/\D/g, '');
+  if (phone.trim() && (/[^\d\s()+\-./]/.test(phone) || digits.length < 7 || digits.length > 15)) {
+    findings.push({ key: 'contactInfo.phone', rule: 'phone', severity: 'error', message: `"${phone}" does not look like a phone number (7 to 15 digits).` });
+  }
+
+  if (linkedin.trim() && !LINKEDIN_URL.test(linkedin.trim())) {
+    const profile = linkedin.trim().match(/^(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/(in|pub)\/([^\s/?#]+)/i);
+    findings.push(profile
+      ? {
+        key: 'contactInfo.linkedin', rule: 'linkedin', severity: 'warning', message: 'The LinkedIn URL is incomplete, so it may not be clickable.',
+        fix: { label: 'Use the full URL', value: `https://www.linkedin.com/${profile[1]}/${profile[2]}` },
+      }
+      : { key: 'contactInfo.linkedin', rule: 'linkedin', severity: 'error', message: `"${linkedin}" is not a LinkedIn profile URL (linkedin.com/in/...).` });
+  }
+  return findings;
+};
+
+/**
+ * Estimates how many pages the exported PDF will have from the plain-text layout of the CV,
+ * assuming an average character width of half the font size.
+ */
+export function estimatePageCount(cvData: CvData, template: CvTemplateDefinition, pageSize: PageSize): number {
+  const { contentWidth, contentHeight, bodySize, lineHeight } = pageMetrics({ template, pageSize });
+  const charsPerLine = contentWidth / (bodySize * 0.5);
+  const height = toPlainText(cvData, template, { asciiSafe: false }).split('\n').reduce(
+    // Blank lines stand for the gap before a section heading.
+    (sum, line) => sum + (line.trim() ? Math.ceil(line.length / charsPerLine) * lineHeight : lineHeight * 0.8),
+    // Room for the larger name line.
+    lineHeight,
+  );
+  return Math.max(1, Math.ceil(height / contentHeight));
+}
+
+/** Checks the CV's bullets, contact details and length. */
+export function lintCv(cvData: CvData, template: CvTemplateDefinition, pageSize: PageSize): LintReport {
+  const isEnglish = getLocale(cvData.locale).language === 'en';
+  const bullets = bulletsOf(cvData);
+  const pageCount = estimatePageCount(cvData, template, pageSize);
+
+  const findings: LintFinding[] = [
+    ...lintContact(cvData),
+    ...(isEnglish ? bullets.flatMap(lintWording) : []),
+    ...(isEnglish ? lintRepeatedVerbs(bullets) : []),
+    ...(isEnglish ? lintBuzzwords([{ key: 'summary', text: cvData.summary || '' }, ...bullets]) : []),
+    ...bullets.flatMap((bullet): LintFinding[] => {
+      const count = wordsOf(bullet.text).length;
+      return count > MAX_BULLET_WORDS
+        ? [{ key: bullet.key, rule: 'length', severity: 'warning', message: `${count} words. Keep bullets under ${MAX_BULLET_WORDS} words so they fit on one or two lines.` }]
+        : [];
+    }),
+  ];
+
+  if (template.density === 'compact' && pageCount > 1) {
+    findings.push({ key: 'document', rule: 'page-overflow', severity: 'warning', message: `About ${pageCount} pages, but the ${template.name} template is meant to fit on one. Shorten or remove older entries.` });
+  } else if (pageCount > 2) {
+    findings.push({ key: 'document', rule: 'page-overflow', severity: 'warning', message: `About ${pageCount} pages. Most recruiters expect one or two.` });
+  }
+
+  findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+  const byKey = new Map<string, LintFinding[]>();
+  findings.forEach(finding => byKey.set(finding.key, [...(byKey.get(finding.key) || []), finding]));
+  return { findings, byKey, pageCount };
+}
+
+const setAtPath = (value: unknown, path: string[], next: string): unknown => {
+  if (path.length === 0) return next;
+  const [head, ...rest] = path;
+  if (Array.isArray(value)) return value.map((item, i) => (i === Number(head) ? setAtPath(item, rest, next) : item));
+  const record = (value || {}) as Record<string, unknown>;
+  return { ...record, [head]: setAtPath(record[head], rest, next) };
+};
+
+/** Returns a copy of the CV with the finding's fix applied. */
+export function applyLintFix(cvData: CvData, finding: LintFinding): CvData {
+  if (!finding.fix) return cvData;
+  return setAtPath(cvData, finding.key.split('.'), finding.fix.value) as CvData;
+}
@@ -0,0 +1,116 @@
+import type { CvData } from './geminiService';
+import { CvImportError, CvImportFormat, detectCvImportFormat, importCvFile } from './cvImport';
+import { mergePageTexts, ocrPdfPages, PdfOcrOptions, PdfOcrResult } from './pdfOcr';
+import type { PdfPageText } from './pdfText';
+import { buildCvDocx } from './docxExport';
+import { buildCvPdf, PdfExportOptions } from './pdfExport';
+import { exportCvAsText, TEXT_EXPORT_FORMATS, TextExportFormat } from './textExport';
+import { compareCvMatch, MatchComparison } from './keywordMatcher';
+import { verifyCvAgainstSource, VerificationReport } from './fabricationGuard';
+import { lintCv, LintReport } from './cvLinter';
+
+// The CV workflow without any UI: reading a CV file (with OCR for scanned PDF pages), checking a
+// tailored CV against its source and job description, and rendering it in every export format.
+// Shared by the app and the command-line tool, so it must not touch React or the DOM.
+
+export interface CvReadResult {
+  format: CvImportFormat;
+  /** The CV as text, with recognized text in place of scanned pages. */
+  text: string;
+  /** Set when the file was structured and could be mapped without text extraction. */
+  cvData: CvData | null;
+  /** For PDFs, the reconstructed text and layout of each page. */
+  pages: PdfPageText[] | null;
+  /** Set when scanned pages were sent to OCR. */
+  ocr: PdfOcrResult | null;
+  /** Scanned pages left unread because OCR was turned off. */
+  unreadPages: number[];
+}
+
+export interface CvReadOptions {
+  /** How to recognize scanned PDF pages; without it they are left unread. */
+  ocr?: PdfOcrOptions;
+  /** Called once the file's own text is read and OCR of its scanned pages begins. */
+  onOcrStart?: (scannedPages: number[]) => void;
+}
+
+/**
+ * Reads a CV file in any supported format and runs OCR on scanned PDF pages.
+ * Throws a CvImportError when the file has no usable text; `describeCvReadError` turns
+ * this and any other failure into a user-facing message.
+ */
+export async function readCvFile(file: File, options: CvReadOptions = {}): Promise<CvReadResult> {
+  const { format, text, cvData, pages, scannedPages } = await importCvFile(file);
+  const result: CvReadResult = { format, text, cvData: cvData || null, pages: pages || null, ocr: null, unreadPages: [] };
+  if (!pages || scannedPages.length === 0) return result;
+
+  if (!options.ocr) {
+    if (text.trim() === '') throw new CvImportError('This PDF only contains scanned pages, which cannot be read without OCR.');
+    return { ...result, unreadPages: scannedPages };
+  }
+
+  // Only pages without a text layer are scanned; the rest keep their native text.
+  options.onOcrStart?.(scannedPages);
+  const ocr = await ocrPdfPages(await file.arrayBuffer(), scannedPages, options.ocr);
+  const mergedText = mergePageTexts(pages, ocr.pages);
+  if (mergedText.trim().length === 0) throw new CvImportError('No text could be read from this document.');
+  return { ...result, text: mergedText, ocr };
+}
+
+/** A user-facing message for an error thrown while reading a CV file. */
+export function describeCvReadError(error: unknown, file: File): string {
+  if (!(error instanceof Error)) return 'An unexpected error occurred while processing the file.';
+  if (error.name === 'AbortError') return 'Scanning was cancelled.';
+  if (error.name === 'LlmConfigurationError' || error.name === 'CvImportError') return error.message;
+  if (error.message.includes("Failed to extract text")) {
+    return 'AI-powered text extraction failed. The document might be unreadable or a network issue occurred.';
+  }
+  if (error.name === 'PasswordException') return 'This PDF is password-protected. Please upload an unprotected file.';
+  if (error.name === 'InvalidPDFException' || error.name === 'MissingPDFException') {
+    return 'The uploaded PDF file appears to be invalid or corrupted.';
+  }
+  if (detectCvImportFormat(file) === 'docx') return 'Could not read the DOCX file. It may be corrupted or in an old format.';
+  return 'Failed to read the contents of this file.';
+}
+
+export interface CvReview {
+  /** Keyword match of the original and the tailored CV against the job description. */
+  match: MatchComparison;
+  /** Claims in the tailored CV that the source CV does not support. */
+  verification: VerificationReport;
+  lint: LintReport;
+}
+
+/** Runs every check the app shows next to a tailored CV. */
+export function reviewTailoredCv(sourceText: string, cvData: CvData, jobDescription: string, options: PdfExportOptions): CvReview {
+  return {
+    match: compareCvMatch(sourceText, cvData, jobDescription),
+    verification: verifyCvAgainstSource(cvData, sourceText),
+    lint: lintCv(cvData, options.template, options.pageSize),
+  };
+}
+
+/** Every format a CV can be saved in: our own JSON (which can be imported again), documents and text. */
+export type CvExportFormat = 'json' | 'pdf' | 'docx' | TextExportFormat;
+
+export const CV_EXPORT_FORMATS: Record<CvExportFormat, { label: string; extension: string; mimeType: string }> = {
+  'json': { label: 'CV data (JSON)', extension: 'json', mimeType: 'application/json' },
+  'pdf': { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf' },
+  'docx': { label: 'Word', extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  ...TEXT_EXPORT_FORMATS,
+};
+
+/** Renders the CV in the given format. */
+export async function exportCv(cvData: CvData, format: CvExportFormat, options: PdfExportOptions): Promise<Blob> {
+  const { mimeType } = CV_EXPORT_FORMATS[format];
+  switch (format) {
+    case 'json':
+      return new Blob([JSON.stringify(cvData, null, 2) + '\n'], { type: mimeType });
+    case 'pdf':
+      return new Blob([await buildCvPdf(cvData, options)], { type: mimeType });
+    case 'docx':
+      return buildCvDocx(cvData, options.template, options.pageSize);
+    default:
+      return new Blob([exportCvAsText(cvData, format, options.template)], { type: mimeType });
+  }
+}
@@ -0,0 +1,79 @@
+import type { Certification, CvData, Education, LanguageSkill, SkillGroup } from './geminiService';
+import { CvLocaleId, getLocale, localeStrings } from './locales';
+import type { CvSectionId } from './templates';
+
+// Helpers shared by everything that renders a CV (preview, PDF, DOCX, text exports), so the
+// optional sections read the same in every format.
+
+/** Every skill in the CV, grouped ones first, without duplicates. */
+export const allSkills = (cvData: CvData): string[] =>
+  [...new Set([...(cvData.skillGroups || []).flatMap(group => group.skills), ...(cvData.skills || [])])];
+
+/** Indexes of the ungrouped skills that do not also appear in a group. */
+export const ungroupedSkillIndexes = (cvData: CvData): number[] => {
+  const grouped = new Set((cvData.skillGroups || []).flatMap(group => group.skills.map(skill => skill.toLowerCase())));
+  return (cvData.skills || []).flatMap((skill, i) => (grouped.has(skill.toLowerCase()) ? [] : [i]));
+};
+
+/**
+ * Skill lines to render: one per group, followed by the remaining skills under "Other".
+ * Without groups there is a single line without a category.
+ */
+export const skillLines = (cvData: CvData): SkillGroup[] => {
+  const groups = (cvData.skillGroups || []).filter(group => group.skills.length > 0);
+  const rest = ungroupedSkillIndexes(cvData).map(i => cvData.skills[i]);
+  if (groups.length === 0) return rest.length > 0 ? [{ category: '', skills: rest }] : [];
+  return rest.length > 0 ? [...groups, { category: localeStrings(cvData.locale).otherSkills, skills: rest }] : groups;
+};
+
+/** e.g. "Spanish (C1)". */
+export const formatLanguage = (language: LanguageSkill): string =>
+  language.proficiency ? `${language.language} (${language.proficiency})` : language.language;
+
+/** e.g. "AWS Certified Developer, Amazon Web Services". */
+export const formatCredential = (item: Pick<Certification, 'name' | 'issuer'>): string =>
+  [item.name, item.issuer].filter(Boolean).join(', ');
+
+/** GPA and honors of an education entry, e.g. "GPA: 3.8 | Magna Cum Laude". */
+export const formatEducationDetails = (education: Education, locale?: CvLocaleId): string =>
+  [education.gpa ? `${localeStrings(locale).gpa}: ${education.gpa}` : '', education.honors || ''].filter(Boolean).join(' | ');
+
+/** Date of birth and nationality, e.g. "Geburtsdatum: 01.02.1990 | Staatsangehörigkeit: deutsch". */
+export const formatPersonalDetails = (cvData: CvData): string => {
+  const strings = localeStrings(cvData.locale);
+  const details = cvData.personalDetails;
+  return [
+    details?.dateOfBirth ? `${strings.dateOfBirth}: ${details.dateOfBirth}` : '',
+    details?.nationality ? `${strings.nationality}: ${details.nationality}` : '',
+  ].filter(Boolean).join(' | ');
+};
+
+/** The photo to show, if any. Only CVs for locales where photos are customary show one. */
+export const cvPhoto = (cvData: CvData): string | null =>
+  getLocale(cvData.locale).personalDetails && cvData.personalDetails?.photo ? cvData.personalDetails.photo : null;
+
+/** True if the section has anything to show. Empty sections are left out of every format. */
+export function hasSectionContent(cvData: CvData, section: CvSectionId): boolean {
+  switch (section) {
+    case 'summary':
+      return !!cvData.summary;
+    case 'experience':
+      return !!cvData.workExperience?.length;
+    case 'skills':
+      return skillLines(cvData).length > 0;
+    case 'education':
+      return !!cvData.education?.length;
+    case 'projects':
+      return !!cvData.projects?.length;
+    case 'certifications':
+      return !!cvData.certifications?.length;
+    case 'languages':
+      return !!cvData.languages?.length;
+    case 'publications':
+      return !!cvData.publications?.length;
+    case 'awards':
+      return !!cvData.awards?.length;
+    case 'volunteering':
+      return !!cvData.volunteering?.length;
+  }
+}
@@ -0,0 +1,104 @@
+// Parses the free-text date ranges found in CVs, e.g. "May 2020 - Present",
+// "2016 – 2020", "06/2018 to 03/2021", "Graduated May 2020" or "sept. 2019 - aujourd'hui".
+
+export interface PartialDate {
+  year: number;
+  /** 1-12, when the month is known. */
+  month?: number;
+}
+
+export interface DateRange {
+  start?: PartialDate;
+  end?: PartialDate;
+  /** True when the range is open-ended ("Present", "Current", ...). */
+  isCurrent: boolean;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Month abbreviations in the other CV languages (German, French, Spanish, Italian, Dutch) that differ from English.
+const MONTH_ALIASES: Record<string, number> = {
+  ene: 1, gen: 1, fév: 2, mär: 3, mrt: 3, avr: 4, abr: 4, mai: 5, mag: 5, mei: 5, juin: 6, giu: 6,
+  juil: 7, lug: 7, aoû: 8, ago: 8, set: 9, okt: 10, ott: 10, dez: 12, déc: 12, dic: 12,
+};
+
+// Full month names in the CV languages (English, German, French, Spanish, Italian, Dutch).
+const MONTH_NAMES: string[][] = [
+  ['january', 'januar', 'jänner', 'janvier', 'enero', 'gennaio', 'januari'],
+  ['february', 'februar', 'février', 'febrero', 'febbraio', 'februari'],
+  ['march', 'märz', 'mars', 'marzo', 'maart'],
+  ['april', 'avril', 'abril', 'aprile'],
+  ['may', 'mai', 'mayo', 'maggio', 'mei'],
+  ['june', 'juni', 'juin', 'junio', 'giugno'],
+  ['july', 'juli', 'juillet', 'julio', 'luglio'],
+  ['august', 'août', 'agosto', 'augustus'],
+  ['september', 'septembre', 'septiembre', 'settembre'],
+  ['october', 'oktober', 'octobre', 'octubre', 'ottobre'],
+  ['november', 'novembre', 'noviembre'],
+  ['december', 'dezember', 'décembre', 'diciembre', 'dicembre'],
+];
+
+/**
+ * The month (1-12) a word names, as a full name or an abbreviation such as "Sep", "Sept." or
+ * "févr". Other words, e.g. "Summer" or "Marketing", give undefined.
+ */
+export function monthFromName(word: string): number | undefined {
+  const name = word.toLowerCase().replace(/\.$/, '');
+  const abbreviation = MONTH_ALIASES[name] ?? MONTHS.indexOf(name) + 1;
+  if (abbreviation > 0) return abbreviation;
+  if (name.length < 3) return undefined;
+  const month = MONTH_NAMES.findIndex(names => names.some(full => full.startsWith(name)));
+  return month === -1 ? undefined : month + 1;
+}
+
+const CURRENT_PATTERN = /(?:^|[^\p{L}])(present|current|currently|now|today|ongoing|heute|aktuell|présent|aujourd'hui|actualidad|presente|oggi|heden)(?![\p{L}])/iu;
+
+const parsePoint = (text: string): PartialDate | undefined => {
+  const numeric = text.match(/\b(\d{1,2})[/.-](\d{4})\b/);
+  if (numeric) {
+    const month = Number(numeric[1]);
+    return { year: Number(numeric[2]), month: month >= 1 && month <= 12 ? month : undefined };
+  }
+  const iso = text.match(/\b(\d{4})-(0[1-9]|1[0-2])\b/);
+  if (iso) return { year: Number(iso[1]), month: Number(iso[2]) };
+  const year = text.match(/\b(19|20)\d{2}\b/);
+  if (!year) return undefined;
+  const month = text.match(/\p{L}+/gu)?.map(monthFromName).find(Boolean);
+  return { year: Number(year[0]), month: month || undefined };
+};
+
+export function parseDateRange(text: string): DateRange {
+  const value = (text || '').trim();
+  const isCurrent = CURRENT_PATTERN.test(value);
+  // Hyphens only separate a range when spaced ("2019 - 2021") or between full years ("2019-2021"),
+  // so that numeric dates such as "06-2019" stay intact.
+  const parts = value
+    .split(/\s+[-–—]\s+|\s*[–—]\s*|\s+(?:to|until)\s+|(?<=\d{4})-(?=\d{4}\b|present\b|current\b)/i)
+    .filter(Boolean);
+  const points = parts.map(parsePoint).filter((p): p is PartialDate => !!p);
+  if (points.length === 0) return { isCurrent };
+  if (points.length === 1) {
+    // A single date is the start of an open-ended range, or a completion date otherwise.
+    return isCurrent ? { start: points[0], isCurrent } : { end: points[0], isCurrent };
+  }
+  return { start: points[0], end: points[points.length - 1], isCurrent };
+}
+
+/** Formats a partial date as ISO 8601 (`YYYY` or `YYYY-MM`). */
+export const toIsoDate = (date?: PartialDate): string | undefined =>
+  date ? (date.month ? `${date.year}-${String(date.month).padStart(2, '0')}` : String(date.year)) : undefined;
+
+/** Formats a partial date as e.g. "May 2020" or "2020". */
+export const toDisplayDate = (date?: PartialDate): string => {
+  if (!date) return '';
+  if (!date.month) return String(date.year);
+  const name = MONTHS[date.month - 1];
+  return `${name.charAt(0).toUpperCase()}${name.slice(1)} ${date.year}`;
+};
+
+/** Parses an ISO 8601 date (`YYYY`, `YYYY-MM` or `YYYY-MM-DD`). */
+export const fromIsoDate = (iso?: string): PartialDate | undefined => {
+  const match = (iso || '').match(/^(\d{4})(?:-(\d{2}))?/);
+  if (!match) return undefined;
+  return { year: Number(match[1]), month: match[2] ? Number(match[2]) : undefined };
+};
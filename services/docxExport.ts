@@ -0,0 +1,215 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  HorizontalPositionAlign,
+  HorizontalPositionRelativeFrom,
+  ImageRun,
+  Packer,
+  Paragraph,
+  TabStopType,
+  TextRun,
+  TextWrappingType,
+  VerticalPositionAlign,
+  VerticalPositionRelativeFrom,
+} from 'docx';
+import type { CvData } from './geminiService';
+import { cvPhoto, formatEducationDetails, formatLanguage, formatPersonalDetails, hasSectionContent, skillLines } from './cvSections';
+import type { PageSize } from './pdfExport';
+import { CvSectionId, CvTemplateDefinition, resolveSectionOrder } from './templates';
+import { sectionTitle } from './locales';
+
+// Builds a real Word document from CvData. Only paragraphs, headings, tab stops and
+// native bullet lists are used: no tables, text boxes or columns, which trip up ATS parsers.
+// Two-column templates are therefore written as a single column in reading order.
+
+// Page sizes in twentieths of a point.
+const PAGE_DIMENSIONS: Record<PageSize, { width: number; height: number }> = {
+  letter: { width: 12240, height: 15840 },
+  a4: { width: 11906, height: 16838 },
+};
+const PAGE_MARGIN = 720; // 0.5 inch
+
+interface DocxStyle {
+  font: string;
+  bodySize: number; // half-points
+  nameSize: number;
+  headingSize: number;
+  sectionSpacing: number; // twentieths of a point before each heading
+  entrySpacing: number;
+  /** Position of right-aligned dates: the right margin. */
+  rightTab: number;
+}
+
+const styleFor = (template: CvTemplateDefinition, pageSize: PageSize): DocxStyle => ({
+  font: template.fontFamily === 'serif' ? 'Georgia' : 'Calibri',
+  bodySize: template.density === 'compact' ? 19 : 22,
+  nameSize: template.density === 'compact' ? 40 : 52,
+  headingSize: template.density === 'compact' ? 20 : 22,
+  sectionSpacing: template.density === 'compact' ? 160 : 280,
+  entrySpacing: template.density === 'compact' ? 80 : 160,
+  rightTab: PAGE_DIMENSIONS[pageSize].width - PAGE_MARGIN * 2,
+});
+
+// A line with text on the left and text aligned to the right margin, e.g. job title and dates.
+const splitLine = (left: TextRun[], right: TextRun[], style: DocxStyle, spacingBefore = 0): Paragraph =>
+  new Paragraph({
+    tabStops: [{ type: TabStopType.RIGHT, position: style.rightTab }],
+    spacing: { before: spacingBefore },
+    children: [...left, ...(right.length > 0 ? [new TextRun({ text: '\t' }), ...right] : [])],
+  });
+
+const sectionHeading = (title: string, style: DocxStyle): Paragraph =>
+  new Paragraph({
+    heading: HeadingLevel.HEADING_1,
+    spacing: { before: style.sectionSpacing, after: 80 },
+    border: { bottom: { style: BorderStyle.SINGLE, size: 8, color: '000000', space: 1 } },
+    children: [new TextRun({ text: title.toUpperCase() })],
+  });
+
+// Title and date on one line with an optional italic line below, e.g. a certification and its issuer.
+const datedEntry = (title: string, date: string, subtitle: string, style: DocxStyle, spacingBefore: number): Paragraph[] => [
+  splitLine([new TextRun({ text: title, bold: true })], date ? [new TextRun({ text: date, bold: true })] : [], style, spacingBefore),
+  ...(subtitle ? [new Paragraph({ children: [new TextRun({ text: subtitle, italics: true })] })] : []),
+];
+
+const bulletList = (lines: string[]): Paragraph[] => lines.map(line => new Paragraph({ text: line, bullet: { level: 0 } }));
+
+const buildSectionContent = (section: CvSectionId, cvData: CvData, style: DocxStyle): Paragraph[] => {
+  const gap = (index: number, spacing = style.entrySpacing) => (index > 0 ? spacing : 0);
+  switch (section) {
+    case 'summary':
+      return [new Paragraph({ text: cvData.summary })];
+    case 'experience':
+      return cvData.workExperience.flatMap((job, index) => [
+        splitLine(
+          [new TextRun({ text: job.jobTitle, bold: true })],
+          job.dates ? [new TextRun({ text: job.dates, bold: true })] : [],
+          style,
+          gap(index),
+        ),
+        splitLine(
+          [new TextRun({ text: job.company, italics: true })],
+          job.location ? [new TextRun({ text: job.location, italics: true })] : [],
+          style,
+        ),
+        ...bulletList(job.responsibilities),
+      ]);
+    case 'skills':
+      return skillLines(cvData).map(line => new Paragraph({
+        children: line.category
+          ? [new TextRun({ text: `${line.category}: `, bold: true }), new TextRun({ text: line.skills.join(', ') })]
+          : [new TextRun({ text: line.skills.join(' | ') })],
+      }));
+    case 'education':
+      return cvData.education.flatMap((edu, index) => [
+        ...datedEntry(edu.institution, edu.dates, edu.degree, style, gap(index, style.entrySpacing / 2)),
+        ...(formatEducationDetails(edu, cvData.locale) ? [new Paragraph({ text: formatEducationDetails(edu, cvData.locale) })] : []),
+      ]);
+    case 'projects':
+      return cvData.projects!.flatMap((project, index) => [
+        splitLine([new TextRun({ text: project.name, bold: true })], project.dates ? [new TextRun({ text: project.dates, bold: true })] : [], style, gap(index)),
+        ...(project.url ? [new Paragraph({ children: [new ExternalHyperlink({ link: project.url, children: [new TextRun({ text: project.url, style: 'Hyperlink' })] })] })] : []),
+        ...(project.description ? [new Paragraph({ text: project.description })] : []),
+      ]);
+    case 'certifications':
+      return cvData.certifications!.flatMap((cert, index) => datedEntry(cert.name, cert.date, cert.issuer, style, gap(index, style.entrySpacing / 2)));
+    case 'awards':
+      return cvData.awards!.flatMap((award, index) => datedEntry(award.title, award.date, award.issuer, style, gap(index, style.entrySpacing / 2)));
+    case 'languages':
+      return [new Paragraph({ text: cvData.languages!.map(formatLanguage).join(' | ') })];
+    case 'publications':
+      return bulletList(cvData.publications!.map(publication =>
+        [[publication.title, publication.publisher, publication.date].filter(Boolean).join(', '), publication.url].filter(Boolean).join('. ')
+      ));
+    case 'volunteering':
+      return cvData.volunteering!.flatMap((work, index) => [
+        ...datedEntry(work.role, work.dates, work.organization, style, gap(index)),
+        ...bulletList(work.responsibilities),
+      ]);
+  }
+};
+
+const buildSection = (section: CvSectionId, cvData: CvData, style: DocxStyle): Paragraph[] =>
+  hasSectionContent(cvData, section) ? [sectionHeading(sectionTitle(section, cvData.locale), style), ...buildSectionContent(section, cvData, style)] : [];
+
+// A JPEG or PNG data URL as a picture floating at the top right of the header, 3:4 like a passport photo.
+const photoRun = (photo: string): ImageRun =>
+  new ImageRun({
+    type: photo.startsWith('data:image/png') ? 'png' : 'jpg',
+    data: Uint8Array.from(atob(photo.slice(photo.indexOf(',') + 1)), ch => ch.charCodeAt(0)),
+    transformation: { width: 96, height: 128 },
+    floating: {
+      horizontalPosition: { relative: HorizontalPositionRelativeFrom.MARGIN, align: HorizontalPositionAlign.RIGHT },
+      verticalPosition: { relative: VerticalPositionRelativeFrom.MARGIN, align: VerticalPositionAlign.TOP },
+      wrap: { type: TextWrappingType.SQUARE },
+    },
+  });
+
+const buildHeader = (cvData: CvData, template: CvTemplateDefinition, style: DocxStyle): Paragraph[] => {
+  const photo = cvPhoto(cvData);
+  const personalDetails = formatPersonalDetails(cvData);
+  // Next to a photo the header is left-aligned, as centered text would run into it.
+  const alignment = !photo && (template.id === 'classic' || template.id === 'academic') ? AlignmentType.CENTER : AlignmentType.LEFT;
+  const contact = cvData.contactInfo;
+  const parts = [contact?.location, contact?.phone, contact?.email].filter(Boolean) as string[];
+
+  const contactChildren: (TextRun | ExternalHyperlink)[] = [new TextRun({ text: parts.join(' | ') })];
+  if (contact?.linkedin) {
+    if (parts.length > 0) contactChildren.push(new TextRun({ text: ' | ' }));
+    contactChildren.push(new ExternalHyperlink({
+      link: contact.linkedin,
+      children: [new TextRun({ text: contact.linkedin, style: 'Hyperlink' })],
+    }));
+  }
+
+  return [
+    new Paragraph({
+      heading: HeadingLevel.TITLE,
+      alignment,
+      children: [
+        ...(photo ? [photoRun(photo)] : []),
+        new TextRun({ text: template.id === 'classic' ? cvData.fullName.toUpperCase() : cvData.fullName }),
+      ],
+    }),
+    new Paragraph({ alignment, children: contactChildren }),
+    ...(personalDetails ? [new Paragraph({ alignment, text: personalDetails })] : []),
+  ];
+};
+
+/**
+ * Generates a DOCX file for the CV on the given paper size, following the section order and
+ * density of the template (or the user's own section order).
+ * Runs entirely client-side.
+ */
+export async function buildCvDocx(cvData: CvData, template: CvTemplateDefinition, pageSize: PageSize = 'letter'): Promise<Blob> {
+  const style = styleFor(template, pageSize);
+
+  const document = new Document({
+    creator: cvData.fullName,
+    title: `${cvData.fullName} - CV`,
+    styles: {
+      default: {
+        document: { run: { font: style.font, size: style.bodySize } },
+        title: { run: { font: style.font, size: style.nameSize, bold: true, color: '000000' }, paragraph: { spacing: { after: 80 } } },
+        heading1: { run: { font: style.font, size: style.headingSize, bold: true, color: '000000' } },
+      },
+    },
+    sections: [{
+      properties: {
+        page: {
+          size: PAGE_DIMENSIONS[pageSize],
+          margin: { top: PAGE_MARGIN, right: PAGE_MARGIN, bottom: PAGE_MARGIN, left: PAGE_MARGIN },
+        },
+      },
+      children: [
+        ...buildHeader(cvData, template, style),
+        ...resolveSectionOrder(template, cvData.sectionOrder).flatMap(section => buildSection(section, cvData, style)),
+      ],
+    }],
+  });
+
+  return Packer.toBlob(document);
+}
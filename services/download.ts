@@ -0,0 +1,22 @@
+import type { CvData } from './geminiService';
+
+/** Triggers a browser download of `blob` under `filename`. */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Base file name for exports of a CV, e.g. `Jane_Doe_CV`. */
+export const cvFileBaseName = (cvData: CvData): string =>
+  `${(cvData.fullName || 'Optimized').trim().replace(/\s+/g, '_')}_CV`;
+
+/** Base file name for exports of a cover letter, e.g. `Jane_Doe_Cover_Letter`. */
+export const coverLetterFileBaseName = (cvData: CvData): string =>
+  `${(cvData.fullName || 'My').trim().replace(/\s+/g, '_')}_Cover_Letter`;
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { CvData } from './geminiService';
+import { verifyCvAgainstSource } from './fabricationGuard';
+import { detectLanguage } from './locales';
+
+const SOURCE = `Jane Doe
+Experience
+Senior Software Engineer at Acme Robotics, May 2020 - Present
+Built the fleet dashboard with React and TypeScript and led the migration to the cloud.
+Education
+Technical University of Munich, Master of Science in Computer Science, 2016 - 2018
+Skills: React, TypeScript, project management`;
+
+const TERSE_SOURCE = `John Smith
+Acme Corp - Developer, 2019 - 2022
+- Developed APIs in Go
+- Built e-commerce checkout
+- Automated e-mail campaigns
+- e-invoicing integration
+Skills: Go, SQL`;
+
+const cv = (overrides: Partial<CvData>): CvData => ({
+  fullName: 'Jane Doe',
+  contactInfo: { email: '', phone: '', linkedin: '', location: '' },
+  summary: '',
+  workExperience: [{ jobTitle: 'Senior Software Engineer', company: 'Acme Robotics', location: '', dates: 'May 2020 - Present', responsibilities: [] }],
+  education: [{ degree: 'Master of Science in Computer Science', institution: 'Technical University of Munich', dates: '2016 - 2018' }],
+  skills: ['React', 'TypeScript'],
+  ...overrides,
+});
+
+describe('detectLanguage', () => {
+  it('recognizes the language of a CV', () => {
+    expect(detectLanguage(SOURCE)).toBe('en');
+    expect(detectLanguage('Entwicklung der Plattform mit React und TypeScript für die Kunden von Acme')).toBe('de');
+    expect(detectLanguage('Développement de la plateforme avec React pour les clients et des partenaires, puis migration des services dans le cloud')).toBe('fr');
+  });
+
+  it('cannot tell the language of a short bullet-point CV', () => {
+    expect(detectLanguage(TERSE_SOURCE)).toBeUndefined();
+  });
+});
+
+describe('verifyCvAgainstSource', () => {
+  it('flags titles and skills that are not in the source', () => {
+    const report = verifyCvAgainstSource(cv({ skills: ['React', 'Kubernetes'] }), SOURCE);
+    expect(report.translated).toBe(false);
+    expect(report.flags.map(f => f.key)).toEqual(['skills.1']);
+  });
+
+  it('does not check translated titles, degrees and skills', () => {
+    const report = verifyCvAgainstSource(cv({
+      locale: 'de-DE',
+      workExperience: [{ jobTitle: 'Senior-Softwareentwicklerin', company: 'Acme Robotics', location: '', dates: '05/2020 - heute', responsibilities: [] }],
+      education: [{ degree: 'Master in Informatik', institution: 'Technical University of Munich', dates: '2016 - 2018' }],
+      skills: ['React', 'Projektmanagement'],
+    }), SOURCE);
+    expect(report.translated).toBe(true);
+    expect(report.flags).toEqual([]);
+  });
+
+  it('checks everything when the source language is unclear', () => {
+    const report = verifyCvAgainstSource(cv({
+      workExperience: [{ jobTitle: 'VP of Product', company: 'Acme Corp', location: '', dates: '2019 - 2022', responsibilities: [] }],
+      education: [{ degree: 'PhD Physics', institution: '', dates: '' }],
+      skills: ['Go', 'Kubernetes', 'Rust'],
+    }), TERSE_SOURCE);
+    expect(report.translated).toBe(false);
+    expect(report.flags.map(f => f.key)).toEqual(['workExperience.0.jobTitle', 'education.0.degree', 'skills.1', 'skills.2']);
+  });
+
+  it('still checks employers and dates in a translated CV', () => {
+    const report = verifyCvAgainstSource(cv({
+      locale: 'fr-FR',
+      workExperience: [{ jobTitle: 'Ingénieure logiciel', company: 'Globex', location: '', dates: '2019 - 2021', responsibilities: [] }],
+    }), SOURCE);
+    expect(report.flags.map(f => f.key)).toEqual(['workExperience.0.company', 'workExperience.0.dates']);
+  });
+});
@@ -0,0 +1,189 @@
+import type { CvData } from './geminiService';
+import { containsTerm, normalizeForMatching } from './keywordMatcher';
+import { detectLanguage, getLocale } from './locales';
+
+// Verifies that the employers, titles, dates, degrees, skills and certifications in an optimized CV
+// can be traced back to the text of the CV the user uploaded. This runs locally and
+// is deliberately conservative: it flags anything it cannot find support for and
+// leaves the final decision to the user.
+
+export type ClaimKind = 'company' | 'jobTitle' | 'dates' | 'institution' | 'degree' | 'skill' | 'certification';
+
+export interface FabricationFlag {
+  /** Stable key of the flagged field, e.g. `workExperience.0.company`, `skills.3` or `skillGroups.1.skills.0`. */
+  key: string;
+  kind: ClaimKind;
+  value: string;
+  reason: string;
+}
+
+export interface VerificationReport {
+  flags: FabricationFlag[];
+  /** Flag reasons indexed by key for quick lookup while rendering. */
+  byKey: Map<string, string>;
+  /** True when the CV is in another language than the source, so titles, degrees and skills were not checked. */
+  translated: boolean;
+}
+
+const IGNORED_TOKENS = new Set([
+  'a', 'an', 'and', 'at', 'co', 'company', 'corp', 'corporation', 'for', 'gmbh', 'in', 'inc', 'llc',
+  'llp', 'ltd', 'limited', 'of', 'on', 'plc', 'the', 'to', 'with', '&',
+]);
+
+const DEGREE_LEVELS: Record<string, string[]> = {
+  bachelor: ['bachelor', 'bachelors', "bachelor's", 'bsc', 'b.sc', 'bs', 'b.s', 'ba', 'b.a', 'beng', 'b.eng', 'bba', 'undergraduate'],
+  master: ['master', 'masters', "master's", 'msc', 'm.sc', 'ms', 'm.s', 'ma', 'm.a', 'meng', 'm.eng', 'mba', 'postgraduate'],
+  doctor: ['doctor', 'doctorate', 'phd', 'ph.d', 'dphil', 'md'],
+  associate: ['associate', 'associates', "associate's", 'aa', 'as', 'aas'],
+  diploma: ['diploma', 'certificate', 'hnd', 'hnc'],
+};
+
+// Includes the words used by the CV languages in services/locales ("aujourd" is the matchable part of "aujourd'hui").
+const PRESENT_WORDS = ['present', 'current', 'currently', 'now', 'today', 'ongoing', 'heute', 'aktuell', 'aujourd', 'actualidad', 'actualmente', 'presente', 'oggi', 'heden'];
+
+// Crude stemming by prefix so that "managed" supports "management" and "analyst" supports "analytics".
+const stem = (token: string): string => (token.length > 5 ? token.slice(0, 5) : token);
+
+const tokensOf = (text: string): string[] =>
+  normalizeForMatching(text)
+    .split(/[^a-z0-9+#.']+/)
+    .map(t => t.replace(/^[.']+|[.']+$/g, ''))
+    .filter(t => t && !IGNORED_TOKENS.has(t));
+
+interface SourceIndex {
+  normalized: string;
+  tokens: Set<string>;
+  stems: Set<string>;
+}
+
+const indexSource = (sourceText: string): SourceIndex => {
+  const tokens = new Set(tokensOf(sourceText));
+  return {
+    normalized: normalizeForMatching(sourceText),
+    tokens,
+    stems: new Set([...tokens].map(stem)),
+  };
+};
+
+const tokenSupported = (token: string, source: SourceIndex): boolean =>
+  source.tokens.has(token) || source.stems.has(stem(token));
+
+/** Share of the value's significant tokens found in the source (1 when there is nothing to check). */
+const tokenCoverage = (value: string, source: SourceIndex): number => {
+  const tokens = tokensOf(value);
+  if (tokens.length === 0) return 1;
+  return tokens.filter(t => tokenSupported(t, source)).length / tokens.length;
+};
+
+const isPhraseSupported = (value: string, source: SourceIndex, minCoverage: number): boolean => {
+  const normalized = normalizeForMatching(value);
+  if (!normalized) return true;
+  return containsTerm(source.normalized, normalized) || tokenCoverage(value, source) >= minCoverage;
+};
+
+const checkDates = (value: string, source: SourceIndex): string | null => {
+  const years = value.match(/\b(19|20)\d{2}\b/g) || [];
+  const missingYears = years.filter(y => !source.tokens.has(y));
+  if (missingYears.length > 0) {
+    return `Year${missingYears.length > 1 ? 's' : ''} ${missingYears.join(', ')} not found in your original CV.`;
+  }
+  const normalized = normalizeForMatching(value);
+  if (PRESENT_WORDS.some(w => containsTerm(normalized, w)) && !PRESENT_WORDS.some(w => source.tokens.has(w))) {
+    return 'Your original CV does not mention a current role.';
+  }
+  return null;
+};
+
+const checkDegree = (value: string, source: SourceIndex): string | null => {
+  const tokens = tokensOf(value);
+  for (const [level, aliases] of Object.entries(DEGREE_LEVELS)) {
+    const claimsLevel = tokens.some(t => aliases.includes(t));
+    if (claimsLevel && !aliases.some(a => source.tokens.has(a))) {
+      return `No ${level}-level qualification found in your original CV.`;
+    }
+  }
+  const levelWords = new Set(Object.values(DEGREE_LEVELS).flat());
+  const subject = tokens.filter(t => !levelWords.has(t) && t !== 'science' && t !== 'arts' && t !== 'degree');
+  if (subject.length > 0 && subject.filter(t => tokenSupported(t, source)).length / subject.length < 0.5) {
+    return 'Field of study not found in your original CV.';
+  }
+  return null;
+};
+
+/**
+ * Compares the claims in an optimized CV with the original CV text and flags every
+ * employer, job title, date range, institution, degree, skill and certification that has no support
+ * in the source. When the CV was written in another language than the source, job titles, degrees
+ * and skills are translated and cannot be matched word for word, so only names and dates are checked.
+ */
+export function verifyCvAgainstSource(cvData: CvData, sourceText: string): VerificationReport {
+  const source = indexSource(sourceText);
+  // When the source language cannot be told, everything is checked: a missed translation only adds flags.
+  const sourceLanguage = detectLanguage(sourceText);
+  const translated = !!sourceLanguage && sourceLanguage !== getLocale(cvData.locale).language;
+  const flags: FabricationFlag[] = [];
+  const flag = (key: string, kind: ClaimKind, value: string, reason: string) => flags.push({ key, kind, value, reason });
+
+  (cvData.workExperience || []).forEach((job, i) => {
+    if (!isPhraseSupported(job.company, source, 0.75)) {
+      flag(`workExperience.${i}.company`, 'company', job.company, 'Employer not found in your original CV.');
+    }
+    if (!translated && !isPhraseSupported(job.jobTitle, source, 0.5)) {
+      flag(`workExperience.${i}.jobTitle`, 'jobTitle', job.jobTitle, 'Job title not found in your original CV.');
+    }
+    const dateIssue = job.dates ? checkDates(job.dates, source) : null;
+    if (dateIssue) flag(`workExperience.${i}.dates`, 'dates', job.dates, dateIssue);
+  });
+
+  (cvData.education || []).forEach((edu, i) => {
+    if (!isPhraseSupported(edu.institution, source, 0.75)) {
+      flag(`education.${i}.institution`, 'institution', edu.institution, 'Institution not found in your original CV.');
+    }
+    const degreeIssue = edu.degree && !translated ? checkDegree(edu.degree, source) : null;
+    if (degreeIssue) flag(`education.${i}.degree`, 'degree', edu.degree, degreeIssue);
+    const dateIssue = edu.dates ? checkDates(edu.dates, source) : null;
+    if (dateIssue) flag(`education.${i}.dates`, 'dates', edu.dates, dateIssue);
+  });
+
+  (cvData.skills || []).forEach((skill, i) => {
+    if (!translated && !isPhraseSupported(skill, source, 0.5)) {
+      flag(`skills.${i}`, 'skill', skill, 'Skill not mentioned anywhere in your original CV.');
+    }
+  });
+
+  (cvData.skillGroups || []).forEach((group, g) => {
+    group.skills.forEach((skill, i) => {
+      if (!translated && !isPhraseSupported(skill, source, 0.5)) {
+        flag(`skillGroups.${g}.skills.${i}`, 'skill', skill, 'Skill not mentioned anywhere in your original CV.');
+      }
+    });
+  });
+
+  (cvData.certifications || []).forEach((cert, i) => {
+    if (!isPhraseSupported(cert.name, source, 0.75)) {
+      flag(`certifications.${i}.name`, 'certification', cert.name, 'Certification not found in your original CV.');
+    }
+  });
+
+  return { flags, byKey: new Map(flags.map(f => [f.key, f.reason])), translated };
+}
+
+/**
+ * Returns a copy of the CV with every flagged item removed. Work experience and
+ * education entries with any flagged field are dropped entirely, since a partially
+ * invented entry cannot be trusted; flagged skills and certifications are removed individually.
+ */
+export function stripFlaggedItems(cvData: CvData, report: VerificationReport): CvData {
+  const hasFlagUnder = (prefix: string) => report.flags.some(f => f.key.startsWith(prefix));
+  return {
+    ...cvData,
+    workExperience: (cvData.workExperience || []).filter((_, i) => !hasFlagUnder(`workExperience.${i}.`)),
+    education: (cvData.education || []).filter((_, i) => !hasFlagUnder(`education.${i}.`)),
+    skills: (cvData.skills || []).filter((_, i) => !report.byKey.has(`skills.${i}`)),
+    skillGroups: cvData.skillGroups?.map((group, g) => ({
+      ...group,
+      skills: group.skills.filter((_, i) => !report.byKey.has(`skillGroups.${g}.skills.${i}`)),
+    })),
+    certifications: cvData.certifications?.filter((_, i) => !report.byKey.has(`certifications.${i}.name`)),
+  };
+}
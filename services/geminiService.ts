@@ -1,12 +1,11 @@
-import { GoogleGenAI, Type } from "@google/genai";
-
-// Ensure the API key is available, but do not hardcode it.
-// It's expected to be set in the environment variables.
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { getLlmProvider, LlmConfigurationError, LlmRateLimitError, SchemaNode } from './llm';
+import { formatIssue, parseJsonResponse, SchemaValidationError, validateAgainstSchema, ValidationIssue } from './schemaValidator';
+import { formatJobAnalysisForPrompt, JobAnalysis, JobAnalysisKeyword } from './jobAnalysis';
+import { COVER_LETTER_TONES, CoverLetter, CoverLetterOptions } from './coverLetter';
+import { parsePartialJson } from './partialJson';
+import { PiiItem, REDACTION_PROMPT_NOTE, redactText, redactValue, restorePii } from './piiRedaction';
+import type { CvSectionId } from './templates';
+import { CvLocaleId, formatDateText, getLocale, localeStrings } from './locales';
 
 // Define TypeScript interfaces for the structured CV data
 export interface ContactInfo {
@@ -26,94 +25,488 @@ export interface Education {
     institution: string;
     degree: string;
     dates: string;
+    gpa?: string;
+    honors?: string;
+}
+export interface SkillGroup {
+    category: string;
+    skills: string[];
+}
+export interface Project {
+    name: string;
+    dates: string;
+    url: string;
+    description: string;
+}
+export interface Certification {
+    name: string;
+    issuer: string;
+    date: string;
+}
+export interface LanguageSkill {
+    language: string;
+    proficiency: string;
+}
+export interface Publication {
+    title: string;
+    publisher: string;
+    date: string;
+    url: string;
+}
+export interface Award {
+    title: string;
+    issuer: string;
+    date: string;
+}
+/** Details shown on CVs in German-speaking countries. Entered by the user and never sent to the AI. */
+export interface PersonalDetails {
+    dateOfBirth: string;
+    nationality: string;
+    /** A JPEG or PNG data URL. */
+    photo: string;
+}
+export interface VolunteerWork {
+    role: string;
+    organization: string;
+    dates: string;
+    responsibilities: string[];
 }
+// The optional sections are absent in CVs saved before they existed, so readers must allow for that.
 export interface CvData {
     fullName: string;
     contactInfo: ContactInfo;
     summary: string;
     workExperience: WorkExperience[];
     education: Education[];
+    /** Skills that are not part of a group. */
     skills: string[];
+    skillGroups?: SkillGroup[];
+    projects?: Project[];
+    certifications?: Certification[];
+    languages?: LanguageSkill[];
+    publications?: Publication[];
+    awards?: Award[];
+    volunteering?: VolunteerWork[];
+    /** Section order chosen by the user; the template's order applies when unset. Never produced by the model. */
+    sectionOrder?: CvSectionId[];
+    /** Language and regional conventions the CV is written in; US English when unset. Never produced by the model. */
+    locale?: CvLocaleId;
+    personalDetails?: PersonalDetails;
 }
 
-// Define the schema for the Gemini API response
-const cvSchema = {
-    type: Type.OBJECT,
+// Define the schema for the model's response. Providers translate it into their own format.
+export const cvSchema: SchemaNode = {
+    type: 'object',
     properties: {
-        fullName: { type: Type.STRING, description: "The candidate's full name." },
+        fullName: { type: 'string', description: "The candidate's full name." },
         contactInfo: {
-            type: Type.OBJECT,
+            type: 'object',
             properties: {
-                email: { type: Type.STRING, description: "Candidate's email address." },
-                phone: { type: Type.STRING, description: "Candidate's phone number." },
-                linkedin: { type: Type.STRING, description: "URL to LinkedIn profile, if available." },
-                location: { type: Type.STRING, description: "City and State, e.g., 'San Francisco, CA'." },
+                email: { type: 'string', description: "Candidate's email address." },
+                phone: { type: 'string', description: "Candidate's phone number." },
+                linkedin: { type: 'string', description: "URL to LinkedIn profile, if available." },
+                location: { type: 'string', description: "City and State or Country, e.g., 'San Francisco, CA' or 'Munich, Germany'." },
             },
-            required: ["email", "phone", "location"],
+            required: ['email', 'phone', 'location'],
         },
-        summary: { type: Type.STRING, description: "A 2-4 sentence professional summary tailored to the job description." },
+        summary: { type: 'string', description: "A 2-4 sentence professional summary tailored to the job description." },
         workExperience: {
-            type: Type.ARRAY,
+            type: 'array',
             items: {
-                type: Type.OBJECT,
+                type: 'object',
                 properties: {
-                    jobTitle: { type: Type.STRING },
-                    company: { type: Type.STRING },
-                    location: { type: Type.STRING },
-                    dates: { type: Type.STRING, description: "e.g., 'May 2020 - Present'" },
+                    jobTitle: { type: 'string' },
+                    company: { type: 'string' },
+                    location: { type: 'string' },
+                    dates: { type: 'string', description: "e.g., 'May 2020 - Present'" },
                     responsibilities: {
-                        type: Type.ARRAY,
+                        type: 'array',
                         description: "Bulleted list of achievements, optimized with keywords from the job description.",
-                        items: { type: Type.STRING }
+                        items: { type: 'string' }
                     },
                 },
                 required: ["jobTitle", "company", "dates", "responsibilities"],
             }
         },
         education: {
-            type: Type.ARRAY,
+            type: 'array',
             items: {
-                type: Type.OBJECT,
+                type: 'object',
                 properties: {
-                    institution: { type: Type.STRING },
-                    degree: { type: Type.STRING, description: "e.g., 'Bachelor of Science in Computer Science'" },
-                    dates: { type: Type.STRING, description: "e.g., 'Graduated May 2020' or '2016 - 2020'" },
+                    institution: { type: 'string' },
+                    degree: { type: 'string', description: "e.g., 'Bachelor of Science in Computer Science'" },
+                    dates: { type: 'string', description: "e.g., 'Graduated May 2020' or '2016 - 2020'" },
+                    gpa: { type: 'string', description: "Grade point average or final grade, only if stated in the CV." },
+                    honors: { type: 'string', description: "e.g., 'Magna Cum Laude' or 'First Class Honours', only if stated in the CV." },
                 },
                 required: ["institution", "degree", "dates"],
             }
         },
         skills: {
-            type: Type.ARRAY,
-            description: "A list of relevant technical and soft skills, tailored to the job description.",
-            items: { type: Type.STRING }
-        }
+            type: 'array',
+            description: "Relevant technical and soft skills tailored to the job description that are not listed in skillGroups.",
+            items: { type: 'string' }
+        },
+        skillGroups: {
+            type: 'array',
+            description: "Skills grouped by category, e.g. 'Languages' or 'Cloud'. Empty if the skills are better shown as one list.",
+            items: {
+                type: 'object',
+                properties: {
+                    category: { type: 'string' },
+                    skills: { type: 'array', items: { type: 'string' } },
+                },
+                required: ["category", "skills"],
+            }
+        },
+        projects: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    dates: { type: 'string' },
+                    url: { type: 'string' },
+                    description: { type: 'string', description: "One or two sentences on the project and the candidate's contribution." },
+                },
+                required: ["name"],
+            }
+        },
+        certifications: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    issuer: { type: 'string', description: "e.g., 'Amazon Web Services'" },
+                    date: { type: 'string' },
+                },
+                required: ["name"],
+            }
+        },
+        languages: {
+            type: 'array',
+            description: "Spoken languages.",
+            items: {
+                type: 'object',
+                properties: {
+                    language: { type: 'string' },
+                    proficiency: { type: 'string', description: "e.g., 'Native', 'Fluent' or 'C1'" },
+                },
+                required: ["language"],
+            }
+        },
+        publications: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    publisher: { type: 'string', description: "Journal, conference or publisher." },
+                    date: { type: 'string' },
+                    url: { type: 'string' },
+                },
+                required: ["title"],
+            }
+        },
+        awards: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    issuer: { type: 'string' },
+                    date: { type: 'string' },
+                },
+                required: ["title"],
+            }
+        },
+        volunteering: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    role: { type: 'string' },
+                    organization: { type: 'string' },
+                    dates: { type: 'string' },
+                    responsibilities: { type: 'array', items: { type: 'string' } },
+                },
+                required: ["role", "organization"],
+            }
+        },
     },
     required: ["fullName", "contactInfo", "summary", "workExperience", "education", "skills"],
 };
 
+// Maps provider errors to messages that can be shown to the user.
+const toUserFacingError = (error: unknown, fallbackMessage: string): Error => {
+  if (error instanceof LlmConfigurationError || error instanceof LlmRateLimitError || error instanceof SchemaValidationError) {
+    return error;
+  }
+  // Cancellation is not a failure; callers check for it by name.
+  if (error instanceof Error && error.name === 'AbortError') {
+    return error;
+  }
+  if (error instanceof SyntaxError) {
+    return new Error("The AI returned an invalid JSON format. Please try again.");
+  }
+  if (error instanceof Error && error.message.includes('API key not valid')) {
+    return new Error("The API key is invalid. Please check your configuration.");
+  }
+  return new Error(fallbackMessage);
+};
+
+// Stages of an optimization, in order. While the answer streams in, the stage is the CV section being written.
+export type OptimizationStage = 'waiting' | 'header' | 'summary' | 'experience' | 'education' | 'skills' | 'additional' | 'checking' | 'repairing';
+
+export const OPTIMIZATION_STAGES: Record<OptimizationStage, string> = {
+  waiting: 'Waiting for the AI',
+  header: 'Writing the header',
+  summary: 'Writing the summary',
+  experience: 'Rewriting work experience',
+  education: 'Writing education',
+  skills: 'Selecting skills',
+  additional: 'Adding further sections',
+  checking: 'Checking the result',
+  repairing: 'Fixing incomplete fields',
+};
+
+export interface OptimizationProgress {
+  stage: OptimizationStage;
+  /** The CV as far as it has arrived, with missing fields left empty. Null until the first section starts. */
+  partialCv: CvData | null;
+}
+
+export interface OptimizeOptions {
+  signal?: AbortSignal;
+  /** Personal details to replace with placeholders before sending the CV, and to restore in the result. */
+  redactions?: PiiItem[];
+  /** When set, the answer is streamed and progress is reported as each chunk arrives. */
+  onProgress?: (progress: OptimizationProgress) => void;
+  /** Language and regional conventions to write the CV in. */
+  locale?: CvLocaleId;
+}
+
+// The section a partial answer is currently on, from the last key present (keys arrive in schema order).
+const STAGE_BY_KEY: [keyof CvData, OptimizationStage][] = [
+  ['volunteering', 'additional'],
+  ['awards', 'additional'],
+  ['publications', 'additional'],
+  ['languages', 'additional'],
+  ['certifications', 'additional'],
+  ['projects', 'additional'],
+  ['skillGroups', 'skills'],
+  ['skills', 'skills'],
+  ['education', 'education'],
+  ['workExperience', 'experience'],
+  ['summary', 'summary'],
+  ['contactInfo', 'header'],
+  ['fullName', 'header'],
+];
+
+const toProgress = (streamedText: string): OptimizationProgress => {
+  const partial = parsePartialJson(streamedText);
+  if (!partial || typeof partial !== 'object' || Array.isArray(partial)) return { stage: 'waiting', partialCv: null };
+  const stage = STAGE_BY_KEY.find(([key]) => key in partial)?.[1] ?? 'waiting';
+  // Validation fills in whatever has not arrived yet, so the CV can be rendered as it grows.
+  return { stage, partialCv: stage === 'waiting' ? null : validateAgainstSchema<CvData>(partial, cvSchema).value };
+};
+
+// Puts the redacted details back. If the model dropped a contact placeholder, the detail is taken from the CV.
+const restoreCv = (cvData: CvData, redactions: PiiItem[]): CvData => {
+  if (redactions.length === 0) return cvData;
+  const restored = restorePii(cvData, redactions);
+  const detected = (kind: PiiItem['kind'], test: (value: string) => boolean = () => true) =>
+    redactions.find(item => item.kind === kind && test(item.value))?.value || '';
+  const contact = restored.contactInfo;
+  return {
+    ...restored,
+    contactInfo: {
+      ...contact,
+      email: contact.email || detected('email'),
+      phone: contact.phone || detected('phone'),
+      linkedin: contact.linkedin || detected('url', value => /linkedin\.com/i.test(value)),
+    },
+  };
+};
+
+// Settings of the CV that only apply locally, and the photo, which is large and private.
+const toPromptCv = ({ sectionOrder, locale, personalDetails, ...cvData }: CvData): CvData => cvData;
+
+const localeInstruction = (id: CvLocaleId): string => {
+  const locale = getLocale(id);
+  return `Write every part of the CV in ${localeStrings(id).name} (${locale.label}), even if the inputs are in another language. Translate job titles and bullet points naturally, but keep the names of companies, institutions, products and certifications as they are. Write locations as ${locale.locationFormat}. Write every date in English as "Mon YYYY - Mon YYYY", "Mon YYYY - Present" or "YYYY"; dates are reformatted for the reader's region afterwards.`;
+};
+
+// Marks the CV with its locale and rewrites its dates in the locale's format.
+const localizeCv = (cvData: CvData, locale?: CvLocaleId): CvData => {
+  if (!locale) return cvData;
+  const dates = <T extends { dates: string }>(items: T[] | undefined) => items?.map(item => ({ ...item, dates: formatDateText(item.dates, locale) }));
+  const date = <T extends { date: string }>(items: T[] | undefined) => items?.map(item => ({ ...item, date: formatDateText(item.date, locale) }));
+  return {
+    ...cvData,
+    locale,
+    workExperience: dates(cvData.workExperience)!,
+    education: dates(cvData.education)!,
+    projects: dates(cvData.projects),
+    volunteering: dates(cvData.volunteering),
+    certifications: date(cvData.certifications),
+    publications: date(cvData.publications),
+    awards: date(cvData.awards),
+  };
+};
 
 export async function optimizeCvWithGemini(
-  currentUserCv: string,
-  jobDescription: string,
+  currentUserCv: string | CvData,
+  jobDescription: string | JobAnalysis,
+  options: OptimizeOptions = {},
 ): Promise<CvData> {
+  const { signal, redactions = [], locale } = options;
+  const onProgress = options.onProgress && redactions.length > 0
+    ? (progress: OptimizationProgress) => options.onProgress!({ ...progress, partialCv: progress.partialCv && restorePii(progress.partialCv, redactions) })
+    : options.onProgress;
+  // Structured imports (JSON Resume, LinkedIn) are passed as JSON in the output format so no detail is lost.
+  const isStructured = typeof currentUserCv !== 'string';
+  const cvInput = isStructured ? JSON.stringify(redactValue(toPromptCv(currentUserCv), redactions), null, 2) : redactText(currentUserCv, redactions);
+  // A reviewed job analysis replaces the raw job description, so the user's edits and priorities apply.
+  const isAnalyzed = typeof jobDescription !== 'string';
+  const jobInput = isAnalyzed ? formatJobAnalysisForPrompt(jobDescription) : jobDescription;
+  const extraInstructions = [
+    locale && `**Language and Format:** ${localeInstruction(locale)}`,
+    redactions.length > 0 && `**Keep Placeholders:** ${REDACTION_PROMPT_NOTE}`,
+  ].filter(Boolean).map((instruction, i) => `${i + 6}.  ${instruction}\n`).join('');
 
   const prompt = `
 You are a world-class professional CV writer and Applicant Tracking System (ATS) optimization expert. Your task is to rewrite a user's CV to perfectly align with a specific job description.
 
 **You will be given two inputs:**
-1.  **[CURRENT CV]**: The user's existing CV content.
-2.  **[JOB DESCRIPTION]**: The target job description.
+1.  **[CURRENT CV]**: The user's existing CV content${isStructured ? ', already structured as JSON in the output schema' : ''}.
+2.  **[JOB DESCRIPTION]**: The target job description${isAnalyzed ? ', already analyzed into structured requirements and reviewed by the user. Feature pinned keywords prominently wherever the CV supports them, and do not emphasize de-prioritized ones' : ''}.
 
 **Your instructions are:**
 1.  **Analyze and Extract:** Thoroughly analyze the [CURRENT CV] to understand the user's experience, skills, and qualifications. Also, analyze the [JOB DESCRIPTION] to identify all key skills, qualifications, technologies, and responsibilities.
 2.  **Rewrite and Integrate:** Modify the user's CV content by strategically and naturally weaving in the keywords from the job description. Enhance bullet points with quantifiable achievements and action verbs that match the target role.
 3.  **Ensure Truthfulness:** The new content must be truthful and accurately reflect the user's experience. Do not invent experience or skills the user does not possess.
 4.  **Populate the JSON:** Based on the rewritten content, populate the provided JSON schema. Ensure all fields are filled correctly and logically. The structure of the CV should follow a standard professional format: Summary, Work Experience, Skills, Education.
-
+5.  **Keep Further Sections:** Carry over projects, certifications, spoken languages, publications, awards and volunteer work, and education GPA or honors, when the CV has them; leave them empty otherwise. Group skills by category (e.g. "Languages", "Cloud") when the CV lists many skills of different kinds.
+${extraInstructions}
 ---
 
 **[CURRENT CV]**
-${currentUserCv}
+${cvInput}
+
+---
+
+**[JOB DESCRIPTION]**
+${jobInput}
+`;
+
+  // Puts back what was kept from the model: redacted details, and the personal details of a structured CV.
+  const finish = (cvData: CvData): CvData => {
+    const personalDetails = isStructured ? currentUserCv.personalDetails : undefined;
+    return localizeCv({ ...restoreCv(cvData, redactions), ...(personalDetails && { personalDetails }) }, locale);
+  };
+
+  try {
+    onProgress?.({ stage: 'waiting', partialCv: null });
+    const responseText = await getLlmProvider().generate({
+        task: 'optimize-cv',
+        prompt,
+        responseSchema: cvSchema,
+        signal,
+        onText: onProgress && (text => onProgress(toProgress(text))),
+    });
+
+    // Validate against the same schema the model was given, repairing recoverable issues.
+    const parsedData = parseJsonResponse(responseText);
+    const result = validateAgainstSchema<CvData>(parsedData, cvSchema);
+    onProgress?.({ stage: 'checking', partialCv: result.value });
+    if (result.isValid) {
+        return finish(result.value);
+    }
+
+    // Ask the model once to fix only the fields that could not be repaired locally.
+    console.warn("AI response failed validation, retrying:", result.issues);
+    onProgress?.({ stage: 'repairing', partialCv: result.value });
+    const repaired = await repairCvResponse(parsedData, result.issues, signal);
+    if (!repaired.isValid) {
+        throw new SchemaValidationError(repaired.issues);
+    }
+    return finish(repaired.value);
+
+  } catch (error) {
+    if (!signal?.aborted) console.error("Error calling the AI provider or parsing response:", error);
+    throw toUserFacingError(error, "Failed to generate optimized CV due to an API error.");
+  }
+}
+
+async function repairCvResponse(previousResponse: unknown, issues: ValidationIssue[], signal?: AbortSignal) {
+  const problems = issues.filter(i => !i.repaired).map(i => `- ${formatIssue(i)}`).join('\n');
+  const prompt = `
+The following JSON CV was generated for a user but does not match the required schema.
+
+**Problems:**
+${problems}
+
+Return the complete corrected JSON. Fix only the fields listed above and keep every other field exactly as it is. If information for a required field is genuinely unavailable, use an empty string rather than inventing it.
+
+**[PREVIOUS JSON]**
+${JSON.stringify(previousResponse, null, 2)}
+`;
+
+  const responseText = await getLlmProvider().generate({
+      task: 'optimize-cv',
+      prompt,
+      responseSchema: cvSchema,
+      signal,
+  });
+  return validateAgainstSchema<CvData>(parseJsonResponse(responseText), cvSchema);
+}
+
+const stringList = (description: string): SchemaNode => ({ type: 'array', description, items: { type: 'string' } });
+
+const jobAnalysisSchema: SchemaNode = {
+    type: 'object',
+    properties: {
+        title: { type: 'string', description: "The job title, e.g. 'Senior Data Analyst'." },
+        seniority: { type: 'string', description: "e.g. 'Junior', 'Mid-level', 'Senior', 'Lead'. Empty if not stated." },
+        yearsOfExperience: { type: 'string', description: "e.g. '5+ years'. Empty if not stated." },
+        requiredSkills: stringList("Skills, tools and technologies the job requires. Short keywords, not sentences."),
+        preferredSkills: stringList("Skills listed as preferred, a plus or nice to have. Short keywords."),
+        certifications: stringList("Certifications or licenses mentioned."),
+        education: { type: 'string', description: "Required or preferred education. Empty if not stated." },
+        location: { type: 'string', description: "Where the job is based. Empty if not stated." },
+        workArrangement: { type: 'string', description: "'Remote', 'Hybrid' or 'On-site'. Empty if not stated." },
+        responsibilities: stringList("The main responsibilities, one short sentence each."),
+    },
+    required: ["title", "seniority", "yearsOfExperience", "requiredSkills", "preferredSkills", "certifications", "education", "location", "workArrangement", "responsibilities"],
+};
+
+interface JobAnalysisResponse {
+  title: string;
+  seniority: string;
+  yearsOfExperience: string;
+  requiredSkills: string[];
+  preferredSkills: string[];
+  certifications: string[];
+  education: string;
+  location: string;
+  workArrangement: string;
+  responsibilities: string[];
+}
+
+/**
+ * Turns a job description into structured requirements that the user can review and edit
+ * before optimizing. Every keyword starts with normal priority.
+ */
+export async function analyzeJobDescription(jobDescription: string): Promise<JobAnalysis> {
+  const prompt = `
+You are an expert recruiter. Analyze the [JOB DESCRIPTION] below and extract its requirements into the provided JSON schema.
+
+**Rules:**
+1.  Only extract what the job description states. Leave a field empty rather than guessing.
+2.  Keep skills as short keywords exactly as a recruiter or ATS would search for them (e.g. "Python", "stakeholder management").
+3.  Put a skill under preferred only if the job description marks it as preferred, a plus, or nice to have.
 
 ---
 
@@ -122,30 +515,108 @@ ${jobDescription}
 `;
 
   try {
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: cvSchema,
-        }
+    const responseText = await getLlmProvider().generate({
+        task: 'analyze-job',
+        prompt,
+        responseSchema: jobAnalysisSchema,
     });
-    
-    const jsonText = response.text.trim();
-    // The Gemini API with responseSchema should return a valid JSON string.
-    // We parse it to ensure it's a valid object conforming to CvData.
-    const parsedData = JSON.parse(jsonText);
-    return parsedData as CvData;
+    const { value } = validateAgainstSchema<JobAnalysisResponse>(parseJsonResponse(responseText), jobAnalysisSchema);
+
+    // The same term can be listed twice (e.g. as required and preferred); keep the first.
+    const keywords: JobAnalysisKeyword[] = [];
+    const addKeywords = (terms: string[], kind: JobAnalysisKeyword['kind']) => {
+      for (const term of terms.map(t => t.trim())) {
+        if (term && !keywords.some(k => k.term.toLowerCase() === term.toLowerCase())) {
+          keywords.push({ term, kind, priority: 'normal' });
+        }
+      }
+    };
+    addKeywords(value.requiredSkills, 'required');
+    addKeywords(value.preferredSkills, 'preferred');
+    addKeywords(value.certifications, 'certification');
 
+    return {
+      title: value.title,
+      seniority: value.seniority,
+      yearsOfExperience: value.yearsOfExperience,
+      education: value.education,
+      location: value.location,
+      workArrangement: value.workArrangement,
+      keywords,
+      responsibilities: value.responsibilities.filter(r => r.trim() !== ''),
+    };
   } catch (error) {
-    console.error("Error calling Gemini API or parsing response:", error);
-    if (error instanceof SyntaxError) {
-        throw new Error("The AI returned an invalid JSON format. Please try again.");
+    console.error("Error calling the AI provider for job analysis:", error);
+    throw toUserFacingError(error, "Failed to analyze the job description due to an API error.");
+  }
+}
+
+const coverLetterSchema: SchemaNode = {
+    type: 'object',
+    properties: {
+        greeting: { type: 'string', description: "Salutation, e.g. \"Dear Hiring Manager,\". Address a named person only if the job description names one." },
+        paragraphs: stringList("The body of the letter: 3 to 4 paragraphs, without the greeting, closing or signature."),
+        closing: { type: 'string', description: "Closing phrase, e.g. \"Kind regards,\"." },
+    },
+    required: ["greeting", "paragraphs", "closing"],
+};
+
+/**
+ * Writes a cover letter from the optimized CV. Only facts in the CV are used, so the letter
+ * cannot claim more than the CV it accompanies.
+ */
+export async function generateCoverLetter(
+  cvData: CvData,
+  jobDescription: string,
+  options: CoverLetterOptions,
+): Promise<CoverLetter> {
+  const company = options.company.trim();
+  const redactions = options.redactions ?? [];
+  const prompt = `
+You are a professional career writer. Write a cover letter for the candidate whose [CV] is below, applying for the role in the [JOB DESCRIPTION]${company ? ` at ${company}` : ''}.
+
+**Rules:**
+1.  Write 3 to 4 paragraphs: why this role${company ? ` and ${company}` : ''}, the candidate's most relevant experience with concrete results, how their skills match the key requirements, and a short call to action.
+2.  The tone is ${COVER_LETTER_TONES[options.tone].instruction}.
+3.  Only use facts from the [CV]. Do not invent employers, achievements, numbers or skills.
+4.  Do not include addresses, the date, the greeting or the signature in the paragraphs.
+5.  Write the greeting, paragraphs and closing in ${localeStrings(cvData.locale).name}.
+${redactions.length > 0 ? `6.  ${REDACTION_PROMPT_NOTE}\n` : ''}
+---
+
+**[CV]**
+${JSON.stringify(redactValue({ ...toPromptCv(cvData), contactInfo: undefined }, redactions), null, 2)}
+
+---
+
+**[JOB DESCRIPTION]**
+${jobDescription}
+`;
+
+  try {
+    const responseText = await getLlmProvider().generate({
+        task: 'cover-letter',
+        prompt,
+        responseSchema: coverLetterSchema,
+    });
+    const { value: redacted } = validateAgainstSchema<Omit<CoverLetter, 'signature'>>(parseJsonResponse(responseText), coverLetterSchema);
+    const value = restorePii(redacted, redactions);
+    const paragraphs = value.paragraphs.map(p => p.trim()).filter(Boolean);
+    if (paragraphs.length === 0) {
+        throw new Error("The AI did not return a cover letter. Please try again.");
     }
-    if (error instanceof Error && error.message.includes('API key not valid')) {
-         throw new Error("The API key is invalid. Please check your configuration.");
+    return {
+      greeting: value.greeting.trim() || 'Dear Hiring Manager,',
+      paragraphs,
+      closing: value.closing.trim() || 'Kind regards,',
+      signature: cvData.fullName,
+    };
+  } catch (error) {
+    console.error("Error calling the AI provider for the cover letter:", error);
+    if (error instanceof Error && error.message.startsWith('The AI did not return')) {
+        throw error;
     }
-    throw new Error("Failed to generate optimized CV due to an API error.");
+    throw toUserFacingError(error, "Failed to generate the cover letter due to an API error.");
   }
 }
 
@@ -155,29 +626,159 @@ export async function extractTextFromImagesWithGemini(
 
   const prompt = "You are an Optical Character Recognition (OCR) expert. Extract all text content from these document pages in the order they are provided. Combine the text from all pages into a single block of text. Preserve the original structure, paragraphs, and line breaks as best as possible.";
 
-  const imageParts = base64Images.map((img) => ({
-    inlineData: {
-      data: img,
-      mimeType: 'image/jpeg',
+  try {
+    return await getLlmProvider().generate({
+        task: 'extract-text',
+        prompt,
+        images: base64Images.map((img) => ({ data: img, mimeType: 'image/jpeg' })),
+    });
+  } catch (error) {
+    console.error("Error calling the AI provider for OCR:", error);
+    throw toUserFacingError(error, "Failed to extract text from the document image using AI.");
+  }
+}
+
+// Parts of the CV that can be regenerated on their own, with the rest of the CV left untouched.
+export type RegenerationTarget =
+  | { kind: 'summary' }
+  | { kind: 'responsibilities'; jobIndex: number }
+  | { kind: 'bullet'; jobIndex: number; bulletIndex: number }
+  | { kind: 'skills' };
+
+export interface RegenerationOptions {
+  /** Optional user instruction, e.g. "more quantitative" or "shorter". */
+  instruction?: string;
+  /** Number of alternatives to generate. */
+  candidateCount?: number;
+  /** Personal details to replace with placeholders before sending, and to restore in the alternatives. */
+  redactions?: PiiItem[];
+}
+
+const regenerationSchema: SchemaNode = {
+    type: 'object',
+    properties: {
+        candidates: {
+            type: 'array',
+            description: "Alternative versions of the requested CV section.",
+            items: {
+                type: 'object',
+                properties: {
+                    lines: {
+                        type: 'array',
+                        description: "The content of this alternative. A single item for a summary or bullet, one item per entry for a list.",
+                        items: { type: 'string' }
+                    },
+                },
+                required: ["lines"],
+            }
+        }
     },
-  }));
+    required: ["candidates"],
+};
+
+const describeTarget = (cvData: CvData, target: RegenerationTarget): string => {
+  switch (target.kind) {
+    case 'summary':
+      return `the professional summary (currently: "${cvData.summary}"). Each alternative has exactly one line containing a 2-4 sentence summary.`;
+    case 'skills':
+      return `the skills list (currently: ${JSON.stringify(cvData.skills)}). Each alternative lists one skill per line.`;
+    case 'responsibilities': {
+      const job = cvData.workExperience[target.jobIndex];
+      return `the bullet points for the "${job.jobTitle}" role at "${job.company}" (currently: ${JSON.stringify(job.responsibilities)}). Each alternative lists one bullet per line.`;
+    }
+    case 'bullet': {
+      const job = cvData.workExperience[target.jobIndex];
+      return `a single bullet point of the "${job.jobTitle}" role at "${job.company}" (currently: "${job.responsibilities[target.bulletIndex]}"). Each alternative has exactly one line containing the rewritten bullet.`;
+    }
+  }
+};
+
+/**
+ * Regenerates one part of the CV while passing the rest as locked context.
+ * Each returned candidate is a list of lines; summary and bullet candidates contain a single line.
+ */
+export async function regenerateCvSection(
+  cvData: CvData,
+  target: RegenerationTarget,
+  currentUserCv: string,
+  jobDescription: string,
+  options: RegenerationOptions = {},
+): Promise<string[][]> {
+  const candidateCount = options.candidateCount ?? (target.kind === 'bullet' || target.kind === 'summary' ? 3 : 1);
+  const redactions = options.redactions ?? [];
+  const lockedCv = redactValue(toPromptCv(cvData), redactions);
+
+  const prompt = `
+You are a world-class professional CV writer and Applicant Tracking System (ATS) optimization expert. You are refining one part of an already optimized CV.
+
+**Your task:** Rewrite ${describeTarget(lockedCv, target)}
+Produce ${candidateCount} distinct alternative${candidateCount > 1 ? 's' : ''}.
+${options.instruction ? `\n**User instruction:** ${options.instruction}\n` : ''}
+**Rules:**
+1.  Only rewrite the requested part. The [LOCKED CV] below is context only and must not be changed or repeated.
+2.  Weave in keywords from the [JOB DESCRIPTION] naturally, using strong action verbs and quantifiable achievements where the [ORIGINAL CV] supports them.
+3.  Do not invent experience or skills the user does not possess according to the [ORIGINAL CV].
+4.  Write in ${localeStrings(cvData.locale).name}, the language of the [LOCKED CV].
+${redactions.length > 0 ? `5.  ${REDACTION_PROMPT_NOTE}\n` : ''}
+---
+
+**[LOCKED CV]**
+${JSON.stringify(lockedCv, null, 2)}
+
+---
+
+**[ORIGINAL CV]**
+${redactText(currentUserCv, redactions)}
+
+---
+
+**[JOB DESCRIPTION]**
+${jobDescription}
+`;
 
   try {
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: {
-            parts: [
-                { text: prompt },
-                ...imageParts
-            ]
-        },
+    const responseText = await getLlmProvider().generate({
+        task: 'regenerate-section',
+        prompt,
+        responseSchema: regenerationSchema,
     });
-    return response.text;
+
+    const { value } = validateAgainstSchema<{ candidates: { lines: string[] }[] }>(parseJsonResponse(responseText), regenerationSchema);
+    const candidates = value.candidates
+      .map(c => c.lines)
+      .filter(lines => lines.length > 0);
+    if (candidates.length === 0) {
+        throw new Error("The AI did not return any alternatives. Please try again.");
+    }
+    return restorePii(candidates, redactions);
+
   } catch (error) {
-    console.error("Error calling Gemini API for OCR:", error);
-    if (error instanceof Error && error.message.includes('API key not valid')) {
-         throw new Error("The API key is invalid. Please check your configuration.");
+    console.error("Error calling the AI provider for section regeneration:", error);
+    if (error instanceof Error && error.message.startsWith('The AI did not return')) {
+        throw error;
     }
-    throw new Error("Failed to extract text from the document image using AI.");
+    throw toUserFacingError(error, "Failed to regenerate this section due to an API error.");
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Returns a copy of the CV with the regenerated content applied to the target.
+ */
+export function applyRegeneration(cvData: CvData, target: RegenerationTarget, lines: string[]): CvData {
+  switch (target.kind) {
+    case 'summary':
+      return { ...cvData, summary: lines.join(' ') };
+    case 'skills':
+      return { ...cvData, skills: lines };
+    case 'responsibilities':
+    case 'bullet':
+      return {
+        ...cvData,
+        workExperience: cvData.workExperience.map((job, i) => {
+          if (i !== target.jobIndex) return job;
+          if (target.kind === 'responsibilities') return { ...job, responsibilities: lines };
+          return { ...job, responsibilities: job.responsibilities.map((r, j) => (j === target.bulletIndex ? lines.join(' ') : r)) };
+        }),
+      };
+  }
+}
@@ -0,0 +1,61 @@
+// Structured view of a job description. The AI extracts it (see analyzeJobDescription in
+// geminiService.ts), the user reviews and edits it, and the edited version replaces the raw
+// job description in the optimizer prompt.
+
+/** How strongly the optimizer should feature a keyword. */
+export type KeywordPriority = 'pinned' | 'normal' | 'deprioritized';
+
+export type JobKeywordKind = 'required' | 'preferred' | 'certification';
+
+export const JOB_KEYWORD_KINDS: Record<JobKeywordKind, string> = {
+  required: 'Required skills',
+  preferred: 'Preferred skills',
+  certification: 'Certifications',
+};
+
+export interface JobAnalysisKeyword {
+  term: string;
+  kind: JobKeywordKind;
+  priority: KeywordPriority;
+}
+
+export interface JobAnalysis {
+  title: string;
+  /** e.g. "Senior", "Mid-level", "Lead". */
+  seniority: string;
+  /** e.g. "5+ years". */
+  yearsOfExperience: string;
+  education: string;
+  location: string;
+  /** "Remote", "Hybrid", "On-site", or empty when not stated. */
+  workArrangement: string;
+  keywords: JobAnalysisKeyword[];
+  responsibilities: string[];
+}
+
+const list = (terms: string[]): string => terms.join(', ') || 'none';
+
+/** Renders the analysis as the job section of the optimizer prompt. */
+export function formatJobAnalysisForPrompt(analysis: JobAnalysis): string {
+  const keywordsOf = (kind: JobKeywordKind) =>
+    analysis.keywords.filter(k => k.kind === kind).map(k => k.priority === 'pinned' ? `${k.term} (pinned)` : k.term);
+  const pinned = analysis.keywords.filter(k => k.priority === 'pinned').map(k => k.term);
+  const deprioritized = analysis.keywords.filter(k => k.priority === 'deprioritized').map(k => k.term);
+  const location = [analysis.location, analysis.workArrangement].filter(Boolean).join(', ');
+
+  return [
+    `Title: ${analysis.title || 'not stated'}`,
+    `Seniority: ${analysis.seniority || 'not stated'}`,
+    `Years of experience: ${analysis.yearsOfExperience || 'not stated'}`,
+    `Education: ${analysis.education || 'not stated'}`,
+    `Location: ${location || 'not stated'}`,
+    `${JOB_KEYWORD_KINDS.required}: ${list(keywordsOf('required'))}`,
+    `${JOB_KEYWORD_KINDS.preferred}: ${list(keywordsOf('preferred'))}`,
+    `${JOB_KEYWORD_KINDS.certification}: ${list(keywordsOf('certification'))}`,
+    'Key responsibilities:',
+    ...(analysis.responsibilities.length > 0 ? analysis.responsibilities.map(r => `- ${r}`) : ['- not stated']),
+    '',
+    `Pinned keywords (the candidate wants these featured prominently wherever the CV supports them): ${list(pinned)}`,
+    `De-prioritized keywords (do not emphasize or add these): ${list(deprioritized)}`,
+  ].join('\n');
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { fromJsonResume, isJsonResume } from './jsonResumeImport';
+import { toJsonResume } from './textExport';
+
+const RESUME = {
+  basics: {
+    name: ' Jane Doe ',
+    email: 'jane@example.com',
+    location: { city: 'Austin', region: 'TX' },
+    profiles: [{ network: 'GitHub', url: 'https://github.com/jane' }, { network: 'LinkedIn', username: 'janedoe' }],
+  },
+  work: [
+    { company: 'Acme', position: 'Engineer', startDate: '2020-05', summary: 'Built the API\n- Ran on-call', highlights: ['Cut costs by 20%'] },
+    'not an entry',
+  ],
+  education: [{ institution: 'UT Austin', studyType: 'BSc', area: 'Computer Science', startDate: '2012', endDate: '2016', score: '3.8' }],
+  skills: [{ name: 'Go' }, { name: 'Cloud', keywords: ['AWS', 'GCP'] }, { name: 'Go' }],
+  certificates: [{ name: 'CKA', issuer: 'CNCF', date: '2021-03-01' }],
+};
+
+describe('isJsonResume', () => {
+  it('recognizes documents with basics or work', () => {
+    expect(isJsonResume(RESUME)).toBe(true);
+    expect(isJsonResume({ work: [] })).toBe(true);
+    expect(isJsonResume({ fullName: 'Jane' })).toBe(false);
+    expect(isJsonResume([RESUME])).toBe(false);
+  });
+});
+
+describe('fromJsonResume', () => {
+  it('maps the fields onto the CV', () => {
+    const cv = fromJsonResume(RESUME);
+    expect(cv.fullName).toBe('Jane Doe');
+    expect(cv.contactInfo).toEqual({ email: 'jane@example.com', phone: '', linkedin: 'https://www.linkedin.com/in/janedoe', location: 'Austin, TX' });
+    expect(cv.workExperience).toEqual([{
+      jobTitle: 'Engineer', company: 'Acme', location: '', dates: 'May 2020 - Present',
+      responsibilities: ['Built the API', 'Ran on-call', 'Cut costs by 20%'],
+    }]);
+    expect(cv.education[0]).toMatchObject({ degree: 'BSc in Computer Science', dates: '2012 - 2016', gpa: '3.8' });
+    expect(cv.skills).toEqual(['Go']);
+    expect(cv.skillGroups).toEqual([{ category: 'Cloud', skills: ['AWS', 'GCP'] }]);
+    expect(cv.certifications).toEqual([{ name: 'CKA', issuer: 'CNCF', date: 'Mar 2021' }]);
+  });
+
+  it('ignores fields of the wrong type', () => {
+    const cv = fromJsonResume({ basics: 'Jane', work: { position: 'Engineer' }, skills: [42, null] });
+    expect(cv.fullName).toBe('');
+    expect(cv.workExperience).toEqual([]);
+    expect(cv.skills).toEqual([]);
+  });
+
+  it('reads back what toJsonResume wrote', () => {
+    const cv = fromJsonResume(RESUME);
+    const roundTrip = fromJsonResume(JSON.parse(JSON.stringify(toJsonResume(cv))));
+    expect(roundTrip.workExperience).toEqual(cv.workExperience);
+    expect(roundTrip.skillGroups).toEqual(cv.skillGroups);
+    expect(roundTrip.certifications).toEqual(cv.certifications);
+  });
+});
@@ -0,0 +1,114 @@
+import { cvSchema, CvData } from './geminiService';
+import { fromIsoDate, toDisplayDate } from './dateRange';
+import { validateAgainstSchema } from './schemaValidator';
+
+// Maps a JSON Resume document (https://jsonresume.org/schema) directly onto CvData, so
+// structured master CVs do not go through text extraction. This is the inverse of
+// toJsonResume in textExport.ts.
+
+type JsonObject = Record<string, unknown>;
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+const isObject = (value: unknown): value is JsonObject => !!value && typeof value === 'object' && !Array.isArray(value);
+const list = (value: unknown): JsonObject[] => (Array.isArray(value) ? value.filter(isObject) : []);
+const strings = (value: unknown): string[] => (Array.isArray(value) ? value.map(str).filter(Boolean) : []);
+
+const formatDates = (startDate: unknown, endDate: unknown, openEnded: boolean): string => {
+  const start = toDisplayDate(fromIsoDate(str(startDate)));
+  const end = toDisplayDate(fromIsoDate(str(endDate))) || (openEnded && start ? 'Present' : '');
+  return [start, end].filter(Boolean).join(' - ');
+};
+
+// Highlights become bullets; a free-text summary is split into one bullet per line.
+const toBullets = (entry: JsonObject): string[] => {
+  const highlights = strings(entry.highlights);
+  const summary = str(entry.summary || entry.description)
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*[-*•]\s*/, '').trim())
+    .filter(Boolean);
+  return [...summary, ...highlights];
+};
+
+const keywordsOf = (skill: JsonObject): string[] => strings(skill.keywords);
+
+const formatLocation = (location: unknown): string => {
+  if (typeof location === 'string') return location.trim();
+  if (!isObject(location)) return '';
+  const { city, region, countryCode } = location;
+  return [str(city), str(region), str(countryCode)].filter(Boolean).join(', ');
+};
+
+/** True if the parsed JSON looks like a JSON Resume document. */
+export const isJsonResume = (value: unknown): value is JsonObject =>
+  isObject(value) && ('basics' in value || 'work' in value);
+
+/** Converts a JSON Resume document to CvData. Unknown or missing fields are left empty. */
+export function fromJsonResume(resume: JsonObject): CvData {
+  const basics: JsonObject = isObject(resume.basics) ? resume.basics : {};
+  const linkedinProfile = list(basics.profiles).find(p => /linkedin/i.test(str(p.network)) || /linkedin\.com/i.test(str(p.url)));
+
+  const cvData: CvData = {
+    fullName: str(basics.name),
+    contactInfo: {
+      email: str(basics.email),
+      phone: str(basics.phone),
+      linkedin: str(linkedinProfile?.url) || (linkedinProfile?.username ? `https://www.linkedin.com/in/${str(linkedinProfile.username)}` : ''),
+      location: formatLocation(basics.location),
+    },
+    summary: str(basics.summary),
+    workExperience: list(resume.work).map(job => ({
+      jobTitle: str(job.position),
+      // Older versions of the schema used `company` instead of `name`.
+      company: str(job.name || job.company),
+      location: formatLocation(job.location),
+      dates: formatDates(job.startDate, job.endDate, true),
+      responsibilities: toBullets(job),
+    })),
+    education: list(resume.education).map(edu => ({
+      institution: str(edu.institution),
+      degree: [str(edu.studyType), str(edu.area)].filter(Boolean).join(' in '),
+      dates: formatDates(edu.startDate, edu.endDate, false),
+      gpa: str(edu.score),
+    })),
+    // A skill with keywords is a group ("Cloud": AWS, GCP); one without is a single skill.
+    skills: [...new Set(list(resume.skills).filter(skill => keywordsOf(skill).length === 0).map(skill => str(skill.name)).filter(Boolean))],
+    skillGroups: list(resume.skills)
+      .filter(skill => keywordsOf(skill).length > 0)
+      .map(skill => ({ category: str(skill.name), skills: keywordsOf(skill) })),
+    projects: list(resume.projects).map(project => ({
+      name: str(project.name),
+      dates: formatDates(project.startDate, project.endDate, false),
+      url: str(project.url),
+      description: [str(project.description), ...strings(project.highlights)].filter(Boolean).join(' '),
+    })),
+    certifications: list(resume.certificates).map(cert => ({
+      name: str(cert.name),
+      issuer: str(cert.issuer),
+      date: toDisplayDate(fromIsoDate(str(cert.date))),
+    })),
+    languages: list(resume.languages).map(language => ({
+      language: str(language.language),
+      proficiency: str(language.fluency),
+    })),
+    publications: list(resume.publications).map(publication => ({
+      title: str(publication.name),
+      publisher: str(publication.publisher),
+      date: toDisplayDate(fromIsoDate(str(publication.releaseDate))),
+      url: str(publication.url),
+    })),
+    awards: list(resume.awards).map(award => ({
+      title: str(award.title),
+      issuer: str(award.awarder),
+      date: toDisplayDate(fromIsoDate(str(award.date))),
+    })),
+    volunteering: list(resume.volunteer).map(work => ({
+      role: str(work.position),
+      organization: str(work.organization),
+      dates: formatDates(work.startDate, work.endDate, true),
+      responsibilities: toBullets(work),
+    })),
+  };
+
+  // Normalizes whitespace and fills any gaps the same way as a model response.
+  return validateAgainstSchema<CvData>(cvData, cvSchema).value;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { CvData } from './geminiService';
+import { compareCvMatch, extractJobKeywords, scoreText } from './keywordMatcher';
+
+const cv = (overrides: Partial<CvData> = {}): CvData => ({
+  fullName: 'Jane Doe',
+  contactInfo: { email: 'jane@example.com', phone: '', linkedin: '', location: '' },
+  summary: '',
+  workExperience: [],
+  education: [],
+  skills: [],
+  ...overrides,
+});
+
+const terms = (jobDescription: string) => extractJobKeywords(jobDescription).map(k => k.term);
+
+describe('extractJobKeywords', () => {
+  it('keeps multi-word keywords whole', () => {
+    const keywords = terms('Experience with GitHub Actions and project management is required.');
+    expect(keywords).toContain('github actions');
+    expect(keywords).toContain('project management');
+    expect(keywords).not.toContain('git');
+  });
+
+  it('reports a synonym under its canonical term', () => {
+    const keywords = terms('You will run our K8s clusters and build ML models.');
+    expect(keywords).toContain('kubernetes');
+    expect(keywords).toContain('machine learning');
+    expect(keywords).not.toContain('k8s');
+    expect(keywords).not.toContain('ml');
+  });
+
+  it('returns no keywords for an empty job description', () => {
+    expect(extractJobKeywords('')).toEqual([]);
+    expect(extractJobKeywords('   \n ')).toEqual([]);
+  });
+});
+
+describe('scoreText', () => {
+  it('matches multi-word keywords across hyphens and plurals', () => {
+    const keywords = extractJobKeywords('Strong stakeholder management and unit testing skills.');
+    const result = scoreText('Led stakeholder-management workshops and wrote unit tests.', keywords);
+    expect(result.matched.map(k => k.term)).toContain('stakeholder management');
+    expect(result.missing.map(k => k.term)).toContain('unit testing');
+  });
+
+  it('counts a synonym in the CV as a match', () => {
+    const keywords = extractJobKeywords('Deploy services on Kubernetes backed by PostgreSQL.');
+    const result = scoreText('Ran k8s clusters with Postgres databases.', keywords);
+    expect(result.missing).toEqual([]);
+    expect(result.score).toBe(100);
+  });
+
+  it('scores 0 without keywords', () => {
+    expect(scoreText('Any CV text', [])).toEqual({ score: 0, matched: [], missing: [] });
+  });
+});
+
+describe('compareCvMatch', () => {
+  it('reports the change in score between the original and the optimized CV', () => {
+    const comparison = compareCvMatch('Python developer', cv({ skills: ['Python', 'Docker', 'Kubernetes'] }), 'We use Python, Docker and Kubernetes.');
+    expect(comparison.before.score).toBeLessThan(comparison.after.score);
+    expect(comparison.after.score).toBe(100);
+    expect(comparison.delta).toBe(comparison.after.score - comparison.before.score);
+  });
+
+  it('scores both CVs as 0 for an empty job description', () => {
+    const comparison = compareCvMatch('Python developer', cv({ skills: ['Python'] }), '');
+    expect(comparison.keywords).toEqual([]);
+    expect(comparison).toMatchObject({ before: { score: 0 }, after: { score: 0 }, delta: 0 });
+  });
+});
@@ -0,0 +1,255 @@
+import type { CvData } from './geminiService';
+import { allSkills } from './cvSections';
+
+// Deterministic, offline keyword scoring. Nothing in this module talks to the AI,
+// so the numbers it produces can be trusted as an independent check on the
+// optimizer's output.
+
+export type KeywordCategory = 'certification' | 'tool' | 'skill' | 'phrase';
+
+export interface JobKeyword {
+  term: string;
+  category: KeywordCategory;
+  weight: number;
+}
+
+export interface MatchResult {
+  score: number; // 0-100, weighted by keyword category
+  matched: JobKeyword[];
+  missing: JobKeyword[];
+}
+
+export interface MatchComparison {
+  keywords: JobKeyword[];
+  before: MatchResult;
+  after: MatchResult;
+  delta: number;
+}
+
+const CATEGORY_WEIGHTS: Record<KeywordCategory, number> = {
+  certification: 3,
+  tool: 2,
+  skill: 2,
+  phrase: 1,
+};
+
+const KNOWN_TOOLS = [
+  'aws', 'azure', 'gcp', 'google cloud', 'docker', 'kubernetes', 'terraform', 'ansible', 'jenkins',
+  'github actions', 'gitlab', 'git', 'jira', 'confluence', 'salesforce', 'hubspot', 'sap', 'oracle',
+  'excel', 'power bi', 'tableau', 'looker', 'sql', 'mysql', 'postgresql', 'mongodb', 'redis',
+  'snowflake', 'databricks', 'spark', 'hadoop', 'kafka', 'airflow', 'python', 'java', 'javascript',
+  'typescript', 'react', 'angular', 'vue', 'node.js', 'next.js', 'graphql', 'rest api', 'c++', 'c#',
+  '.net', 'golang', 'rust', 'ruby', 'rails', 'php', 'swift', 'kotlin', 'scala', 'matlab',
+  'django', 'flask', 'spring', 'linux', 'figma', 'sketch', 'photoshop', 'illustrator', 'autocad',
+  'solidworks', 'quickbooks', 'workday', 'servicenow', 'zendesk', 'google analytics', 'pandas',
+  'tensorflow', 'pytorch', 'scikit-learn', 'html', 'css', 'ci/cd',
+];
+
+const KNOWN_SKILLS = [
+  'project management', 'product management', 'program management', 'stakeholder management',
+  'change management', 'risk management', 'vendor management', 'people management',
+  'data analysis', 'data analytics', 'data visualization', 'data modeling', 'data engineering',
+  'machine learning', 'deep learning', 'natural language processing', 'computer vision',
+  'statistical analysis', 'financial modeling', 'forecasting', 'budgeting', 'reporting',
+  'agile', 'scrum', 'kanban', 'lean', 'devops', 'microservices', 'cloud computing',
+  'system design', 'software development', 'unit testing', 'test automation', 'quality assurance',
+  'user research', 'ux design', 'ui design', 'seo', 'content strategy', 'digital marketing',
+  'customer success', 'account management', 'business development', 'negotiation', 'sales',
+  'communication', 'leadership', 'mentoring', 'problem solving', 'critical thinking',
+  'teamwork', 'collaboration', 'time management', 'presentation', 'cross-functional',
+  'troubleshooting', 'documentation', 'compliance', 'auditing', 'cybersecurity',
+];
+
+const KNOWN_CERTIFICATIONS = [
+  'pmp', 'capm', 'prince2', 'csm', 'psm', 'itil', 'cissp', 'cism', 'cisa', 'ceh',
+  'comptia security+', 'comptia a+', 'comptia network+', 'ccna', 'ccnp', 'cpa', 'cfa', 'acca',
+  'cima', 'six sigma', 'lean six sigma', 'aws certified solutions architect', 'aws certified',
+  'azure certified', 'google certified', 'scrum master', 'product owner', 'shrm-cp', 'phr',
+];
+
+// Abbreviations and alternative spellings that count as the same keyword. Keywords found under
+// one of these names are reported by the canonical term on the left.
+const SYNONYMS: Record<string, string[]> = {
+  'aws': ['amazon web services'],
+  'kubernetes': ['k8s'],
+  'javascript': ['ecmascript'],
+  'postgresql': ['postgres'],
+  'node.js': ['nodejs'],
+  'next.js': ['nextjs'],
+  'golang': ['go lang'],
+  'ci/cd': ['continuous integration', 'continuous delivery'],
+  'machine learning': ['ml'],
+  'natural language processing': ['nlp'],
+  'ux design': ['user experience design'],
+  'ui design': ['user interface design'],
+  'seo': ['search engine optimization'],
+  'quality assurance': ['qa'],
+};
+
+const CANONICAL_TERMS = new Map(Object.entries(SYNONYMS).flatMap(([term, aliases]) => aliases.map(alias => [alias, term])));
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'above', 'across', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'been', 'being', 'both', 'but', 'by', 'can', 'candidate', 'company', 'could', 'day', 'do',
+  'does', 'each', 'either', 'etc', 'experience', 'for', 'from', 'great', 'has', 'have', 'help',
+  'high', 'highly', 'how', 'ideal', 'if', 'in', 'including', 'into', 'is', 'it', 'its', 'job',
+  'join', 'just', 'key', 'like', 'looking', 'make', 'may', 'more', 'most', 'must', 'new', 'nice',
+  'not', 'of', 'on', 'one', 'or', 'other', 'our', 'out', 'over', 'per', 'plus', 'preferred',
+  'required', 'requirements', 'responsibilities', 'role', 'should', 'skills', 'so', 'some',
+  'strong', 'such', 'team', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'through', 'to', 'up', 'us', 'use', 'using', 'very', 'we', 'well',
+  'were', 'what', 'when', 'where', 'which', 'while', 'who', 'will', 'with', 'within', 'work',
+  'working', 'would', 'year', 'years', 'you', 'your',
+]);
+
+// Uppercase tokens that look like acronyms but carry no keyword value.
+const IGNORED_ACRONYMS = new Set(['US', 'USA', 'UK', 'EU', 'EOE', 'OR', 'AND', 'THE', 'FAQ', 'AM', 'PM', 'HR', 'CV', 'ID']);
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Normalizes text for matching: lowercases, unifies quotes and dashes, and collapses whitespace.
+ */
+export const normalizeForMatching = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[‐-―]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Returns true if `term` appears in `normalizedText` as a whole word or phrase.
+ * A trailing plural "s" on the final word is tolerated. Synonyms are not considered.
+ */
+export const containsTerm = (normalizedText: string, term: string): boolean => {
+  const pattern = escapeRegExp(term).replace(/ /g, '[\\s-]+');
+  return new RegExp(`(?<![a-z0-9+#])${pattern}s?(?![a-z0-9+#])`).test(normalizedText);
+};
+
+/** Like `containsTerm`, but also accepts any synonym of the term. */
+const mentionsTerm = (normalizedText: string, term: string): boolean =>
+  [term, ...(SYNONYMS[term] || [])].some(t => containsTerm(normalizedText, t));
+
+const tokenize = (normalizedText: string): string[] =>
+  normalizedText.split(/[^a-z0-9+#.\-/]+/).map(t => t.replace(/^[.\-/]+|[.\-/]+$/g, '')).filter(Boolean);
+
+/**
+ * Finds recurring multi-word phrases (2-3 words) in the job description that are not
+ * already covered by the known dictionaries.
+ */
+const extractRecurringPhrases = (normalizedText: string, known: Set<string>): string[] => {
+  const counts = new Map<string, number>();
+  // Split on sentence-level punctuation so phrases never span clauses.
+  for (const clause of normalizedText.split(/[.,;:!?()\n•·|]+/)) {
+    const tokens = tokenize(clause);
+    for (let size = 2; size <= 3; size++) {
+      for (let i = 0; i + size <= tokens.length; i++) {
+        const words = tokens.slice(i, i + size);
+        if (STOP_WORDS.has(words[0]) || STOP_WORDS.has(words[words.length - 1])) continue;
+        if (words.some(w => /^\d+$/.test(w) || w.length < 2)) continue;
+        const phrase = words.join(' ');
+        counts.set(phrase, (counts.get(phrase) || 0) + 1);
+      }
+    }
+  }
+
+  const phrases = [...counts.entries()]
+    .filter(([phrase, count]) => count >= 2 && !known.has(phrase))
+    .sort((a, b) => b[1] - a[1] || b[0].length - a[0].length)
+    .map(([phrase]) => phrase);
+
+  // Drop phrases that are fragments of a longer phrase we already kept.
+  const kept: string[] = [];
+  for (const phrase of phrases) {
+    if (!kept.some(k => k.includes(phrase) || phrase.includes(k))) kept.push(phrase);
+  }
+  return kept.slice(0, 15);
+};
+
+const extractAcronyms = (rawText: string): string[] => {
+  const matches = rawText.match(/\b[A-Z][A-Z0-9]{1,5}\b/g) || [];
+  return [...new Set(matches)].filter(a => !IGNORED_ACRONYMS.has(a)).map(a => a.toLowerCase());
+};
+
+/**
+ * Extracts weighted keywords (certifications, tools, skills and recurring phrases)
+ * from a job description. The result is deterministic for a given input.
+ */
+export function extractJobKeywords(jobDescription: string): JobKeyword[] {
+  const normalized = normalizeForMatching(jobDescription);
+  const keywords = new Map<string, JobKeyword>();
+
+  const add = (found: string, category: KeywordCategory) => {
+    const term = CANONICAL_TERMS.get(found) ?? found;
+    if (keywords.has(term)) return;
+    // Skip a shorter term if a longer keyword already contains it (e.g. "aws" vs "aws certified").
+    for (const existing of keywords.keys()) {
+      if (existing.includes(term) && containsTerm(existing, term)) return;
+    }
+    keywords.set(term, { term, category, weight: CATEGORY_WEIGHTS[category] });
+  };
+
+  // Longest terms first so that specific certifications win over generic tools.
+  const byLength = (a: string, b: string) => b.length - a.length;
+  KNOWN_CERTIFICATIONS.filter(t => mentionsTerm(normalized, t)).sort(byLength).forEach(t => add(t, 'certification'));
+  (normalized.match(/\bcertified [a-z][a-z ]{2,40}?(?= (?:or|and|is|are|a|an|the|required|preferred)\b|[,.;)]|$)/g) || [])
+    .map(c => c.trim())
+    .forEach(c => add(c, 'certification'));
+  KNOWN_TOOLS.filter(t => mentionsTerm(normalized, t)).sort(byLength).forEach(t => add(t, 'tool'));
+  KNOWN_SKILLS.filter(t => mentionsTerm(normalized, t)).sort(byLength).forEach(t => add(t, 'skill'));
+  extractAcronyms(jobDescription).forEach(a => add(a, 'tool'));
+  extractRecurringPhrases(normalized, new Set(keywords.keys())).forEach(p => add(p, 'phrase'));
+
+  return [...keywords.values()];
+}
+
+/**
+ * Flattens structured CV data into plain text for keyword matching.
+ */
+export function cvDataToPlainText(cvData: CvData): string {
+  const parts: string[] = [cvData.fullName, cvData.summary];
+  for (const job of cvData.workExperience || []) {
+    parts.push(job.jobTitle, job.company, job.location, ...(job.responsibilities || []));
+  }
+  for (const edu of cvData.education || []) {
+    parts.push(edu.institution, edu.degree, edu.gpa || '', edu.honors || '');
+  }
+  parts.push(...allSkills(cvData));
+  for (const project of cvData.projects || []) parts.push(project.name, project.description);
+  for (const cert of cvData.certifications || []) parts.push(cert.name, cert.issuer);
+  for (const language of cvData.languages || []) parts.push(language.language, language.proficiency);
+  for (const publication of cvData.publications || []) parts.push(publication.title, publication.publisher);
+  for (const award of cvData.awards || []) parts.push(award.title, award.issuer);
+  for (const work of cvData.volunteering || []) parts.push(work.role, work.organization, ...(work.responsibilities || []));
+  return parts.filter(Boolean).join('\n');
+}
+
+/**
+ * Scores a CV's text against a set of job keywords.
+ */
+export function scoreText(cvText: string, keywords: JobKeyword[]): MatchResult {
+  const normalized = normalizeForMatching(cvText);
+  const matched: JobKeyword[] = [];
+  const missing: JobKeyword[] = [];
+  for (const keyword of keywords) {
+    (mentionsTerm(normalized, keyword.term) ? matched : missing).push(keyword);
+  }
+  const total = keywords.reduce((sum, k) => sum + k.weight, 0);
+  const hit = matched.reduce((sum, k) => sum + k.weight, 0);
+  const score = total === 0 ? 0 : Math.round((hit / total) * 100);
+  return { score, matched, missing };
+}
+
+/**
+ * Scores the original CV text and the optimized CV against the same job description
+ * and reports the change in match percentage.
+ */
+export function compareCvMatch(originalCvText: string, optimizedCv: CvData, jobDescription: string): MatchComparison {
+  const keywords = extractJobKeywords(jobDescription);
+  const before = scoreText(originalCvText, keywords);
+  const after = scoreText(cvDataToPlainText(optimizedCv), keywords);
+  return { keywords, before, after, delta: after.score - before.score };
+}
+
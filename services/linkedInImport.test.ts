@@ -0,0 +1,57 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { fromLinkedInExport, importLinkedInZip, parseCsv } from './linkedInImport';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, quotes and line breaks', () => {
+    expect(parseCsv('Name,Description\r\n"Acme, Inc.","Said ""hi""\nand left"\r\nGlobex,\n')).toEqual([
+      ['Name', 'Description'],
+      ['Acme, Inc.', 'Said "hi"\nand left'],
+      ['Globex', ''],
+    ]);
+  });
+
+  it('skips blank rows and keeps a last row without a line break', () => {
+    expect(parseCsv('a,b\n\n,\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+const PROFILE = 'First Name,Last Name,Headline,Summary,Geo Location,Websites\nJane,Doe,Engineer,,Berlin,"[PORTFOLIO:https://jane.dev],[OTHER:https://www.linkedin.com/in/janedoe]"\n';
+const POSITIONS = 'Company Name,Title,Description,Location,Started On,Finished On\nAcme,Engineer,"- Built the API\n- Ran the on-call rota",Berlin,Jan 2020,\n';
+
+describe('fromLinkedInExport', () => {
+  it('maps the profile, positions and contact files', () => {
+    const cv = fromLinkedInExport({
+      profile: `﻿${PROFILE}`,
+      positions: POSITIONS,
+      emails: 'Email Address,Confirmed,Primary\nold@example.com,Yes,No\njane@example.com,Yes,Yes\n',
+      skills: 'Name\nGo\nSQL\n',
+    });
+    expect(cv.fullName).toBe('Jane Doe');
+    expect(cv.summary).toBe('Engineer');
+    expect(cv.contactInfo).toEqual({ email: 'jane@example.com', phone: '', linkedin: 'https://www.linkedin.com/in/janedoe', location: 'Berlin' });
+    expect(cv.workExperience).toEqual([{
+      jobTitle: 'Engineer', company: 'Acme', location: 'Berlin', dates: 'Jan 2020 - Present',
+      responsibilities: ['Built the API', 'Ran the on-call rota'],
+    }]);
+    expect(cv.skills).toEqual(['Go', 'SQL']);
+  });
+
+  it('finds the header below a notes preamble', () => {
+    const cv = fromLinkedInExport({ positions: `Notes:\n"Positions you have held"\n\n${POSITIONS}` });
+    expect(cv.workExperience.map(job => job.company)).toEqual(['Acme']);
+  });
+});
+
+describe('importLinkedInZip', () => {
+  it('reads the export files from any folder and ignores other archives', async () => {
+    const zip = new JSZip();
+    zip.file('Basic_LinkedInDataExport/Profile.csv', PROFILE);
+    zip.file('Basic_LinkedInDataExport/Positions.csv', POSITIONS);
+    const cv = await importLinkedInZip(await zip.generateAsync({ type: 'arraybuffer' }));
+    expect(cv?.fullName).toBe('Jane Doe');
+
+    const other = new JSZip().file('notes.txt', 'hello');
+    expect(await importLinkedInZip(await other.generateAsync({ type: 'arraybuffer' }))).toBeNull();
+  });
+});
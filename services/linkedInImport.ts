@@ -0,0 +1,187 @@
+import JSZip from 'jszip';
+import { cvSchema, CvData } from './geminiService';
+import { validateAgainstSchema } from './schemaValidator';
+
+// Maps the CSV files of a LinkedIn data export ("Get a copy of your data") onto CvData.
+// Only the files that describe the profile are read; everything else in the archive is ignored.
+
+type CsvRow = Record<string, string>;
+
+/** Parses RFC 4180 CSV, including quoted fields that contain commas, quotes or line breaks. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// Some export files start with a "Notes:" preamble, so the header is the first row containing `keyColumn`.
+const readTable = (text: string | undefined, keyColumn: string): CsvRow[] => {
+  if (!text) return [];
+  const rows = parseCsv(text.replace(/^\ufeff/, ''));
+  const headerIndex = rows.findIndex(r => r.some(cell => cell.trim() === keyColumn));
+  if (headerIndex === -1) return [];
+  const header = rows[headerIndex].map(cell => cell.trim());
+  return rows.slice(headerIndex + 1).map(r =>
+    Object.fromEntries(header.map((column, i) => [column, (r[i] || '').trim()]))
+  );
+};
+
+const toBullets = (description: string): string[] =>
+  description
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*(?:[-*•▪●]|\d+[.)])\s*/, '').trim())
+    .filter(Boolean);
+
+const formatDates = (start: string, end: string, openEnded: boolean): string =>
+  [start, end || (openEnded && start ? 'Present' : '')].filter(Boolean).join(' - ');
+
+/** The export files we read, keyed by file name without folders. */
+export interface LinkedInExportFiles {
+  profile?: string;
+  positions?: string;
+  education?: string;
+  skills?: string;
+  emails?: string;
+  phones?: string;
+  projects?: string;
+  certifications?: string;
+  languages?: string;
+  publications?: string;
+  honors?: string;
+  volunteering?: string;
+}
+
+/** Converts the contents of LinkedIn export CSV files to CvData. */
+export function fromLinkedInExport(files: LinkedInExportFiles): CvData {
+  const profile = readTable(files.profile, 'First Name')[0] || {};
+  const emails = readTable(files.emails, 'Email Address');
+  const primaryEmail = emails.find(e => /^yes$/i.test(e['Primary'] || '')) || emails[0];
+  const phone = readTable(files.phones, 'Number')[0];
+  // LinkedIn stores websites as "[PORTFOLIO:https://...]"; the export has no profile URL of its own.
+  const linkedin = (profile['Websites'] || '').match(/https?:\/\/[^\s,\]]*linkedin\.com[^\s,\]]*/i)?.[0] || '';
+
+  const cvData: CvData = {
+    fullName: [profile['First Name'], profile['Last Name']].filter(Boolean).join(' '),
+    contactInfo: {
+      email: primaryEmail?.['Email Address'] || '',
+      phone: phone?.['Number'] || '',
+      linkedin,
+      location: profile['Geo Location'] || '',
+    },
+    summary: profile['Summary'] || profile['Headline'] || '',
+    workExperience: readTable(files.positions, 'Company Name').map(position => ({
+      jobTitle: position['Title'] || '',
+      company: position['Company Name'] || '',
+      location: position['Location'] || '',
+      dates: formatDates(position['Started On'] || '', position['Finished On'] || '', true),
+      responsibilities: toBullets(position['Description'] || ''),
+    })),
+    education: readTable(files.education, 'School Name').map(school => ({
+      institution: school['School Name'] || '',
+      degree: school['Degree Name'] || '',
+      dates: formatDates(school['Start Date'] || '', school['End Date'] || '', false),
+    })),
+    skills: readTable(files.skills, 'Name').map(skill => skill['Name']).filter(Boolean),
+    projects: readTable(files.projects, 'Title').map(project => ({
+      name: project['Title'] || '',
+      dates: formatDates(project['Started On'] || '', project['Finished On'] || '', false),
+      url: project['Url'] || '',
+      description: project['Description'] || '',
+    })),
+    certifications: readTable(files.certifications, 'Authority').map(cert => ({
+      name: cert['Name'] || '',
+      issuer: cert['Authority'] || '',
+      date: cert['Started On'] || '',
+    })),
+    languages: readTable(files.languages, 'Proficiency').map(language => ({
+      language: language['Name'] || '',
+      proficiency: language['Proficiency'] || '',
+    })),
+    publications: readTable(files.publications, 'Publisher').map(publication => ({
+      title: publication['Name'] || '',
+      publisher: publication['Publisher'] || '',
+      date: publication['Published On'] || '',
+      url: publication['Url'] || '',
+    })),
+    awards: readTable(files.honors, 'Title').map(honor => ({
+      title: honor['Title'] || '',
+      issuer: '',
+      date: honor['Issued On'] || '',
+    })),
+    volunteering: readTable(files.volunteering, 'Role').map(work => ({
+      role: work['Role'] || '',
+      organization: work['Company Name'] || '',
+      dates: formatDates(work['Started On'] || '', work['Finished On'] || '', true),
+      responsibilities: toBullets(work['Description'] || ''),
+    })),
+  };
+
+  return validateAgainstSchema<CvData>(cvData, cvSchema).value;
+}
+
+const EXPORT_FILE_NAMES: Record<keyof LinkedInExportFiles, string> = {
+  profile: 'profile.csv',
+  positions: 'positions.csv',
+  education: 'education.csv',
+  skills: 'skills.csv',
+  emails: 'email addresses.csv',
+  phones: 'phonenumbers.csv',
+  projects: 'projects.csv',
+  certifications: 'certifications.csv',
+  languages: 'languages.csv',
+  publications: 'publications.csv',
+  honors: 'honors.csv',
+  volunteering: 'volunteering.csv',
+};
+
+/**
+ * Reads a LinkedIn data export ZIP. Returns null if the archive contains neither the profile
+ * nor the positions file, e.g. because a different ZIP was uploaded.
+ */
+export async function importLinkedInZip(data: ArrayBuffer): Promise<CvData | null> {
+  const zip = await JSZip.loadAsync(data);
+  const entriesByName = new Map<string, JSZip.JSZipObject>();
+  zip.forEach((path, entry) => {
+    if (!entry.dir) entriesByName.set(path.split('/').pop()!.toLowerCase(), entry);
+  });
+
+  const files: LinkedInExportFiles = {};
+  for (const [key, fileName] of Object.entries(EXPORT_FILE_NAMES) as [keyof LinkedInExportFiles, string][]) {
+    files[key] = await entriesByName.get(fileName)?.async('string');
+  }
+  if (!files.profile && !files.positions) return null;
+  return fromLinkedInExport(files);
+}
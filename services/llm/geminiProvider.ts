@@ -0,0 +1,63 @@
+import { ApiError, GoogleGenAI, Schema, Type } from "@google/genai";
+import { GenerateRequest, LlmConfigurationError, LlmProvider, LlmRateLimitError, SchemaNode } from './types';
+
+const toGeminiSchema = (node: SchemaNode): Schema => ({
+  type: node.type.toUpperCase() as Type,
+  ...(node.description && { description: node.description }),
+  ...(node.properties && {
+    properties: Object.fromEntries(Object.entries(node.properties).map(([key, child]) => [key, toGeminiSchema(child)])),
+  }),
+  ...(node.items && { items: toGeminiSchema(node.items) }),
+  ...(node.required && { required: node.required }),
+});
+
+export function createGeminiProvider(options: { apiKey?: string; model?: string }): LlmProvider {
+  const model = options.model || 'gemini-2.5-flash';
+  let ai: GoogleGenAI | null = null;
+
+  // The client is created on first use so that a missing key surfaces as an error in the UI
+  // instead of preventing the app from loading.
+  const getClient = (): GoogleGenAI => {
+    if (!options.apiKey) {
+      throw new LlmConfigurationError("The Gemini API key is not configured. Set GEMINI_API_KEY in your environment, or choose a different LLM_PROVIDER.");
+    }
+    if (!ai) ai = new GoogleGenAI({ apiKey: options.apiKey });
+    return ai;
+  };
+
+  return {
+    name: `gemini (${model})`,
+    async generate(request: GenerateRequest): Promise<string> {
+      const imageParts = (request.images || []).map((img) => ({
+        inlineData: { data: img.data, mimeType: img.mimeType },
+      }));
+      const params = {
+        model,
+        contents: imageParts.length > 0 ? { parts: [{ text: request.prompt }, ...imageParts] } : request.prompt,
+        config: {
+          abortSignal: request.signal,
+          ...(request.responseSchema && { responseMimeType: "application/json", responseSchema: toGeminiSchema(request.responseSchema) }),
+        },
+      };
+      try {
+        if (!request.onText) {
+          const response = await getClient().models.generateContent(params);
+          return response.text ?? '';
+        }
+        let text = '';
+        for await (const chunk of await getClient().models.generateContentStream(params)) {
+          request.signal?.throwIfAborted();
+          text += chunk.text ?? '';
+          request.onText(text);
+        }
+        return text;
+      } catch (error) {
+        if (request.signal?.aborted) throw request.signal.reason;
+        if (error instanceof ApiError && error.status === 429) {
+          throw new LlmRateLimitError("The Gemini API rate limit or quota was reached. Please wait a moment and try again.");
+        }
+        throw error;
+      }
+    },
+  };
+}
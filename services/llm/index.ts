@@ -0,0 +1,58 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { LlmConfigurationError, LlmProvider } from './types';
+
+export * from './types';
+export { createGeminiProvider, createMockProvider, createOpenAiCompatibleProvider };
+export { MOCK_FIXTURES } from './mockProvider';
+
+export type LlmProviderName = 'gemini' | 'openai' | 'mock';
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+/**
+ * Reads the provider configuration from the environment:
+ * LLM_PROVIDER (gemini | openai | mock, default gemini), LLM_MODEL, LLM_BASE_URL,
+ * LLM_API_KEY, and API_KEY for Gemini.
+ */
+export function readLlmConfig(): LlmConfig {
+  const provider = (process.env.LLM_PROVIDER || 'gemini').toLowerCase() as LlmProviderName;
+  return {
+    provider,
+    model: process.env.LLM_MODEL || undefined,
+    apiKey: (provider === 'gemini' ? process.env.API_KEY : process.env.LLM_API_KEY) || undefined,
+    baseUrl: process.env.LLM_BASE_URL || undefined,
+  };
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiProvider({ apiKey: config.apiKey, model: config.model });
+    case 'openai':
+      return createOpenAiCompatibleProvider({ baseUrl: config.baseUrl, model: config.model, apiKey: config.apiKey });
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new LlmConfigurationError(`Unknown LLM_PROVIDER "${config.provider}". Use "gemini", "openai" or "mock".`);
+  }
+}
+
+let activeProvider: LlmProvider | null = null;
+
+/** Returns the provider used by the CV services, creating it from the environment on first use. */
+export function getLlmProvider(): LlmProvider {
+  if (!activeProvider) activeProvider = createLlmProvider(readLlmConfig());
+  return activeProvider;
+}
+
+/** Replaces the provider used by the CV services, e.g. with a mock in tests or scripts. */
+export function setLlmProvider(provider: LlmProvider): void {
+  activeProvider = provider;
+}
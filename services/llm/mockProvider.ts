@@ -0,0 +1,110 @@
+import { GenerateRequest, LlmProvider, LlmTask } from './types';
+
+// Fixed responses for each task. They are plain data so that tests and scripted runs
+// can rely on exactly what the "model" returns.
+export const MOCK_FIXTURES: Record<LlmTask, unknown> = {
+  'optimize-cv': {
+    fullName: 'Jane Doe',
+    contactInfo: {
+      email: 'jane.doe@example.com',
+      phone: '+1 555 0100',
+      linkedin: 'https://www.linkedin.com/in/janedoe',
+      location: 'San Francisco, CA',
+    },
+    summary: 'Software engineer with 6 years of experience building scalable web applications in TypeScript and Python, with a focus on cloud infrastructure and developer productivity.',
+    workExperience: [
+      {
+        jobTitle: 'Senior Software Engineer',
+        company: 'Acme Corp',
+        location: 'San Francisco, CA',
+        dates: 'May 2020 - Present',
+        responsibilities: [
+          'Led the migration of 12 services to Kubernetes, cutting deployment time by 40%.',
+          'Designed a TypeScript API gateway serving 2M requests per day.',
+          'Mentored 4 engineers and introduced code review guidelines adopted team-wide.',
+        ],
+      },
+      {
+        jobTitle: 'Software Engineer',
+        company: 'Globex',
+        location: 'Austin, TX',
+        dates: 'Jun 2017 - Apr 2020',
+        responsibilities: [
+          'Built data pipelines in Python processing 500GB of events daily.',
+          'Reduced page load time by 30% through caching and query optimization.',
+        ],
+      },
+    ],
+    education: [
+      { institution: 'University of Texas at Austin', degree: 'Bachelor of Science in Computer Science', dates: '2013 - 2017' },
+    ],
+    skills: ['TypeScript', 'Python', 'Kubernetes', 'AWS', 'PostgreSQL', 'CI/CD'],
+    certifications: [
+      { name: 'AWS Certified Solutions Architect - Associate', issuer: 'Amazon Web Services', date: '2021' },
+    ],
+    languages: [
+      { language: 'English', proficiency: 'Native' },
+      { language: 'Spanish', proficiency: 'Professional working proficiency' },
+    ],
+  },
+  'regenerate-section': {
+    candidates: [
+      { lines: ['Delivered measurable improvements across the team.'] },
+      { lines: ['Drove key initiatives with quantifiable results.'] },
+      { lines: ['Owned end-to-end delivery of high-impact projects.'] },
+    ],
+  },
+  'analyze-job': {
+    title: 'Senior Software Engineer',
+    seniority: 'Senior',
+    yearsOfExperience: '5+ years',
+    requiredSkills: ['TypeScript', 'Kubernetes', 'AWS', 'CI/CD'],
+    preferredSkills: ['Python', 'PostgreSQL', 'Mentoring'],
+    certifications: ['AWS Certified Solutions Architect'],
+    education: "Bachelor's degree in Computer Science or equivalent experience",
+    location: 'San Francisco, CA',
+    workArrangement: 'Hybrid',
+    responsibilities: [
+      'Design and operate scalable backend services.',
+      'Improve deployment pipelines and developer tooling.',
+      'Mentor engineers and lead code reviews.',
+    ],
+  },
+  'cover-letter': {
+    greeting: 'Dear Hiring Manager,',
+    paragraphs: [
+      'I am excited to apply for the Senior Software Engineer position. Building reliable platforms that help engineering teams ship faster has been the focus of my last six years.',
+      'At Acme Corp I led the migration of 12 services to Kubernetes, cutting deployment time by 40%, and designed a TypeScript API gateway that serves 2M requests per day.',
+      'My experience with TypeScript, Python, AWS and CI/CD, together with mentoring engineers and shaping code review practices, matches the requirements of this role closely.',
+      'I would welcome the opportunity to discuss how I can contribute to your team.',
+    ],
+    closing: 'Kind regards,',
+  },
+  'extract-text': 'Jane Doe\nSoftware Engineer\njane.doe@example.com\n\nExperience\nAcme Corp — Senior Software Engineer, May 2020 - Present',
+};
+
+/**
+ * Deterministic provider that answers every request from fixtures without any network access.
+ * Pass `fixtures` to override the response for specific tasks.
+ */
+export function createMockProvider(fixtures: Partial<Record<LlmTask, unknown>> = {}): LlmProvider {
+  const responses = { ...MOCK_FIXTURES, ...fixtures };
+  return {
+    name: 'mock',
+    async generate(request: GenerateRequest): Promise<string> {
+      request.signal?.throwIfAborted();
+      const response = responses[request.task];
+      const text = typeof response === 'string' ? response : JSON.stringify(response);
+      if (request.onText) {
+        // Stream in a few chunks so progress reporting can be exercised.
+        const chunkSize = Math.ceil(text.length / 8);
+        for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+          await Promise.resolve();
+          request.signal?.throwIfAborted();
+          request.onText(text.slice(0, end));
+        }
+      }
+      return text;
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import { GenerateRequest, LlmConfigurationError, LlmProvider, LlmRateLimitError } from './types';
+
+interface OpenAiCompatibleOptions {
+  /** Base URL of the API, e.g. `http://localhost:11434/v1` for Ollama or `http://localhost:8080/v1` for llama.cpp. */
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+  error?: { message?: string };
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+}
+
+// Reads a streamed chat completion (server-sent events), reporting the text received so far.
+async function readStream(body: ReadableStream<Uint8Array>, onText: (textSoFar: string) => void): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop()!;
+    for (const line of lines) {
+      const data = line.match(/^data:\s*(.*)$/)?.[1];
+      if (!data || data === '[DONE]') continue;
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+    if (done) return text;
+  }
+}
+
+// Talks to any server implementing the OpenAI chat completions API, including local
+// llama.cpp and Ollama servers.
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): LlmProvider {
+  const baseUrl = (options.baseUrl || '').replace(/\/+$/, '');
+
+  return {
+    name: `openai-compatible (${options.model || 'default model'} @ ${baseUrl || 'unconfigured'})`,
+    async generate(request: GenerateRequest): Promise<string> {
+      if (!baseUrl) {
+        throw new LlmConfigurationError("The LLM endpoint is not configured. Set LLM_BASE_URL to your OpenAI-compatible server, e.g. http://localhost:11434/v1.");
+      }
+
+      const content = request.images && request.images.length > 0
+        ? [
+            { type: 'text', text: request.prompt },
+            ...request.images.map(img => ({ type: 'image_url', image_url: { url: `data:${img.mimeType};base64,${img.data}` } })),
+          ]
+        : request.prompt;
+
+      const body: Record<string, unknown> = {
+        model: options.model,
+        messages: [{ role: 'user', content }],
+        temperature: 0.4,
+        stream: !!request.onText,
+      };
+      if (request.responseSchema) {
+        body.response_format = {
+          type: 'json_schema',
+          json_schema: { name: request.task.replace(/-/g, '_'), schema: request.responseSchema },
+        };
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+        },
+        body: JSON.stringify(body),
+        signal: request.signal,
+      });
+
+      if (response.ok && request.onText && response.body) {
+        return readStream(response.body, request.onText);
+      }
+      const data = await response.json().catch(() => ({})) as ChatCompletionResponse;
+      if (!response.ok) {
+        if (response.status === 401 || response.status === 403) {
+          throw new Error('API key not valid for the configured LLM endpoint.');
+        }
+        if (response.status === 429) {
+          const retryAfter = Number(response.headers.get('Retry-After'));
+          throw new LlmRateLimitError(
+            'The LLM endpoint is rate limiting requests. Please wait a moment and try again.',
+            retryAfter > 0 ? retryAfter * 1000 : undefined,
+          );
+        }
+        throw new Error(`LLM endpoint returned ${response.status}: ${data.error?.message || response.statusText}`);
+      }
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+  };
+}
@@ -0,0 +1,61 @@
+// Provider-neutral description of a structured response. Providers translate it
+// into their own schema format (Gemini `Type` schemas, JSON Schema, ...).
+export interface SchemaNode {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+  required?: string[];
+}
+
+// Identifies what a request is for. Real providers ignore it; the mock provider uses it to pick a fixture.
+export type LlmTask = 'optimize-cv' | 'regenerate-section' | 'extract-text' | 'analyze-job' | 'cover-letter';
+
+export interface LlmImage {
+  /** Base64-encoded image data without the data URL prefix. */
+  data: string;
+  mimeType: string;
+}
+
+export interface GenerateRequest {
+  task: LlmTask;
+  prompt: string;
+  images?: LlmImage[];
+  /** When set, the provider must answer with a JSON document matching this schema. */
+  responseSchema?: SchemaNode;
+  /** Cancels the request. The provider rejects with the signal's reason. */
+  signal?: AbortSignal;
+  /**
+   * When set, the answer is streamed and this is called with all text received so far after each
+   * chunk. The promise still resolves with the complete text.
+   */
+  onText?: (textSoFar: string) => void;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  /** Returns the raw text of the model's answer (a JSON string when `responseSchema` is set). */
+  generate(request: GenerateRequest): Promise<string>;
+}
+
+/**
+ * Thrown when a provider cannot be used because of missing or invalid configuration.
+ * The message is meant to be shown to the user as-is.
+ */
+export class LlmConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlmConfigurationError';
+  }
+}
+
+/**
+ * Thrown when the provider rejects a request because of rate limits or quota (HTTP 429).
+ * Callers that send many requests can wait and retry; `retryAfterMs` is the provider's hint, if any.
+ */
+export class LlmRateLimitError extends Error {
+  constructor(message: string, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'LlmRateLimitError';
+  }
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { formatDateText } from './locales';
+
+describe('formatDateText', () => {
+  it('rewrites month and year ranges in the locale format', () => {
+    expect(formatDateText('May 2020 - Present', 'de-DE')).toBe('05/2020 - heute');
+    expect(formatDateText('Sept. 2018 - Jan 2020', 'fr-FR')).toBe('sept. 2018 - janv. 2020');
+    expect(formatDateText('05/2020 - heute', 'en-US')).toBe('May 2020 - Present');
+    expect(formatDateText('2016 - 2020', 'en-GB')).toBe('2016 - 2020');
+  });
+
+  it('reads month names in other languages', () => {
+    expect(formatDateText('März 2019 - Dezember 2021', 'en-US')).toBe('Mar 2019 - Dec 2021');
+    expect(formatDateText("janvier 2020 - aujourd'hui", 'en-US')).toBe('Jan 2020 - Present');
+  });
+
+  it('leaves dates with other words as written', () => {
+    expect(formatDateText('Summer 2019', 'en-US')).toBe('Summer 2019');
+    expect(formatDateText('Spring 2018 - Fall 2019', 'de-DE')).toBe('Spring 2018 - Fall 2019');
+    expect(formatDateText('Graduated May 2020', 'de-DE')).toBe('Graduated May 2020');
+    expect(formatDateText('2020 - Marketing', 'de-DE')).toBe('2020 - Marketing');
+  });
+});
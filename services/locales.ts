@@ -0,0 +1,239 @@
+import { monthFromName, parseDateRange, PartialDate } from './dateRange';
+import type { PageSize } from './pdfExport';
+import { CvSectionId, SECTION_TITLES } from './templates';
+
+// Languages and regional conventions the CV can be written for. The model writes the content in
+// the locale's language; headings, dates and paper size are then applied locally, so they are
+// the same in the preview and every export.
+
+export type CvLanguage = 'en' | 'de' | 'fr' | 'es' | 'it' | 'nl';
+
+export type CvLocaleId = 'en-US' | 'en-GB' | 'de-DE' | 'de-AT' | 'de-CH' | 'fr-FR' | 'es-ES' | 'it-IT' | 'nl-NL';
+
+export interface CvLocale {
+  id: CvLocaleId;
+  label: string;
+  language: CvLanguage;
+  pageSize: PageSize;
+  /** "May 2020" or "05/2020". */
+  dateStyle: 'month-name' | 'numeric';
+  /** How locations are written, e.g. "City, State". */
+  locationFormat: string;
+  /** True where a photo and date of birth are customary on a CV (German-speaking countries). */
+  personalDetails: boolean;
+}
+
+export const CV_LOCALES: CvLocale[] = [
+  { id: 'en-US', label: 'English (United States)', language: 'en', pageSize: 'letter', dateStyle: 'month-name', locationFormat: "City, State, e.g. 'San Francisco, CA'", personalDetails: false },
+  { id: 'en-GB', label: 'English (United Kingdom)', language: 'en', pageSize: 'a4', dateStyle: 'month-name', locationFormat: "City, Country, e.g. 'Manchester, UK'", personalDetails: false },
+  { id: 'de-DE', label: 'Deutsch (Deutschland)', language: 'de', pageSize: 'a4', dateStyle: 'numeric', locationFormat: "City, Country, e.g. 'München, Deutschland'", personalDetails: true },
+  { id: 'de-AT', label: 'Deutsch (Österreich)', language: 'de', pageSize: 'a4', dateStyle: 'numeric', locationFormat: "City, Country, e.g. 'Wien, Österreich'", personalDetails: true },
+  { id: 'de-CH', label: 'Deutsch (Schweiz)', language: 'de', pageSize: 'a4', dateStyle: 'numeric', locationFormat: "City, Country, e.g. 'Zürich, Schweiz'", personalDetails: true },
+  { id: 'fr-FR', label: 'Français (France)', language: 'fr', pageSize: 'a4', dateStyle: 'month-name', locationFormat: "City, Country, e.g. 'Lyon, France'", personalDetails: false },
+  { id: 'es-ES', label: 'Español (España)', language: 'es', pageSize: 'a4', dateStyle: 'month-name', locationFormat: "City, Country, e.g. 'Madrid, España'", personalDetails: false },
+  { id: 'it-IT', label: 'Italiano (Italia)', language: 'it', pageSize: 'a4', dateStyle: 'month-name', locationFormat: "City, Country, e.g. 'Milano, Italia'", personalDetails: false },
+  { id: 'nl-NL', label: 'Nederlands (Nederland)', language: 'nl', pageSize: 'a4', dateStyle: 'month-name', locationFormat: "City, Country, e.g. 'Utrecht, Nederland'", personalDetails: false },
+];
+
+export const DEFAULT_LOCALE_ID: CvLocaleId = 'en-US';
+
+/** The locale with the given id; CVs without a locale are US English. */
+export function getLocale(id?: CvLocaleId): CvLocale {
+  return CV_LOCALES.find(l => l.id === id) || CV_LOCALES[0];
+}
+
+export interface LanguageStrings {
+  /** English name of the language, for prompts. */
+  name: string;
+  sections: Record<CvSectionId, string>;
+  /** Skills that are not in a group. */
+  otherSkills: string;
+  gpa: string;
+  dateOfBirth: string;
+  nationality: string;
+  /** End of an open-ended date range. */
+  present: string;
+  months: string[];
+}
+
+const STRINGS: Record<CvLanguage, LanguageStrings> = {
+  en: {
+    name: 'English',
+    sections: SECTION_TITLES,
+    otherSkills: 'Other',
+    gpa: 'GPA',
+    dateOfBirth: 'Date of birth',
+    nationality: 'Nationality',
+    present: 'Present',
+    months: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+  },
+  de: {
+    name: 'German',
+    sections: {
+      summary: 'Profil',
+      experience: 'Berufserfahrung',
+      skills: 'Kenntnisse',
+      education: 'Ausbildung',
+      projects: 'Projekte',
+      certifications: 'Zertifikate',
+      languages: 'Sprachen',
+      publications: 'Publikationen',
+      awards: 'Auszeichnungen',
+      volunteering: 'Ehrenamtliches Engagement',
+    },
+    otherSkills: 'Weitere',
+    gpa: 'Note',
+    dateOfBirth: 'Geburtsdatum',
+    nationality: 'Staatsangehörigkeit',
+    present: 'heute',
+    months: ['Jan.', 'Feb.', 'März', 'Apr.', 'Mai', 'Juni', 'Juli', 'Aug.', 'Sept.', 'Okt.', 'Nov.', 'Dez.'],
+  },
+  fr: {
+    name: 'French',
+    sections: {
+      summary: 'Profil',
+      experience: 'Expérience professionnelle',
+      skills: 'Compétences',
+      education: 'Formation',
+      projects: 'Projets',
+      certifications: 'Certifications',
+      languages: 'Langues',
+      publications: 'Publications',
+      awards: 'Distinctions',
+      volunteering: 'Bénévolat',
+    },
+    otherSkills: 'Autres',
+    gpa: 'Moyenne',
+    dateOfBirth: 'Date de naissance',
+    nationality: 'Nationalité',
+    present: "aujourd'hui",
+    months: ['janv.', 'févr.', 'mars', 'avr.', 'mai', 'juin', 'juil.', 'août', 'sept.', 'oct.', 'nov.', 'déc.'],
+  },
+  es: {
+    name: 'Spanish',
+    sections: {
+      summary: 'Perfil profesional',
+      experience: 'Experiencia laboral',
+      skills: 'Competencias',
+      education: 'Formación',
+      projects: 'Proyectos',
+      certifications: 'Certificaciones',
+      languages: 'Idiomas',
+      publications: 'Publicaciones',
+      awards: 'Premios',
+      volunteering: 'Voluntariado',
+    },
+    otherSkills: 'Otras',
+    gpa: 'Nota media',
+    dateOfBirth: 'Fecha de nacimiento',
+    nationality: 'Nacionalidad',
+    present: 'actualidad',
+    months: ['ene.', 'feb.', 'mar.', 'abr.', 'may.', 'jun.', 'jul.', 'ago.', 'sept.', 'oct.', 'nov.', 'dic.'],
+  },
+  it: {
+    name: 'Italian',
+    sections: {
+      summary: 'Profilo professionale',
+      experience: 'Esperienza lavorativa',
+      skills: 'Competenze',
+      education: 'Istruzione',
+      projects: 'Progetti',
+      certifications: 'Certificazioni',
+      languages: 'Lingue',
+      publications: 'Pubblicazioni',
+      awards: 'Riconoscimenti',
+      volunteering: 'Volontariato',
+    },
+    otherSkills: 'Altre',
+    gpa: 'Voto',
+    dateOfBirth: 'Data di nascita',
+    nationality: 'Nazionalità',
+    present: 'oggi',
+    months: ['gen', 'feb', 'mar', 'apr', 'mag', 'giu', 'lug', 'ago', 'set', 'ott', 'nov', 'dic'],
+  },
+  nl: {
+    name: 'Dutch',
+    sections: {
+      summary: 'Profiel',
+      experience: 'Werkervaring',
+      skills: 'Vaardigheden',
+      education: 'Opleiding',
+      projects: 'Projecten',
+      certifications: 'Certificaten',
+      languages: 'Talen',
+      publications: 'Publicaties',
+      awards: 'Prijzen',
+      volunteering: 'Vrijwilligerswerk',
+    },
+    otherSkills: 'Overig',
+    gpa: 'Gemiddelde',
+    dateOfBirth: 'Geboortedatum',
+    nationality: 'Nationaliteit',
+    present: 'heden',
+    months: ['jan', 'feb', 'mrt', 'apr', 'mei', 'jun', 'jul', 'aug', 'sep', 'okt', 'nov', 'dec'],
+  },
+};
+
+export const localeStrings = (id?: CvLocaleId): LanguageStrings => STRINGS[getLocale(id).language];
+
+/** Heading of a CV section in the CV's language. */
+export const sectionTitle = (section: CvSectionId, id?: CvLocaleId): string => localeStrings(id).sections[section];
+
+// Frequent words of three letters or more that tell the CV languages apart. Shorter words are left
+// out: "e" and "y" also come from splitting "e-mail" or "y-axis", and "en" or "de" occur in several languages.
+const FUNCTION_WORDS: Record<CvLanguage, string[]> = {
+  en: ['the', 'and', 'with', 'for', 'from', 'into', 'using', 'across'],
+  de: ['und', 'der', 'die', 'das', 'mit', 'für', 'von', 'bei', 'den', 'dem', 'eine', 'sowie', 'durch'],
+  fr: ['les', 'des', 'pour', 'avec', 'dans', 'une', 'sur', 'aux', 'par'],
+  es: ['los', 'las', 'del', 'con', 'para', 'por', 'una', 'como', 'entre'],
+  it: ['della', 'dei', 'delle', 'per', 'nel', 'nella', 'gli', 'degli'],
+  nl: ['het', 'van', 'met', 'voor', 'bij', 'een', 'naar', 'zijn'],
+};
+
+// A language is only reported with at least this many hits, and twice as many as any other.
+const MIN_LANGUAGE_HITS = 5;
+
+/**
+ * The language a text is written in, going by its most common short words. Undefined when the
+ * text is too short or too mixed to tell, e.g. a CV of terse bullet points.
+ */
+export function detectLanguage(text: string): CvLanguage | undefined {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/\p{L}+(?:['-]\p{L}+)*/gu) || []) counts.set(word, (counts.get(word) || 0) + 1);
+  const [best, runnerUp] = (Object.keys(FUNCTION_WORDS) as CvLanguage[])
+    .map(language => ({ language, hits: FUNCTION_WORDS[language].reduce((sum, word) => sum + (counts.get(word) || 0), 0) }))
+    .sort((a, b) => b.hits - a.hits);
+  return best.hits >= MIN_LANGUAGE_HITS && best.hits >= 2 * runnerUp.hits ? best.language : undefined;
+}
+
+const formatPoint = (date: PartialDate, locale: CvLocale): string => {
+  if (!date.month) return String(date.year);
+  return locale.dateStyle === 'numeric'
+    ? `${String(date.month).padStart(2, '0')}/${date.year}`
+    : `${STRINGS[locale.language].months[date.month - 1]} ${date.year}`;
+};
+
+// Dates made only of months, years, an open end and a separator; anything with more words
+// (e.g. "Graduated May 2020" or "Summer 2019") is left as written.
+const DATE_POINT = String.raw`(?:[\p{L}]{3,10}\.?\s+\d{4}|\d{1,2}[/.]\d{4}|\d{4}(?:-\d{2})?)`;
+const RANGE_WORDS = ['to', 'bis', 'au', 'a', 'al', 'tot'];
+const PLAIN_DATE_TEXT = new RegExp(String.raw`^\s*${DATE_POINT}(\s*(?:[-–—]|${RANGE_WORDS.join('|')})\s*(?:${DATE_POINT}|[\p{L}' ]+))?\s*$`, 'iu');
+
+// True if every word is a month name, a range word or "present" ("heute", "aujourd'hui", ...).
+const hasOnlyDateWords = (text: string): boolean =>
+  (text.match(/\p{L}+(?:'\p{L}+)?/gu) || [])
+    .every(word => monthFromName(word) || RANGE_WORDS.includes(word.toLowerCase()) || parseDateRange(word).isCurrent);
+
+/** Rewrites a date or date range such as "May 2020 - Present" in the locale's format. */
+export function formatDateText(text: string, id?: CvLocaleId): string {
+  const match = PLAIN_DATE_TEXT.exec(text);
+  if (!match || !hasOnlyDateWords(text)) return text;
+  const locale = getLocale(id);
+  const { start, end, isCurrent } = parseDateRange(text);
+  if (!start && !end) return text;
+  // A range whose second half is neither a date nor "present" (e.g. "2020 - Marketing") is kept.
+  if (match[1] && !(start && end) && !isCurrent) return text;
+  const from = start ? formatPoint(start, locale) : '';
+  const to = isCurrent ? STRINGS[locale.language].present : end ? formatPoint(end, locale) : '';
+  return [from, to].filter(Boolean).join(' - ');
+}
@@ -0,0 +1,73 @@
+import type { Worker as TesseractWorker } from 'tesseract.js';
+import { extractTextFromImagesWithGemini } from './geminiService';
+
+// OCR engines for scanned pages. The AI engine sends the page image to the configured LLM
+// provider; the local engine runs Tesseract (WebAssembly) in the browser, so the image never
+// leaves the device. Both take a base64 JPEG and return the page text.
+
+export type OcrEngineId = 'ai' | 'local';
+
+export interface OcrPageResult {
+  text: string;
+  engine: OcrEngineId;
+  /** Mean word confidence from 0 to 100, when the engine reports one. */
+  confidence?: number;
+}
+
+export interface OcrEngine {
+  id: OcrEngineId;
+  /** Short description for progress messages, e.g. "with AI". */
+  label: string;
+  recognize(imageBase64: string): Promise<OcrPageResult>;
+}
+
+/** Pages recognized with a lower confidence than this are flagged for review. */
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+export const isLowConfidence = (result: OcrPageResult): boolean =>
+  result.confidence !== undefined && result.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+export const aiOcrEngine: OcrEngine = {
+  id: 'ai',
+  label: 'with AI',
+  recognize: async (imageBase64) => ({ text: await extractTextFromImagesWithGemini([imageBase64]), engine: 'ai' }),
+};
+
+// Tesseract languages, e.g. "eng+deu". The language data is downloaded on first use and then
+// cached by the browser; LOCAL_OCR_LANG_PATH points at a self-hosted copy for fully offline use.
+const LOCAL_OCR_LANGUAGES = (process.env.LOCAL_OCR_LANGUAGES || 'eng').split('+');
+const LOCAL_OCR_LANG_PATH = process.env.LOCAL_OCR_LANG_PATH;
+
+let localWorker: Promise<TesseractWorker> | null = null;
+
+// The engine (several MB of WebAssembly) is only loaded the first time it is used.
+const getLocalWorker = (): Promise<TesseractWorker> => {
+  if (!localWorker) {
+    localWorker = import('tesseract.js')
+      .then(({ createWorker }) => createWorker(LOCAL_OCR_LANGUAGES, undefined, LOCAL_OCR_LANG_PATH ? { langPath: LOCAL_OCR_LANG_PATH } : {}))
+      .catch(error => {
+        localWorker = null;
+        throw error;
+      });
+  }
+  return localWorker;
+};
+
+/** Stops the local engine's worker, if it was started, so that a script can exit. */
+export async function terminateLocalOcr(): Promise<void> {
+  const worker = localWorker;
+  localWorker = null;
+  if (worker) await (await worker).terminate();
+}
+
+export const localOcrEngine: OcrEngine = {
+  id: 'local',
+  label: 'on this device',
+  recognize: async (imageBase64) => {
+    const worker = await getLocalWorker();
+    const { data } = await worker.recognize(`data:image/jpeg;base64,${imageBase64}`);
+    return { text: data.text, engine: 'local', confidence: Math.round(data.confidence) };
+  },
+};
+
+export const OCR_ENGINES: Record<OcrEngineId, OcrEngine> = { ai: aiOcrEngine, local: localOcrEngine };
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('keeps a string value that is still arriving', () => {
+    expect(parsePartialJson('{"summary": "Led a te')).toEqual({ summary: 'Led a te' });
+  });
+
+  it('drops an escape sequence that is cut off', () => {
+    expect(parsePartialJson('{"summary": "First line\\')).toEqual({ summary: 'First line' });
+    expect(parsePartialJson('{"summary": "Caf\\u00')).toEqual({ summary: 'Caf' });
+    expect(parsePartialJson('{"summary": "Say \\"hi\\" to')).toEqual({ summary: 'Say "hi" to' });
+  });
+
+  it('leaves out a number until it is complete', () => {
+    expect(parsePartialJson('{"years": 5, "score": 8')).toEqual({ years: 5 });
+    expect(parsePartialJson('{"years": 5, "score": 87,')).toEqual({ years: 5, score: 87 });
+  });
+
+  it('closes an array cut between or inside its items', () => {
+    expect(parsePartialJson('{"skills": ["Go", ')).toEqual({ skills: ['Go'] });
+    expect(parsePartialJson('{"skills": ["Go", "SQ')).toEqual({ skills: ['Go', 'SQ'] });
+    expect(parsePartialJson('{"jobs": [{"title": "Dev", "bullets": ["Shipped"')).toEqual({ jobs: [{ title: 'Dev', bullets: ['Shipped'] }] });
+  });
+
+  it('closes unclosed objects and ignores a key that is still arriving', () => {
+    expect(parsePartialJson('{"contact": {"email": "a@b.c"}')).toEqual({ contact: { email: 'a@b.c' } });
+    expect(parsePartialJson('{"name": "Jane", "sum')).toEqual({ name: 'Jane' });
+    expect(parsePartialJson('{"name": "Jane", "summary": ')).toEqual({ name: 'Jane' });
+  });
+
+  it('skips text and code fences before the JSON', () => {
+    expect(parsePartialJson('```json\n{"name": "Jane"')).toEqual({ name: 'Jane' });
+    expect(parsePartialJson('Here is the CV: ')).toBeUndefined();
+  });
+
+  it('reads a complete document and ignores what follows it', () => {
+    expect(parsePartialJson('{"name": "Jane"}\n```')).toEqual({ name: 'Jane' });
+  });
+});
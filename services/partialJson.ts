@@ -0,0 +1,86 @@
+// Parses the JSON a model has streamed so far. The text is cut back to the last point where a
+// value was complete (or inside a string value, which is kept as far as it has arrived), and the
+// open strings, arrays and objects are closed, so sections can be shown before the answer ends.
+
+interface Frame {
+  kind: '{' | '[';
+  /** In an object: true while the next string is a key rather than a value. */
+  expectsKey: boolean;
+}
+
+const close = (stack: Frame[]): string =>
+  stack.map(frame => (frame.kind === '{' ? '}' : ']')).reverse().join('');
+
+/**
+ * Returns the value of a possibly incomplete JSON document, or `undefined` when nothing usable
+ * has arrived yet. Markdown code fences and text before the first `{` or `[` are ignored.
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.search(/[{[]/);
+  if (start === -1) return undefined;
+  const json = text.slice(start);
+
+  const stack: Frame[] = [];
+  // Ends of complete prefixes of the text, each with the closing brackets it needs, latest last.
+  const candidates: { end: number; closers: string }[] = [];
+  const cut = (end: number) => candidates.push({ end, closers: close(stack) });
+  let inString = false;
+  let isKey = false;
+  let escaped = false;
+
+  for (let i = 0; i < json.length && !(i > 0 && stack.length === 0); i++) {
+    const ch = json[i];
+    const top = stack[stack.length - 1];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === '\\') {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+        if (!isKey) cut(i + 1);
+      }
+      continue;
+    }
+    switch (ch) {
+      case '"':
+        inString = true;
+        isKey = top?.kind === '{' && top.expectsKey;
+        break;
+      case '{':
+      case '[':
+        stack.push({ kind: ch, expectsKey: ch === '{' });
+        cut(i + 1);
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        cut(i + 1);
+        break;
+      case ':':
+        if (top) top.expectsKey = false;
+        break;
+      case ',':
+        // Numbers, booleans and null are only known to be complete once the comma arrives.
+        cut(i);
+        if (top?.kind === '{') top.expectsKey = true;
+        break;
+    }
+  }
+
+  const attempts = candidates.slice(-3).reverse().map(({ end, closers }) => json.slice(0, end) + closers);
+  // A string value that is still arriving is shown as far as it goes.
+  if (stack.length > 0 && inString && !isKey) {
+    const partial = (escaped ? json.slice(0, -1) : json).replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+    attempts.unshift(partial + '"' + close(stack));
+  }
+
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(attempt);
+    } catch {
+      // Try the previous cut point.
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,428 @@
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import type { CvData } from './geminiService';
+import { CoverLetter, formatLetterDate } from './coverLetter';
+import { allSkills, cvPhoto, formatEducationDetails, formatLanguage, formatPersonalDetails, hasSectionContent, skillLines } from './cvSections';
+import { cvDataToPlainText, normalizeForMatching } from './keywordMatcher';
+import { extractPdfText } from './pdfText';
+import { CvSectionId, CvTemplateDefinition, resolveSectionOrder } from './templates';
+import { sectionTitle } from './locales';
+
+// Writes the CV as a PDF with a real text layer (selectable, searchable and readable by
+// ATS parsers), as opposed to a screenshot of the preview. Layout follows the selected
+// template's section order, density and font family in a single column.
+
+export type PageSize = 'letter' | 'a4';
+
+export const PAGE_SIZES: Record<PageSize, { label: string; width: number; height: number }> = {
+  letter: { label: 'US Letter', width: 612, height: 792 },
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+};
+
+const MARGIN = 36; // 0.5 inch
+
+// Open-licensed fonts embedded into the PDF, pinned to one Fontsource release so that exports
+// look the same over time. If they cannot be downloaded (e.g. offline) a warning is logged and
+// the standard PDF fonts are used instead, which still produce a real text layer.
+const FONT_URLS: Record<CvTemplateDefinition['fontFamily'], Record<'regular' | 'bold' | 'italic', string>> = {
+  sans: {
+    regular: 'https://cdn.jsdelivr.net/fontsource/fonts/arimo@5.3.0/latin-400-normal.ttf',
+    bold: 'https://cdn.jsdelivr.net/fontsource/fonts/arimo@5.3.0/latin-700-normal.ttf',
+    italic: 'https://cdn.jsdelivr.net/fontsource/fonts/arimo@5.3.0/latin-400-italic.ttf',
+  },
+  serif: {
+    regular: 'https://cdn.jsdelivr.net/fontsource/fonts/tinos@5.3.0/latin-400-normal.ttf',
+    bold: 'https://cdn.jsdelivr.net/fontsource/fonts/tinos@5.3.0/latin-700-normal.ttf',
+    italic: 'https://cdn.jsdelivr.net/fontsource/fonts/tinos@5.3.0/latin-400-italic.ttf',
+  },
+};
+
+const STANDARD_FONTS: Record<CvTemplateDefinition['fontFamily'], Record<'regular' | 'bold' | 'italic', StandardFonts>> = {
+  sans: { regular: StandardFonts.Helvetica, bold: StandardFonts.HelveticaBold, italic: StandardFonts.HelveticaOblique },
+  serif: { regular: StandardFonts.TimesRoman, bold: StandardFonts.TimesRomanBold, italic: StandardFonts.TimesRomanItalic },
+};
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+}
+
+const fontCache = new Map<string, ArrayBuffer>();
+
+const fetchFont = async (url: string): Promise<ArrayBuffer> => {
+  const cached = fontCache.get(url);
+  if (cached) return cached;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Font request failed with ${response.status}`);
+  const bytes = await response.arrayBuffer();
+  fontCache.set(url, bytes);
+  return bytes;
+};
+
+const loadFonts = async (pdfDoc: PDFDocument, family: CvTemplateDefinition['fontFamily']): Promise<Fonts> => {
+  try {
+    pdfDoc.registerFontkit(fontkit);
+    const urls = FONT_URLS[family];
+    const [regular, bold, italic] = await Promise.all([urls.regular, urls.bold, urls.italic].map(fetchFont));
+    return {
+      regular: await pdfDoc.embedFont(regular, { subset: true }),
+      bold: await pdfDoc.embedFont(bold, { subset: true }),
+      italic: await pdfDoc.embedFont(italic, { subset: true }),
+    };
+  } catch (error) {
+    console.warn(`Could not load embedded fonts (${error instanceof Error ? error.message : String(error)}), falling back to standard PDF fonts.`);
+    const standard = STANDARD_FONTS[family];
+    return {
+      regular: await pdfDoc.embedFont(standard.regular),
+      bold: await pdfDoc.embedFont(standard.bold),
+      italic: await pdfDoc.embedFont(standard.italic),
+    };
+  }
+};
+
+// Replaces characters the font cannot encode so that drawing never throws.
+const FALLBACK_CHARS: Record<string, string> = { '‘': "'", '’': "'", '“': '"', '”': '"', '–': '-', '—': '-', '•': '-', '…': '...', ' ': ' ' };
+const sanitizeFor = (font: PDFFont) => {
+  const supported = new Set(font.getCharacterSet());
+  return (text: string): string =>
+    Array.from(text.replace(/[\t\r\n]+/g, ' '))
+      .map(ch => (supported.has(ch.codePointAt(0)!) ? ch : FALLBACK_CHARS[ch] ?? '?'))
+      .join('');
+};
+
+interface Line {
+  text: string;
+  font: PDFFont;
+  size: number;
+  indent?: number;
+  align?: 'left' | 'center';
+  /** Text aligned to the right margin on the same line, e.g. dates. */
+  rightText?: string;
+  rightFont?: PDFFont;
+  gapBefore?: number;
+  bullet?: boolean;
+  /** Draws a horizontal rule under the line (section headings). */
+  rule?: boolean;
+}
+
+// A group of lines kept on the same page whenever it fits on one.
+type Block = Line[];
+
+const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    // Break words that are longer than a whole line.
+    let rest = word;
+    while (font.widthOfTextAtSize(rest, size) > maxWidth && rest.length > 1) {
+      let cut = rest.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    current = rest;
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+export interface PdfExportOptions {
+  template: CvTemplateDefinition;
+  pageSize: PageSize;
+}
+
+const LINE_HEIGHT = 1.3;
+
+const lineAdvance = (line: Line) => (line.gapBefore || 0) + line.size * LINE_HEIGHT + (line.rule ? 3 : 0);
+
+// Passport-style photo, about 25 x 34 mm.
+const PHOTO_SIZE = { width: 72, height: 96 };
+
+const bodySizeFor = (template: CvTemplateDefinition): number => (template.density === 'compact' ? 9.5 : 10.5);
+
+/** Size of the text area and body type of an exported page, for estimating the page count without exporting. */
+export const pageMetrics = ({ template, pageSize }: PdfExportOptions) => ({
+  contentWidth: PAGE_SIZES[pageSize].width - MARGIN * 2,
+  contentHeight: PAGE_SIZES[pageSize].height - MARGIN * 2,
+  bodySize: bodySizeFor(template),
+  lineHeight: bodySizeFor(template) * LINE_HEIGHT,
+});
+
+// Turns text into wrapped lines for the content width, replacing characters the fonts cannot encode.
+const createTypesetter = (fonts: Fonts, contentWidth: number, bodySize: number) => {
+  const clean = {
+    regular: sanitizeFor(fonts.regular),
+    bold: sanitizeFor(fonts.bold),
+    italic: sanitizeFor(fonts.italic),
+  };
+  const cleanFor = (font: PDFFont) => (font === fonts.bold ? clean.bold : font === fonts.italic ? clean.italic : clean.regular);
+
+  const paragraph = (text: string, font: PDFFont, size: number, extra: Partial<Line> = {}): Line[] => {
+    const indent = extra.indent ?? 0;
+    return wrapText(cleanFor(font)(text), font, size, contentWidth - indent).map((t, i) => ({
+      ...extra,
+      text: t,
+      font,
+      size,
+      indent,
+      bullet: extra.bullet && i === 0,
+      gapBefore: i === 0 ? extra.gapBefore : 0,
+    }));
+  };
+
+  const splitLine = (left: string, leftFont: PDFFont, right: string, rightFont: PDFFont, gapBefore = 0): Line[] => {
+    const rightClean = cleanFor(rightFont)(right);
+    const rightWidth = rightClean ? rightFont.widthOfTextAtSize(rightClean, bodySize) + 12 : 0;
+    const wrapped = wrapText(cleanFor(leftFont)(left), leftFont, bodySize, contentWidth - rightWidth);
+    return wrapped.map((t, i) => ({
+      text: t,
+      font: leftFont,
+      size: bodySize,
+      rightText: i === 0 ? rightClean : undefined,
+      rightFont,
+      gapBefore: i === 0 ? gapBefore : 0,
+    }));
+  };
+
+  return { cleanFor, paragraph, splitLine };
+};
+
+// Name, contact line and personal details, styled per template. Shared by the CV and the cover
+// letter so they match. Next to a photo the header is left-aligned and made tall enough to clear it.
+const headerBlock = (cvData: CvData, template: CvTemplateDefinition, fonts: Fonts, contentWidth: number): Block => {
+  const compact = template.density === 'compact';
+  const photo = cvPhoto(cvData);
+  const typesetter = createTypesetter(fonts, photo ? contentWidth - PHOTO_SIZE.width - 12 : contentWidth, bodySizeFor(template));
+  const headerAlign = !photo && (template.id === 'classic' || template.id === 'academic') ? 'center' : 'left';
+  const contact = cvData.contactInfo;
+  const contactText = [contact?.location, contact?.phone, contact?.email, contact?.linkedin].filter(Boolean).join(' | ');
+  const personalDetails = formatPersonalDetails(cvData);
+  const lines: Line[] = [
+    ...typesetter.paragraph(template.id === 'classic' ? cvData.fullName.toUpperCase() : cvData.fullName, fonts.bold, compact ? 18 : 22, { align: headerAlign }),
+    ...typesetter.paragraph(contactText, fonts.regular, bodySizeFor(template) - 1, { align: headerAlign, gapBefore: 4 }),
+    ...(personalDetails ? typesetter.paragraph(personalDetails, fonts.regular, bodySizeFor(template) - 1, { align: headerAlign, gapBefore: 2 }) : []),
+  ];
+  const height = lines.reduce((sum, line) => sum + lineAdvance(line), 0);
+  return photo && height < PHOTO_SIZE.height
+    ? [...lines, { text: '', font: fonts.regular, size: 0, gapBefore: PHOTO_SIZE.height - height }]
+    : lines;
+};
+
+/** Draws the CV photo (a JPEG or PNG data URL) in the top right corner of the first page. */
+const drawPhoto = async (pdfDoc: PDFDocument, photo: string, pageSize: PageSize) => {
+  const image = photo.startsWith('data:image/png') ? await pdfDoc.embedPng(photo) : await pdfDoc.embedJpg(photo);
+  const { width, height } = image.scaleToFit(PHOTO_SIZE.width, PHOTO_SIZE.height);
+  const page = PAGE_SIZES[pageSize];
+  pdfDoc.getPage(0).drawImage(image, { x: page.width - MARGIN - width, y: page.height - MARGIN - height, width, height });
+};
+
+/** Draws the blocks top to bottom, starting a new page whenever the next block does not fit. */
+const drawBlocks = (pdfDoc: PDFDocument, blocks: Block[], pageSize: PageSize, cleanFor: (font: PDFFont) => (text: string) => string) => {
+  const { width: pageWidth, height: pageHeight } = PAGE_SIZES[pageSize];
+  const bottom = MARGIN;
+  const usableHeight = pageHeight - MARGIN * 2;
+
+  let page: PDFPage = pdfDoc.addPage([pageWidth, pageHeight]);
+  let y = pageHeight - MARGIN;
+  const newPage = () => {
+    page = pdfDoc.addPage([pageWidth, pageHeight]);
+    y = pageHeight - MARGIN;
+  };
+
+  const drawLine = (line: Line) => {
+    const advance = lineAdvance(line);
+    if (y - advance < bottom) newPage();
+    y -= (line.gapBefore || 0) + line.size * LINE_HEIGHT;
+    const baseline = y + line.size * (LINE_HEIGHT - 1);
+    const indent = line.indent || 0;
+    const textWidth = line.font.widthOfTextAtSize(line.text, line.size);
+    const x = line.align === 'center' ? (pageWidth - textWidth) / 2 : MARGIN + indent;
+
+    if (line.bullet) {
+      const bulletChar = cleanFor(line.font)('•');
+      page.drawText(bulletChar, { x: MARGIN + indent - 9, y: baseline, size: line.size, font: line.font });
+    }
+    page.drawText(line.text, { x, y: baseline, size: line.size, font: line.font, color: rgb(0, 0, 0) });
+    if (line.rightText && line.rightFont) {
+      const rightWidth = line.rightFont.widthOfTextAtSize(line.rightText, line.size);
+      page.drawText(line.rightText, { x: pageWidth - MARGIN - rightWidth, y: baseline, size: line.size, font: line.rightFont });
+    }
+    if (line.rule) {
+      y -= 3;
+      page.drawLine({ start: { x: MARGIN, y: y + 1 }, end: { x: pageWidth - MARGIN, y: y + 1 }, thickness: 0.8, color: rgb(0, 0, 0) });
+    }
+  };
+
+  for (const block of blocks) {
+    const blockHeight = block.reduce((sum, line) => sum + lineAdvance(line), 0);
+    const isTopOfPage = y === pageHeight - MARGIN;
+    if (!isTopOfPage && y - blockHeight < bottom && blockHeight <= usableHeight) newPage();
+    block.forEach(drawLine);
+  }
+};
+
+/**
+ * Generates a text-based PDF of the CV. Work experience entries are moved to the next
+ * page as a whole instead of being split, unless a single entry is longer than a page.
+ */
+export async function buildCvPdf(cvData: CvData, options: PdfExportOptions): Promise<Uint8Array> {
+  const { template } = options;
+  const contentWidth = PAGE_SIZES[options.pageSize].width - MARGIN * 2;
+  const compact = template.density === 'compact';
+  const bodySize = bodySizeFor(template);
+
+  const pdfDoc = await PDFDocument.create();
+  const fonts = await loadFonts(pdfDoc, template.fontFamily);
+  const typesetter = createTypesetter(fonts, contentWidth, bodySize);
+  const { cleanFor, paragraph, splitLine } = typesetter;
+
+  pdfDoc.setTitle(`${cvData.fullName} - CV`);
+  pdfDoc.setAuthor(cvData.fullName);
+  pdfDoc.setSubject('Curriculum Vitae');
+  pdfDoc.setKeywords(allSkills(cvData));
+  pdfDoc.setCreator('ATS CV Optimizer');
+
+  const heading = (section: CvSectionId): Line => ({
+    text: cleanFor(fonts.bold)(sectionTitle(section, cvData.locale).toUpperCase()),
+    font: fonts.bold,
+    size: bodySize + 0.5,
+    gapBefore: compact ? 8 : 14,
+    rule: true,
+  });
+
+  // Keeps the heading with the first entry.
+  const withHeading = (section: CvSectionId, entries: Block[]): Block[] =>
+    entries.length > 0 ? [[heading(section), ...entries[0]], ...entries.slice(1)] : [];
+
+  const entryGap = (index: number) => (index === 0 ? 4 : (compact ? 5 : 8));
+  const bullets = (lines: string[]) =>
+    lines.flatMap((text, i) => paragraph(text, fonts.regular, bodySize, { indent: 12, bullet: true, gapBefore: i === 0 ? 2 : 1 }));
+  const credentials = (items: { name: string; issuer: string; date: string }[]): Block[] =>
+    items.map(item => [
+      ...splitLine(item.name, fonts.bold, item.date, fonts.bold, 4),
+      ...(item.issuer ? paragraph(item.issuer, fonts.italic, bodySize) : []),
+    ]);
+
+  const sectionBlocks = (section: CvSectionId): Block[] => {
+    if (!hasSectionContent(cvData, section)) return [];
+    switch (section) {
+      case 'summary':
+        return [[heading(section), ...paragraph(cvData.summary, fonts.regular, bodySize, { gapBefore: 4 })]];
+      case 'skills':
+        return [[heading(section), ...skillLines(cvData).flatMap(line =>
+          paragraph(line.category ? `${line.category}: ${line.skills.join(', ')}` : line.skills.join(' | '), fonts.regular, bodySize, { gapBefore: 4 })
+        )]];
+      case 'experience':
+        return withHeading(section, cvData.workExperience.map((job, index): Block => [
+          ...splitLine(job.jobTitle, fonts.bold, job.dates, fonts.bold, entryGap(index)),
+          ...splitLine(job.company, fonts.italic, job.location || '', fonts.italic),
+          ...bullets(job.responsibilities),
+        ]));
+      case 'education':
+        return withHeading(section, cvData.education.map((edu): Block => [
+          ...splitLine(edu.institution, fonts.bold, edu.dates, fonts.bold, 4),
+          ...paragraph(edu.degree, fonts.italic, bodySize),
+          ...(formatEducationDetails(edu, cvData.locale) ? paragraph(formatEducationDetails(edu, cvData.locale), fonts.regular, bodySize) : []),
+        ]));
+      case 'projects':
+        return withHeading(section, cvData.projects!.map((project, index): Block => [
+          ...splitLine(project.name, fonts.bold, project.dates, fonts.bold, entryGap(index)),
+          ...(project.url ? paragraph(project.url, fonts.regular, bodySize) : []),
+          ...(project.description ? paragraph(project.description, fonts.regular, bodySize, { gapBefore: 2 }) : []),
+        ]));
+      case 'certifications':
+        return withHeading(section, credentials(cvData.certifications!));
+      case 'awards':
+        return withHeading(section, credentials(cvData.awards!.map(award => ({ name: award.title, issuer: award.issuer, date: award.date }))));
+      case 'languages':
+        return [[heading(section), ...paragraph(cvData.languages!.map(formatLanguage).join(' | '), fonts.regular, bodySize, { gapBefore: 4 })]];
+      case 'publications':
+        return withHeading(section, cvData.publications!.map((publication, index): Block =>
+          paragraph(
+            [[publication.title, publication.publisher, publication.date].filter(Boolean).join(', '), publication.url].filter(Boolean).join('. '),
+            fonts.regular,
+            bodySize,
+            { indent: 12, bullet: true, gapBefore: index === 0 ? 4 : 1 },
+          )
+        ));
+      case 'volunteering':
+        return withHeading(section, cvData.volunteering!.map((work, index): Block => [
+          ...splitLine(work.role, fonts.bold, work.dates, fonts.bold, entryGap(index)),
+          ...paragraph(work.organization, fonts.italic, bodySize),
+          ...bullets(work.responsibilities),
+        ]));
+    }
+  };
+
+  const blocks: Block[] = [headerBlock(cvData, template, fonts, contentWidth), ...resolveSectionOrder(template, cvData.sectionOrder).flatMap(sectionBlocks)];
+  drawBlocks(pdfDoc, blocks, options.pageSize, cleanFor);
+  const photo = cvPhoto(cvData);
+  if (photo) await drawPhoto(pdfDoc, photo, options.pageSize);
+  return pdfDoc.save();
+}
+
+/**
+ * Generates a text-based PDF of a cover letter with the same header, fonts and paper size as the
+ * CV exported with `options`, so the two documents look like a set.
+ */
+export async function buildCoverLetterPdf(letter: CoverLetter, cvData: CvData, options: PdfExportOptions & { date?: string }): Promise<Uint8Array> {
+  const { template } = options;
+  const contentWidth = PAGE_SIZES[options.pageSize].width - MARGIN * 2;
+  // Letters read better a little larger than dense CV body text.
+  const bodySize = bodySizeFor(template) + 0.5;
+
+  const pdfDoc = await PDFDocument.create();
+  const fonts = await loadFonts(pdfDoc, template.fontFamily);
+  const typesetter = createTypesetter(fonts, contentWidth, bodySize);
+  const { paragraph } = typesetter;
+
+  pdfDoc.setTitle(`${cvData.fullName} - Cover Letter`);
+  pdfDoc.setAuthor(cvData.fullName);
+  pdfDoc.setSubject('Cover Letter');
+  pdfDoc.setCreator('ATS CV Optimizer');
+
+  const blocks: Block[] = [
+    headerBlock(cvData, template, fonts, contentWidth),
+    paragraph(options.date ?? formatLetterDate(new Date(), cvData.locale), fonts.regular, bodySize, { gapBefore: 20 }),
+    paragraph(letter.greeting, fonts.regular, bodySize, { gapBefore: 16 }),
+    // Each paragraph is a block, so a short one is not split across pages.
+    ...letter.paragraphs.map(text => paragraph(text, fonts.regular, bodySize, { gapBefore: 10 })),
+    [
+      ...paragraph(letter.closing, fonts.regular, bodySize, { gapBefore: 16 }),
+      ...paragraph(letter.signature, fonts.bold, bodySize, { gapBefore: 24 }),
+    ],
+  ];
+  drawBlocks(pdfDoc, blocks, options.pageSize, typesetter.cleanFor);
+  const photo = cvPhoto(cvData);
+  if (photo) await drawPhoto(pdfDoc, photo, options.pageSize);
+  return pdfDoc.save();
+}
+
+export interface PdfSelfCheckResult {
+  passed: boolean;
+  /** Share of the CV's words found in the PDF's text layer, from 0 to 1. */
+  coverage: number;
+  missingWords: string[];
+}
+
+/**
+ * Re-extracts the text of a generated PDF with pdf.js and confirms that the CV's words
+ * round-trip, i.e. that an ATS reading the text layer will see the same content.
+ */
+export async function verifyPdfText(pdfBytes: Uint8Array, cvData: CvData): Promise<PdfSelfCheckResult> {
+  // pdf.js may take ownership of the buffer it is given, so pass a copy.
+  const { text } = await extractPdfText(pdfBytes.slice());
+  const toWords = (value: string) => normalizeForMatching(value).split(/[^a-z0-9@+#]+/).filter(w => w.length > 1);
+  const extracted = new Set(toWords(text));
+  const expected = [...new Set(toWords(cvDataToPlainText(cvData)))];
+  const missingWords = expected.filter(w => !extracted.has(w));
+  const coverage = expected.length === 0 ? 1 : (expected.length - missingWords.length) / expected.length;
+  return { passed: coverage >= 0.98, coverage, missingWords };
+}
@@ -0,0 +1,273 @@
+// Rebuilds readable text from positioned PDF text runs. pdf.js returns text in content-stream
+// order, which for multi-column CVs interleaves the columns; here runs are grouped into rows by
+// baseline, split into columns at vertical gutters, and then turned into Markdown-style text
+// with `## ` headings and `- ` bullets so the optimizer sees the CV's structure.
+
+/** A piece of text at a position on the page, in PDF user space (origin bottom-left). */
+export interface PositionedText {
+  text: string;
+  x: number;
+  /** Baseline. */
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+export interface PageLayout {
+  text: string;
+  /** Number of text columns found on the page. */
+  columns: number;
+}
+
+type Row = PositionedText[];
+
+interface Line {
+  text: string;
+  x: number;
+  right: number;
+  y: number;
+  fontSize: number;
+  /** True when the row has widely spaced parts, e.g. a job title and right-aligned dates. */
+  isTabular: boolean;
+}
+
+const BULLET_PATTERN = /^(?:[•●▪■◦‣⁃∙·\uf0a7\uf0b7\uf076\uf0d8]\s*|[*\-–o]\s+)/;
+const GUTTER_BIN = 2; // pt
+const MIN_GUTTER_WIDTH = 8; // pt
+const LARGE_GAP = 2.5; // in multiples of the font size; wider gaps inside a row become " | "
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/** Groups runs whose baselines are within a fraction of the font size into rows, top to bottom. */
+function groupRows(runs: PositionedText[]): Row[] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: Row[] = [];
+  for (const run of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - run.y) <= Math.max(row[0].fontSize, run.fontSize) * 0.4) {
+      row.push(run);
+    } else {
+      rows.push([run]);
+    }
+  }
+  return rows.map(row => row.sort((a, b) => a.x - b.x));
+}
+
+/**
+ * Finds the widest vertical strip in the middle of the region that (almost) no row crosses and
+ * that has a left-aligned column of text to its right. Right-aligned dates next to job titles
+ * also leave an empty strip, but their left edges are ragged, so they are not mistaken for a column.
+ */
+function findGutter(rows: Row[]): { start: number; end: number } | null {
+  const runs = rows.flat();
+  if (rows.length < 6) return null;
+  const left = Math.min(...runs.map(r => r.x));
+  const right = Math.max(...runs.map(r => r.x + r.width));
+  const width = right - left;
+  if (width <= 0) return null;
+
+  const bins = new Array(Math.ceil(width / GUTTER_BIN) + 1).fill(0);
+  for (const row of rows) {
+    const covered = new Set<number>();
+    for (const run of row) {
+      for (let b = Math.floor((run.x - left) / GUTTER_BIN); b <= Math.floor((run.x + run.width - left) / GUTTER_BIN); b++) covered.add(b);
+    }
+    covered.forEach(b => bins[b]++);
+  }
+
+  // A few rows (the name, contact line, a full-width summary) may span both columns.
+  const tolerance = Math.max(2, Math.floor(rows.length * 0.2));
+  let best: { start: number; end: number } | null = null;
+  let runStart = -1;
+  const from = Math.floor((width * 0.15) / GUTTER_BIN);
+  const to = Math.ceil((width * 0.85) / GUTTER_BIN);
+  for (let b = from; b <= to + 1; b++) {
+    const open = b <= to && bins[b] <= tolerance;
+    if (open && runStart === -1) runStart = b;
+    if (!open && runStart !== -1) {
+      const gutter = { start: left + runStart * GUTTER_BIN, end: left + b * GUTTER_BIN };
+      if (gutter.end - gutter.start >= MIN_GUTTER_WIDTH && (!best || gutter.end - gutter.start > best.end - best.start)) best = gutter;
+      runStart = -1;
+    }
+  }
+  if (!best) return null;
+
+  const gutter = best;
+  const mid = (gutter.start + gutter.end) / 2;
+  const sideRows = rows.filter(row => !row.some(run => run.x < mid && run.x + run.width > mid));
+  const leftRows = sideRows.filter(row => row.some(run => run.x + run.width <= mid));
+  const rightRows = sideRows.filter(row => row.some(run => run.x >= mid));
+  if (leftRows.length < 3 || rightRows.length < 3) return null;
+
+  // The right-hand side must be a real column: most rows start at the same x, and it holds a fair share of the text.
+  const rightStarts = rightRows.map(row => row.find(run => run.x >= mid)!.x);
+  const columnStart = median(rightStarts);
+  const aligned = rightStarts.filter(x => Math.abs(x - columnStart) <= 3).length;
+  const chars = (side: (run: PositionedText) => boolean) => runs.filter(side).reduce((sum, run) => sum + run.text.length, 0);
+  const rightChars = chars(run => run.x >= mid);
+  const leftChars = chars(run => run.x + run.width <= mid);
+  if (aligned < rightRows.length * 0.5 || Math.min(leftChars, rightChars) < (leftChars + rightChars) * 0.15) return null;
+
+  // Label layouts (dates on the left, the entry on the right) are read row by row: the labels are
+  // spread out, one per entry, and each shares its row with the entry's first line.
+  const [fewer, more] = leftRows.length <= rightRows.length ? [leftRows, rightRows] : [rightRows, leftRows];
+  const paired = fewer.filter(row => more.includes(row)).length;
+  const span = sideRows.slice(sideRows.indexOf(fewer[0]), sideRows.indexOf(fewer[fewer.length - 1]) + 1);
+  if (paired >= fewer.length * 0.8 && fewer.length < span.length * 0.5) return null;
+
+  return gutter;
+}
+
+/** Splits rows into reading-order segments: full-width rows stay in place, columns are read one after the other. */
+function orderSegments(rows: Row[], depth = 0): { segments: Row[][]; columns: number } {
+  const gutter = depth < 2 ? findGutter(rows) : null;
+  if (!gutter) return { segments: [rows], columns: 1 };
+
+  const mid = (gutter.start + gutter.end) / 2;
+  const segments: Row[][] = [];
+  let columns = 1;
+  let leftRows: Row[] = [];
+  let rightRows: Row[] = [];
+  const flush = () => {
+    if (leftRows.length === 0 && rightRows.length === 0) return;
+    const leftOrder = orderSegments(leftRows, depth + 1);
+    const rightOrder = orderSegments(rightRows, depth + 1);
+    segments.push(...leftOrder.segments, ...rightOrder.segments);
+    columns = Math.max(columns, leftOrder.columns + rightOrder.columns);
+    leftRows = [];
+    rightRows = [];
+  };
+
+  for (const row of rows) {
+    if (row.some(run => run.x < mid && run.x + run.width > mid)) {
+      flush();
+      segments.push([row]);
+      continue;
+    }
+    const leftPart = row.filter(run => run.x + run.width <= mid);
+    const rightPart = row.filter(run => run.x >= mid);
+    if (leftPart.length > 0) leftRows.push(leftPart);
+    if (rightPart.length > 0) rightRows.push(rightPart);
+  }
+  flush();
+  return { segments: segments.filter(s => s.length > 0), columns };
+}
+
+const toLine = (row: Row): Line => {
+  let text = '';
+  let isTabular = false;
+  row.forEach((run, i) => {
+    if (i > 0) {
+      const previous = row[i - 1];
+      const gap = run.x - (previous.x + previous.width);
+      if (gap > LARGE_GAP * run.fontSize) {
+        text += ' | ';
+        isTabular = true;
+      } else if (gap > run.fontSize * 0.12 && !/\s$/.test(text) && !/^\s/.test(run.text)) text += ' ';
+    }
+    text += run.text;
+  });
+  return {
+    text: text.replace(/\s+/g, ' ').trim(),
+    x: row[0].x,
+    right: Math.max(...row.map(run => run.x + run.width)),
+    y: row[0].y,
+    fontSize: Math.max(...row.map(run => run.fontSize)),
+    isTabular,
+  };
+};
+
+const isAllCapsHeading = (text: string): boolean => {
+  const letters = text.replace(/[^\p{L}]/gu, '');
+  return letters.length >= 3 && letters === letters.toUpperCase() && letters !== letters.toLowerCase()
+    && text.split(/\s+/).length <= 5 && !/[.,;:]$/.test(text);
+};
+
+// A line was wrapped (rather than broken on purpose) if it reaches the right edge of the column
+// and the next line's first word would not have fitted after it.
+const isWrapped = (previous: Line, next: Line, columnLeft: number, columnRight: number): boolean => {
+  if (Math.abs(previous.fontSize - next.fontSize) >= 0.5) return false;
+  if (previous.right < columnLeft + (columnRight - columnLeft) * 0.85) return false;
+  const charWidth = (previous.right - previous.x) / Math.max(previous.text.length, 1);
+  const firstWord = next.text.split(' ')[0];
+  return previous.right + (firstWord.length + 1) * charWidth > columnRight - charWidth;
+};
+
+/** Turns one segment's lines into Markdown-style blocks, joining wrapped paragraph and bullet lines. */
+function segmentToText(lines: Line[], bodySize: number): string {
+  const columnLeft = Math.min(...lines.map(l => l.x));
+  const columnRight = Math.max(...lines.map(l => l.right));
+  const blocks: { kind: 'heading' | 'bullet' | 'text'; text: string; gapBefore: boolean }[] = [];
+  let previous: Line | null = null;
+  let bulletTextX = 0;
+
+  for (const line of lines) {
+    if (!line.text) continue;
+    const gap = previous ? previous.y - line.y : 0;
+    const gapBefore = previous !== null && gap > line.fontSize * 1.8;
+    const bullet = line.text.match(BULLET_PATTERN);
+    const last = blocks[blocks.length - 1];
+    const isHeading = !bullet && line.text.length <= 60
+      && (line.fontSize >= bodySize * 1.2 || (isAllCapsHeading(line.text) && line.fontSize >= bodySize * 0.95));
+
+    if (isHeading) {
+      blocks.push({ kind: 'heading', text: line.text, gapBefore: true });
+    } else if (bullet && line.text.length > bullet[0].length) {
+      blocks.push({ kind: 'bullet', text: line.text.slice(bullet[0].length), gapBefore });
+      // Wrapped bullet lines are indented past the bullet glyph.
+      bulletTextX = line.x + 2;
+    } else if (last && !gapBefore && previous && gap <= line.fontSize * 1.6 && (
+      (last.kind === 'bullet' && line.x >= bulletTextX) ||
+      (last.kind === 'text' && !previous.isTabular && !line.isTabular && isWrapped(previous, line, columnLeft, columnRight))
+    )) {
+      last.text += (last.text.endsWith('-') && /^\p{Ll}/u.test(line.text) ? '' : ' ') + line.text;
+    } else {
+      blocks.push({ kind: 'text', text: line.text, gapBefore });
+    }
+    previous = line;
+  }
+
+  return blocks
+    .map((block, i) => {
+      const text = block.kind === 'heading' ? `## ${block.text}` : block.kind === 'bullet' ? `- ${block.text}` : block.text;
+      return i > 0 && block.gapBefore ? `\n${text}` : text;
+    })
+    .join('\n');
+}
+
+/** The most common font size across the runs, weighted by text length. */
+export function bodyFontSize(runs: PositionedText[]): number {
+  const weights = new Map<number, number>();
+  for (const run of runs) {
+    const size = Math.round(run.fontSize * 2) / 2;
+    weights.set(size, (weights.get(size) || 0) + run.text.length);
+  }
+  let best = 0;
+  let bestWeight = -1;
+  weights.forEach((weight, size) => {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  });
+  return best;
+}
+
+/**
+ * Reconstructs the text of a page in reading order. `bodySize` is the document's body font size,
+ * used to tell headings from body text; it defaults to the page's own.
+ */
+export function reconstructPageText(runs: PositionedText[], bodySize = bodyFontSize(runs)): PageLayout {
+  const visible = runs.filter(run => run.text.trim() !== '' && run.fontSize > 0);
+  if (visible.length === 0) return { text: '', columns: 0 };
+  const { segments, columns } = orderSegments(groupRows(visible));
+  const text = segments
+    .map(segment => segmentToText(segment.map(toLine), bodySize))
+    .filter(Boolean)
+    .join('\n\n');
+  return { text, columns };
+}
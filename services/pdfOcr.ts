@@ -0,0 +1,142 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream } from 'pdf-lib';
+import { abortable } from './abort';
+import { aiOcrEngine, localOcrEngine, OcrEngine, OcrEngineId, OcrPageResult } from './ocr';
+import { joinPageTexts, PdfPageText } from './pdfText';
+
+// OCR for the pages of a PDF that have no text layer. Pages are rendered and recognized one at a
+// time so that progress can be reported per page and the user can cancel between pages.
+// If the AI engine fails, the remaining pages are read with the local engine instead.
+// Without a DOM (the command-line tool) pages cannot be rendered, so the scanned image embedded
+// in each page is read from the file instead.
+
+export const DEFAULT_OCR_PAGE_LIMIT = 5;
+
+export interface OcrProgress {
+  /** 1-based number of the page being recognized. */
+  page: number;
+  /** Number of pages already recognized. */
+  done: number;
+  total: number;
+  engine: OcrEngineId;
+}
+
+export interface PdfOcrOptions {
+  /** The most pages to send to OCR; further scanned pages are skipped. */
+  maxPages: number;
+  /** Read pages on this device only, without sending them to the AI provider. */
+  preferLocal: boolean;
+  signal?: AbortSignal;
+  onProgress?: (progress: OcrProgress) => void;
+}
+
+export interface PdfOcrResult {
+  /** Recognized pages by 1-based page number. */
+  pages: Map<number, OcrPageResult>;
+  /** Scanned pages that were not recognized because of the page limit. */
+  skippedPages: number[];
+  /** True if the AI engine failed and the local engine was used instead. */
+  usedFallback: boolean;
+}
+
+interface PageImageSource {
+  /** Returns the page as a base64 JPEG (without the data URL prefix). */
+  pageImage(pageNumber: number): Promise<string>;
+  close(): Promise<void>;
+}
+
+async function openRenderedPages(data: ArrayBuffer): Promise<PageImageSource> {
+  const pdf = await pdfjsLib.getDocument(data).promise;
+  return {
+    async pageImage(pageNumber) {
+      const page = await pdf.getPage(pageNumber);
+      // Use a higher scale for better OCR accuracy
+      const viewport = page.getViewport({ scale: 2.0 });
+      const canvas = document.createElement('canvas');
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error("Could not convert PDF pages to images for OCR.");
+      canvas.height = viewport.height;
+      canvas.width = viewport.width;
+      await page.render({ canvasContext: context, viewport }).promise;
+      return canvas.toDataURL('image/jpeg', 0.9).split(',')[1];
+    },
+    close: () => pdf.destroy(),
+  };
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+// Scanners store each page as one JPEG image; the largest JPEG on the page is taken as the scan.
+async function openEmbeddedPageImages(data: ArrayBuffer): Promise<PageImageSource> {
+  const pdf = await PDFDocument.load(data, { updateMetadata: false });
+  return {
+    async pageImage(pageNumber) {
+      const xObjects = pdf.getPage(pageNumber - 1).node.Resources()?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+      let scan: Uint8Array | null = null;
+      for (const ref of xObjects?.values() ?? []) {
+        const image = pdf.context.lookup(ref);
+        if (!(image instanceof PDFRawStream) || image.dict.get(PDFName.of('Subtype')) !== PDFName.of('Image')) continue;
+        const filter = image.dict.lookup(PDFName.of('Filter'));
+        const filters = filter instanceof PDFArray ? filter.asArray() : [filter];
+        if (filters.length !== 1 || filters[0] !== PDFName.of('DCTDecode')) continue;
+        const contents = image.getContents();
+        if (!scan || contents.length > scan.length) scan = contents;
+      }
+      if (!scan) throw new Error(`Page ${pageNumber} has no scanned JPEG image that can be read without a browser.`);
+      return toBase64(scan);
+    },
+    close: async () => {},
+  };
+}
+
+/**
+ * Recognizes the given pages of a PDF, in page order, up to `options.maxPages`.
+ * Throws the signal's reason (an AbortError) if cancelled.
+ */
+export async function ocrPdfPages(data: ArrayBuffer, pageNumbers: number[], options: PdfOcrOptions): Promise<PdfOcrResult> {
+  const { maxPages, preferLocal, signal, onProgress } = options;
+  const pages = [...pageNumbers].sort((a, b) => a - b);
+  const selected = pages.slice(0, Math.max(0, maxPages));
+  const source = typeof document === 'undefined' ? await openEmbeddedPageImages(data) : await openRenderedPages(data);
+  const results = new Map<number, OcrPageResult>();
+  let engine: OcrEngine = preferLocal ? localOcrEngine : aiOcrEngine;
+  let usedFallback = false;
+
+  try {
+    for (const [index, pageNumber] of selected.entries()) {
+      signal?.throwIfAborted();
+      onProgress?.({ page: pageNumber, done: index, total: selected.length, engine: engine.id });
+      const image = await source.pageImage(pageNumber);
+      let result: OcrPageResult;
+      try {
+        result = await abortable(engine.recognize(image), signal);
+      } catch (error) {
+        if (signal?.aborted || engine !== aiOcrEngine) throw error;
+        console.warn("AI OCR failed, falling back to local OCR:", error);
+        engine = localOcrEngine;
+        usedFallback = true;
+        onProgress?.({ page: pageNumber, done: index, total: selected.length, engine: engine.id });
+        result = await abortable(engine.recognize(image), signal);
+      }
+      results.set(pageNumber, { ...result, text: result.text.trim() });
+    }
+  } finally {
+    await source.close();
+  }
+  return { pages: results, skippedPages: pages.slice(selected.length), usedFallback };
+}
+
+/**
+ * Combines native and OCR text in page order. For a recognized page the OCR text is used
+ * unless the page's own text layer has more to offer.
+ */
+export function mergePageTexts(pages: PdfPageText[], ocrPages: Map<number, OcrPageResult>): string {
+  return joinPageTexts(pages.map((page, i) => {
+    const ocrText = ocrPages.get(i + 1)?.text;
+    return ocrText && ocrText.length > page.text.length ? ocrText : page.text;
+  }));
+}
@@ -0,0 +1,73 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { bodyFontSize, PageLayout, PositionedText, reconstructPageText } from './pdfLayout';
+
+export interface PdfPageText extends PageLayout {
+  wordCount: number;
+  /** True when the page has (almost) no text layer but draws images, i.e. it is a scan. */
+  needsOcr: boolean;
+}
+
+export interface PdfTextResult {
+  /** The whole document as structured text, pages separated by a blank line. */
+  text: string;
+  numPages: number;
+  /** The reconstructed text and column count of each page. */
+  pages: PdfPageText[];
+}
+
+// A page with fewer words than this is checked for images to decide whether it was scanned.
+const MIN_WORDS_PER_PAGE = 20;
+
+const IMAGE_OPS = new Set([
+  pdfjsLib.OPS.paintImageXObject,
+  pdfjsLib.OPS.paintImageXObjectRepeat,
+  pdfjsLib.OPS.paintInlineImageXObject,
+  pdfjsLib.OPS.paintInlineImageXObjectGroup,
+  pdfjsLib.OPS.paintImageMaskXObject,
+]);
+
+const countWords = (text: string): number => text.split(/\s+/).filter(w => /[\p{L}\p{N}]/u.test(w)).length;
+
+/** Joins page texts in page order, skipping empty pages. */
+export const joinPageTexts = (texts: string[]): string => texts.filter(t => t.trim() !== '').join('\n\n') + '\n';
+
+/**
+ * Extracts the text layer of a PDF with pdf.js, rebuilding reading order, columns, headings
+ * and bullet lists from the position and size of each text item (see pdfLayout.ts), and
+ * flags pages that are scanned images and need OCR.
+ * The pdf.js worker must be configured by the caller.
+ */
+export async function extractPdfText(data: ArrayBuffer | Uint8Array): Promise<PdfTextResult> {
+  const pdf = await pdfjsLib.getDocument(data).promise;
+  const pageRuns: PositionedText[][] = [];
+  const hasImages: boolean[] = [];
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const content = await page.getTextContent();
+      const runs: PositionedText[] = [];
+      for (const item of content.items) {
+        if (!('str' in item) || item.str === '') continue;
+        const [, , c, d, x, y] = item.transform;
+        runs.push({ text: item.str, x, y, width: item.width, fontSize: Math.hypot(c, d) || item.height });
+      }
+      pageRuns.push(runs);
+
+      // Only sparse pages need the (slower) operator list to look for images.
+      const words = countWords(runs.map(run => run.text).join(' '));
+      hasImages.push(words < MIN_WORDS_PER_PAGE && (await page.getOperatorList()).fnArray.some(op => IMAGE_OPS.has(op)));
+    }
+  } finally {
+    // Frees the document in the worker; it would otherwise be kept for every file read.
+    await pdf.destroy();
+  }
+
+  // Headings are detected relative to the body text size of the whole document.
+  const bodySize = bodyFontSize(pageRuns.flat());
+  const pages = pageRuns.map((runs, i): PdfPageText => {
+    const layout = reconstructPageText(runs, bodySize);
+    const wordCount = countWords(layout.text);
+    return { ...layout, wordCount, needsOcr: wordCount < MIN_WORDS_PER_PAGE && hasImages[i] };
+  });
+  return { text: joinPageTexts(pages.map(page => page.text)), numPages: pageRuns.length, pages };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { detectPii, redactText, restorePii } from './piiRedaction';
+
+const found = (text: string) => detectPii(text).map(({ kind, value }) => ({ kind, value }));
+
+describe('detectPii', () => {
+  it('does not run a phone number into a date range on the next line', () => {
+    expect(found('Phone +44 20 7946 0958\n2018 - 2020 Engineer')).toEqual([{ kind: 'phone', value: '+44 20 7946 0958' }]);
+    expect(found('Tel: 0171 2345678\n12/2019 - 03/2021 Developer at Acme')).toEqual([{ kind: 'phone', value: '0171 2345678' }]);
+  });
+
+  it('finds both a phone number and an address on the next line', () => {
+    expect(found('(555) 123-4567\n123 Main Street')).toEqual([
+      { kind: 'phone', value: '(555) 123-4567' },
+      { kind: 'address', value: '123 Main Street' },
+    ]);
+  });
+
+  it('trims a phone number that runs into an address instead of dropping it', () => {
+    expect(found('Call 555 123 4567 12 Main Street')).toEqual([
+      { kind: 'phone', value: '555 123 4567' },
+      { kind: 'address', value: '12 Main Street' },
+    ]);
+  });
+
+  it('does not take year ranges or dates for phone numbers', () => {
+    expect(found('Engineer, 2018 - 2020\nStarted 12.05.2019')).toEqual([]);
+  });
+});
+
+describe('redactText and restorePii', () => {
+  it('round-trips the redacted values', () => {
+    const text = 'jane@example.com | +1 555 010 0199';
+    const items = detectPii(text);
+    const redacted = redactText(text, items);
+    expect(redacted).toBe('[EMAIL_1] | [PHONE_1]');
+    expect(restorePii(redacted, items)).toBe(text);
+  });
+});
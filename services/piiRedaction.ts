@@ -0,0 +1,127 @@
+// Finds personal details in the CV text and swaps them for placeholder tokens such as
+// `[EMAIL_1]` before anything is sent to the AI provider. The model is asked to keep the tokens
+// as they are, and the real values are put back into its answer afterwards.
+
+export type PiiKind = 'email' | 'phone' | 'address' | 'url' | 'nationalId' | 'dateOfBirth';
+
+export const PII_KINDS: Record<PiiKind, { label: string; token: string }> = {
+  email: { label: 'Email', token: 'EMAIL' },
+  phone: { label: 'Phone', token: 'PHONE' },
+  address: { label: 'Address', token: 'ADDRESS' },
+  url: { label: 'Link', token: 'URL' },
+  nationalId: { label: 'ID number', token: 'ID' },
+  dateOfBirth: { label: 'Date of birth', token: 'BIRTHDATE' },
+};
+
+export interface PiiItem {
+  kind: PiiKind;
+  /** The text as it appears in the CV. */
+  value: string;
+  /** Placeholder sent instead, e.g. `[PHONE_1]`. The same value always gets the same token. */
+  token: string;
+}
+
+const DATE = String.raw`(?:\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|\d{4}-\d{2}-\d{2}|\d{1,2}\.?\s+[A-Z][a-zäé]+\.?\s+\d{4}|[A-Z][a-z]+\.?\s+\d{1,2},?\s+\d{4})`;
+const STREET_TYPES = 'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Square|Sq|Parkway|Pkwy|Highway|Hwy';
+
+// Checked in this order; a later pattern never matches text an earlier one already took.
+// Patterns with a capture group redact only the group (the label before it stays readable).
+const PATTERNS: [PiiKind, RegExp][] = [
+  ['nationalId', /(?:\bSSN|\bSocial Security(?: Number)?|\bNational (?:ID|Insurance)(?: Number| No\.?)?|\bPassport(?: Number| No\.?)?|\bID (?:Number|No\.?)|\bSteuer-?ID|\bPersonalausweis(?:nummer)?)\s*[:#]?\s*((?=[A-Z -]*\d)[A-Z0-9](?:[ -]?[A-Z0-9]){4,18})/gi],
+  ['nationalId', /\b\d{3}-\d{2}-\d{4}\b/g],
+  ['nationalId', /\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g],
+  ['dateOfBirth', new RegExp(String.raw`(?:\bDate of Birth|\bDOB|\bD\.O\.B\.|\bBirth ?date|\bBorn(?: on)?|\bGeburtsdatum|\bGeboren(?: am)?)\s*[:\-]?\s*(${DATE})`, 'gi')],
+  ['email', /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g],
+  ['url', /\b(?:https?:\/\/|www\.)[^\s<>()|,;]+|\b(?:linkedin\.com|github\.com|gitlab\.com|xing\.com)\/[^\s<>()|,;]+/gi],
+  ['address', new RegExp(String.raw`\b\d{1,5}[A-Za-z]?\s+(?:[A-Z][\w.'-]*\s+){1,4}(?:${STREET_TYPES})\b\.?(?:,?\s*(?:Apt|Suite|Unit|#)\.?\s*\w+)?`, 'g')],
+  ['address', /\b[A-ZÄÖÜ][\wäöüß-]*(?:straße|strasse|str\.|weg|gasse|platz|allee|ring|damm)\s+\d{1,4}[a-z]?\b/g],
+  // Spaces and tabs only: a number must not run on into a date or street number on the next line.
+  ['phone', /(?:\+\d{1,3}[ \t.-]?)?(?:\(\d{1,5}\)[ \t.-]?)?\d[\d \t./-]{5,}\d/g],
+];
+
+// Digit runs that look like phone numbers but are dates, year ranges or other figures.
+const isPhoneNumber = (text: string): boolean => {
+  const digits = text.replace(/\D/g, '');
+  if (digits.length < 7 || digits.length > 15) return false;
+  // Year ranges, with or without months: "2018 - 2020", "12/2019 - 03/2021".
+  if (/^(?:\d{1,2}[./])?(?:19|20)\d{2}\s*[-./]\s*(?:\d{1,2}[./])?(?:19|20)\d{2}$/.test(text.trim())) return false;
+  if (/^\d{1,4}[./-]\d{1,2}[./-]\d{1,4}$/.test(text.trim())) return false;
+  return true;
+};
+
+const TRAILING_PUNCTUATION = /[.,;:!?)\]]+$/;
+
+/**
+ * Finds emails, phone numbers, street addresses, links, national ID numbers and dates of birth
+ * in `text`. Each distinct value is listed once, in order of first appearance.
+ */
+export function detectPii(text: string): PiiItem[] {
+  const taken: [number, number][] = [];
+  const found: { kind: PiiKind; value: string; index: number }[] = [];
+  const overlaps = (start: number, end: number) => taken.some(([s, e]) => start < e && end > s);
+
+  for (const [kind, pattern] of PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const captured = match[1] ?? match[0];
+      let value = captured.trim();
+      if (kind === 'url' || kind === 'email') value = value.replace(TRAILING_PUNCTUATION, '');
+      const start = match.index! + match[0].indexOf(captured) + (captured.length - captured.trimStart().length);
+      if (kind === 'phone') {
+        // A number that runs into an address or ID found earlier is cut short where that begins.
+        const clip = Math.min(...taken.filter(([s, e]) => s < start + value.length && e > start).map(([s]) => s));
+        if (clip < start + value.length) value = value.slice(0, Math.max(0, clip - start)).replace(/[\s./-]+$/, '');
+        if (!isPhoneNumber(value)) continue;
+      }
+      const end = start + value.length;
+      if (!value || overlaps(start, end)) continue;
+      taken.push([start, end]);
+      found.push({ kind, value, index: start });
+    }
+  }
+
+  const counters = new Map<PiiKind, number>();
+  const items: PiiItem[] = [];
+  for (const { kind, value } of found.sort((a, b) => a.index - b.index)) {
+    if (items.some(item => item.value === value)) continue;
+    const n = (counters.get(kind) || 0) + 1;
+    counters.set(kind, n);
+    items.push({ kind, value, token: `[${PII_KINDS[kind].token}_${n}]` });
+  }
+  return items;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Replaces every occurrence of the items' values with their tokens. */
+export function redactText(text: string, items: PiiItem[]): string {
+  // Longest first, so a value that contains another (a URL containing an email) is replaced whole.
+  return [...items]
+    .sort((a, b) => b.value.length - a.value.length)
+    .reduce((result, item) => result.replace(new RegExp(escapeRegExp(item.value), 'g'), item.token), text);
+}
+
+// Applies `transform` to every string inside a JSON-like value.
+const mapStrings = <T,>(value: T, transform: (text: string) => string): T => {
+  if (typeof value === 'string') return transform(value) as T;
+  if (Array.isArray(value)) return value.map(v => mapStrings(v, transform)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, mapStrings(v, transform)])) as T;
+  }
+  return value;
+};
+
+/** Redacts every string in a structured value, e.g. an imported or optimized CV. */
+export const redactValue = <T,>(value: T, items: PiiItem[]): T => mapStrings(value, text => redactText(text, items));
+
+const TOKEN_PATTERN = new RegExp(String.raw`\[(?:${Object.values(PII_KINDS).map(k => k.token).join('|')})_\d+\]`, 'g');
+
+/** Puts the real values back in place of the tokens in every string of `value`. */
+export function restorePii<T>(value: T, items: PiiItem[]): T {
+  if (items.length === 0) return value;
+  const byToken = new Map(items.map(item => [item.token, item.value]));
+  return mapStrings(value, text => text.replace(TOKEN_PATTERN, token => byToken.get(token) ?? token));
+}
+
+/** Instruction added to prompts that contain redacted text. */
+export const REDACTION_PROMPT_NOTE =
+  'Personal details in the input have been replaced with placeholders in square brackets, such as [EMAIL_1] or [PHONE_1]. Copy these placeholders exactly where the real details belong (for example into the contact fields) and never invent values for them.';
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { SchemaNode } from './llm';
+import { parseJsonResponse, SchemaValidationError, validateAgainstSchema } from './schemaValidator';
+
+const schema: SchemaNode = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    years: { type: 'integer' },
+    remote: { type: 'boolean' },
+    skills: { type: 'array', items: { type: 'string' } },
+    jobs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          bullets: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['title', 'bullets'],
+      },
+    },
+  },
+  required: ['name', 'jobs'],
+};
+
+describe('validateAgainstSchema', () => {
+  it('reports a missing required field by its path', () => {
+    const result = validateAgainstSchema({ jobs: [{ bullets: [] }] }, schema);
+    expect(result.isValid).toBe(false);
+    expect(result.issues.filter(issue => !issue.repaired).map(issue => issue.path)).toEqual(['name', 'jobs[0].title']);
+    expect(new SchemaValidationError(result.issues).message)
+      .toBe('The AI response is incomplete: name is required but missing; jobs[0].title is required but missing.');
+  });
+
+  it('leaves missing optional fields and nulls empty', () => {
+    const result = validateAgainstSchema<{ skills: string[]; years: number }>({ name: 'Jane', jobs: [], skills: null }, schema);
+    expect(result.isValid).toBe(true);
+    expect(result.value.skills).toEqual([]);
+    expect(result.value.years).toBe(0);
+  });
+
+  it('coerces values of the wrong type', () => {
+    const result = validateAgainstSchema({ name: 42, years: ' 7.6 ', remote: 'true', skills: '- Go\n- SQL', jobs: [] }, schema);
+    expect(result.isValid).toBe(true);
+    expect(result.value).toEqual({ name: '42', years: 8, remote: true, skills: ['Go', 'SQL'], jobs: [] });
+    expect(result.issues.every(issue => issue.repaired)).toBe(true);
+  });
+
+  it('rejects values that cannot be coerced', () => {
+    const result = validateAgainstSchema({ name: { first: 'Jane' }, jobs: 'none' }, schema);
+    expect(result.isValid).toBe(false);
+    expect(result.issues.filter(issue => !issue.repaired).map(issue => issue.path)).toEqual(['name', 'jobs']);
+  });
+
+  it('drops keys that are not in the schema', () => {
+    const result = validateAgainstSchema({ name: 'Jane', jobs: [{ title: 'Dev', bullets: [], rating: 5 }], notes: 'x' }, schema);
+    expect(result.value).toEqual({ name: 'Jane', years: 0, remote: false, skills: [], jobs: [{ title: 'Dev', bullets: [] }] });
+  });
+
+  it('normalizes nested arrays and wraps a single entry in a list', () => {
+    const result = validateAgainstSchema({
+      name: '  Jane   Doe ',
+      jobs: { title: 'Dev', bullets: ['Shipped  features', '', null, 'Wrote tests'] },
+    }, schema);
+    expect(result.isValid).toBe(true);
+    expect(result.value).toMatchObject({ name: 'Jane Doe', jobs: [{ title: 'Dev', bullets: ['Shipped features', 'Wrote tests'] }] });
+    expect(result.issues.map(issue => issue.path)).toContain('jobs[0].bullets');
+  });
+});
+
+describe('parseJsonResponse', () => {
+  it('reads JSON wrapped in a code fence or surrounded by text', () => {
+    expect(parseJsonResponse('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(parseJsonResponse('Here you go: {"a": 1} Hope this helps.')).toEqual({ a: 1 });
+    expect(() => parseJsonResponse('no json here')).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,169 @@
+import type { SchemaNode } from './llm';
+
+// Validates model responses against the same SchemaNode definitions that are sent to
+// the provider, repairing what can be repaired safely and reporting the rest with
+// precise field paths.
+
+export interface ValidationIssue {
+  /** Path of the offending field, e.g. `workExperience[1].responsibilities`. */
+  path: string;
+  message: string;
+  /** True if the value was repaired and the result is usable. */
+  repaired: boolean;
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: ValidationIssue[];
+  /** True when no unrepaired issues remain. */
+  isValid: boolean;
+}
+
+export class SchemaValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const problems = issues.filter(i => !i.repaired);
+    super(`The AI response is incomplete: ${problems.map(formatIssue).join('; ')}.`);
+    this.name = 'SchemaValidationError';
+    this.issues = problems;
+  }
+}
+
+export const formatIssue = (issue: ValidationIssue): string => `${issue.path || 'response'} ${issue.message}`;
+
+const joinPath = (base: string, key: string | number): string =>
+  typeof key === 'number' ? `${base}[${key}]` : base ? `${base}.${key}` : key;
+
+const typeOf = (value: unknown): string => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+// Splits a string that should have been a list, e.g. "a\n- b\n• c" or "a, b, c".
+const splitList = (text: string): string[] => {
+  const lines = text.split(/\r?\n/).map(l => l.replace(/^\s*(?:[-*•▪●]|\d+[.)])\s*/, '').trim()).filter(Boolean);
+  if (lines.length > 1) return lines;
+  return text.split(/\s*[;,|]\s*/).map(l => l.trim()).filter(Boolean);
+};
+
+function normalizeNode(value: unknown, schema: SchemaNode, path: string, isRequired: boolean, issues: ValidationIssue[]): unknown {
+  const missing = value === undefined || value === null;
+  const report = (message: string, repaired: boolean) => issues.push({ path, message, repaired });
+  // An explicit null means the model had no value for the field, which is safe to leave empty.
+  // An omitted required field means the response does not follow the schema.
+  const reportMissing = () => {
+    if (value === null) report('was null and has been left empty', true);
+    else report(isRequired ? 'is required but missing' : 'was missing and has been left empty', !isRequired);
+  };
+
+  switch (schema.type) {
+    case 'string': {
+      if (missing) {
+        reportMissing();
+        return '';
+      }
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        report(`was a ${typeof value} and has been converted to text`, true);
+        return String(value);
+      }
+      if (Array.isArray(value) && value.every(v => typeof v === 'string')) {
+        report('was a list and has been joined into text', true);
+        return value.map(v => v.trim()).filter(Boolean).join(' ');
+      }
+      if (typeof value !== 'string') {
+        report(`should be text but was ${typeOf(value)}`, false);
+        return '';
+      }
+      return value.replace(/\s+/g, ' ').trim();
+    }
+    case 'number':
+    case 'integer': {
+      const parsed = typeof value === 'string' ? Number(value.trim()) : value;
+      if (typeof parsed !== 'number' || Number.isNaN(parsed)) {
+        report(missing ? 'is required but missing' : `should be a number but was ${typeOf(value)}`, !isRequired && missing);
+        return 0;
+      }
+      if (typeof value === 'string') report('was text and has been converted to a number', true);
+      return schema.type === 'integer' ? Math.round(parsed) : parsed;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') {
+        report('was text and has been converted to a boolean', true);
+        return value === 'true';
+      }
+      report(missing ? 'is required but missing' : `should be true or false but was ${typeOf(value)}`, !isRequired && missing);
+      return false;
+    }
+    case 'array': {
+      let items: unknown[];
+      if (missing) {
+        reportMissing();
+        items = [];
+      } else if (Array.isArray(value)) {
+        items = value;
+      } else if (typeof value === 'string' && schema.items?.type === 'string') {
+        report('was text and has been split into a list', true);
+        items = splitList(value);
+      } else if (typeof value === 'object' && schema.items?.type === 'object') {
+        report('was a single entry and has been wrapped in a list', true);
+        items = [value];
+      } else {
+        report(`should be a list but was ${typeOf(value)}`, false);
+        items = [];
+      }
+
+      const itemSchema = schema.items;
+      if (!itemSchema) return items;
+      const droppedBefore = items.length;
+      const kept = items.filter(item => item !== null && item !== undefined && !(typeof item === 'string' && item.trim() === ''));
+      if (kept.length < droppedBefore) {
+        report(`contained ${droppedBefore - kept.length} empty ${droppedBefore - kept.length === 1 ? 'entry' : 'entries'}, which ${droppedBefore - kept.length === 1 ? 'was' : 'were'} removed`, true);
+      }
+      return kept.map((item, i) => normalizeNode(item, itemSchema, joinPath(path, i), true, issues));
+    }
+    case 'object': {
+      const isObject = !missing && typeof value === 'object' && !Array.isArray(value);
+      if (missing) {
+        reportMissing();
+      } else if (!isObject) {
+        report(`should be an object but was ${typeOf(value)}`, false);
+      }
+      const source = (isObject ? value : {}) as Record<string, unknown>;
+      const required = new Set(schema.required || []);
+      const result: Record<string, unknown> = {};
+      for (const [key, childSchema] of Object.entries(schema.properties || {})) {
+        // Children of an object that is itself absent are reported once, on the object.
+        const childIssues: ValidationIssue[] = [];
+        result[key] = normalizeNode(source[key], childSchema, joinPath(path, key), required.has(key), childIssues);
+        if (isObject) issues.push(...childIssues);
+      }
+      return result;
+    }
+  }
+}
+
+/**
+ * Validates `value` against `schema`, returning a normalized copy. Recoverable problems
+ * (missing optional fields, text instead of a list, stray whitespace, ...) are repaired
+ * and reported with `repaired: true`; anything else makes the result invalid.
+ */
+export function validateAgainstSchema<T>(value: unknown, schema: SchemaNode): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const normalized = normalizeNode(value, schema, '', true, issues) as T;
+  return { value: normalized, issues, isValid: issues.every(i => i.repaired) };
+}
+
+/**
+ * Parses a model's JSON answer, tolerating Markdown code fences and text around the JSON.
+ * Throws a SyntaxError if no JSON object can be found.
+ */
+export function parseJsonResponse(text: string): unknown {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    const start = trimmed.indexOf('{');
+    const end = trimmed.lastIndexOf('}');
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(trimmed.slice(start, end + 1));
+  }
+}
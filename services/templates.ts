@@ -0,0 +1,112 @@
+// Framework-agnostic description of the available CV layouts. The preview renders these with
+// the per-template styles in components/CvDisplay.tsx (`TEMPLATE_STYLES`), and exporters use
+// them to follow the same layout.
+
+export type CvSectionId =
+  | 'summary'
+  | 'experience'
+  | 'skills'
+  | 'education'
+  | 'projects'
+  | 'certifications'
+  | 'languages'
+  | 'publications'
+  | 'awards'
+  | 'volunteering';
+
+export const SECTION_TITLES: Record<CvSectionId, string> = {
+  summary: 'Professional Summary',
+  experience: 'Work Experience',
+  skills: 'Skills',
+  education: 'Education',
+  projects: 'Projects',
+  certifications: 'Certifications',
+  languages: 'Languages',
+  publications: 'Publications',
+  awards: 'Awards',
+  volunteering: 'Volunteer Experience',
+};
+
+export type CvTemplateId = 'classic' | 'compact' | 'modern' | 'academic' | 'europass';
+
+export interface CvTemplateDefinition {
+  id: CvTemplateId;
+  name: string;
+  description: string;
+  /** Default order in which sections appear in the document (and in the text layer read by ATS parsers). */
+  sectionOrder: CvSectionId[];
+  /** Sections shown in the side column of two-column layouts. They still follow the main column in reading order. */
+  sidebarSections: CvSectionId[];
+  density: 'regular' | 'compact';
+  fontFamily: 'sans' | 'serif';
+}
+
+export const CV_TEMPLATES: CvTemplateDefinition[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    description: 'Single column with centered header. Works for most roles.',
+    sectionOrder: ['summary', 'experience', 'projects', 'skills', 'education', 'certifications', 'languages', 'publications', 'awards', 'volunteering'],
+    sidebarSections: [],
+    density: 'regular',
+    fontFamily: 'sans',
+  },
+  {
+    id: 'compact',
+    name: 'Compact one-page',
+    description: 'Tighter spacing and smaller type to fit on a single page.',
+    sectionOrder: ['summary', 'skills', 'experience', 'projects', 'education', 'certifications', 'languages', 'awards', 'publications', 'volunteering'],
+    sidebarSections: [],
+    density: 'compact',
+    fontFamily: 'sans',
+  },
+  {
+    id: 'modern',
+    name: 'Modern two-column',
+    description: 'Experience in the main column, skills and education in a side column.',
+    sectionOrder: ['summary', 'experience', 'projects', 'volunteering', 'publications', 'awards', 'skills', 'education', 'certifications', 'languages'],
+    sidebarSections: ['skills', 'education', 'certifications', 'languages'],
+    density: 'regular',
+    fontFamily: 'sans',
+  },
+  {
+    id: 'academic',
+    name: 'Academic CV',
+    description: 'Education first, serif type, suited to research and teaching positions.',
+    sectionOrder: ['education', 'summary', 'experience', 'publications', 'awards', 'projects', 'skills', 'certifications', 'languages', 'volunteering'],
+    sidebarSections: [],
+    density: 'regular',
+    fontFamily: 'serif',
+  },
+  {
+    id: 'europass',
+    name: 'Europass',
+    description: 'Section order of the European Europass CV, with languages right after education.',
+    sectionOrder: ['summary', 'experience', 'education', 'languages', 'skills', 'certifications', 'projects', 'publications', 'awards', 'volunteering'],
+    sidebarSections: [],
+    density: 'regular',
+    fontFamily: 'sans',
+  },
+];
+
+export const DEFAULT_TEMPLATE_ID: CvTemplateId = 'classic';
+
+export function getTemplate(id: CvTemplateId): CvTemplateDefinition {
+  return CV_TEMPLATES.find(t => t.id === id) || CV_TEMPLATES[0];
+}
+
+/**
+ * The order to render sections in: the user's own order when they have set one, otherwise the
+ * template's. Sections missing from a custom order (e.g. added in a later version) keep their
+ * template position relative to the sections before them.
+ */
+export function resolveSectionOrder(template: CvTemplateDefinition, customOrder?: CvSectionId[]): CvSectionId[] {
+  if (!customOrder?.length) return template.sectionOrder;
+  const order = customOrder.filter((section, i) => template.sectionOrder.includes(section) && customOrder.indexOf(section) === i);
+  template.sectionOrder.forEach((section, i) => {
+    if (order.includes(section)) return;
+    const previous = template.sectionOrder.slice(0, i).reverse().find(s => order.includes(s));
+    order.splice(previous ? order.indexOf(previous) + 1 : 0, 0, section);
+  });
+  return order;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, diffWords } from './textDiff';
+
+const side = (parts: { kind: string; text: string }[], hidden: string) =>
+  parts.filter(part => part.kind !== hidden).map(part => part.text).join('');
+
+describe('diffWords', () => {
+  it('marks replaced words, removed first', () => {
+    expect(diffWords('Led a team of five', 'Led a team of eight')).toEqual([
+      { kind: 'same', text: 'Led a team of ' },
+      { kind: 'removed', text: 'five' },
+      { kind: 'added', text: 'eight' },
+    ]);
+  });
+
+  it('gives back each side when its parts are joined', () => {
+    const before = 'Built  the billing API in Go';
+    const after = 'Designed and built the billing API in TypeScript, serving 2M requests';
+    const parts = diffWords(before, after);
+    expect(side(parts, 'added')).toBe(before);
+    expect(side(parts, 'removed')).toBe(after);
+  });
+
+  it('handles empty text', () => {
+    expect(diffWords('', 'New bullet')).toEqual([{ kind: 'added', text: 'New bullet' }]);
+    expect(diffWords('Old bullet', '')).toEqual([{ kind: 'removed', text: 'Old bullet' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
+
+describe('diffLines', () => {
+  it('keeps the common lines in order', () => {
+    expect(diffLines(['Summary', 'Old line', 'Skills'], ['Summary', 'Skills', 'Added line'])).toEqual([
+      { kind: 'same', text: 'Summary' },
+      { kind: 'removed', text: 'Old line' },
+      { kind: 'same', text: 'Skills' },
+      { kind: 'added', text: 'Added line' },
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+export type DiffKind = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+  kind: DiffKind;
+  text: string;
+}
+
+/**
+ * Diff of two token sequences based on the longest common subsequence. CVs are at most a few
+ * hundred lines, so the quadratic table is fine. Removed tokens are listed before the tokens
+ * that replace them.
+ */
+function diffSequences(before: string[], after: string[]): DiffPart[] {
+  const n = before.length;
+  const m = after.length;
+  // lcs[i][j] is the length of the longest common subsequence of before[i..] and after[j..].
+  const lcs = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i] === after[j]) {
+      result.push({ kind: 'same', text: before[i] });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      result.push({ kind: 'removed', text: before[i++] });
+    } else {
+      result.push({ kind: 'added', text: after[j++] });
+    }
+  }
+  return result;
+}
+
+export const diffLines = (before: string[], after: string[]): DiffPart[] => diffSequences(before, after);
+
+/** Word-level diff of two strings. Whitespace is kept, so joining the parts of one side gives back that string. */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+  const merged: DiffPart[] = [];
+  for (const part of diffSequences(tokenize(before), tokenize(after))) {
+    const last = merged[merged.length - 1];
+    if (last && last.kind === part.kind) last.text += part.text;
+    else merged.push({ ...part });
+  }
+  return merged;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { CvData } from './geminiService';
+import { toAsciiSafe, toJsonResume, toMarkdown, toPlainText } from './textExport';
+
+const CV: CvData = {
+  fullName: 'Renée Dupont',
+  contactInfo: { email: 'renee@example.com', phone: '+1 555 0100', linkedin: 'https://www.linkedin.com/in/renee', location: 'Austin, TX' },
+  summary: 'Engineer who ships – fast.',
+  workExperience: [{
+    jobTitle: 'Senior Engineer',
+    company: 'Acme_Corp',
+    location: 'Austin, TX',
+    dates: 'May 2020 - Present',
+    responsibilities: ['Cut build times by 40% “overnight”.'],
+  }],
+  education: [{ institution: 'UT Austin', degree: 'BSc Computer Science', dates: '2012 - 2016', gpa: '3.8' }],
+  skills: ['Go', 'SQL'],
+  skillGroups: [{ category: 'Cloud', skills: ['AWS'] }],
+};
+
+describe('toAsciiSafe', () => {
+  it('replaces typographic characters and accents', () => {
+    expect(toAsciiSafe('“Café” – naïve • 2020…')).toBe('"Cafe" - naive - 2020...');
+  });
+
+  it('keeps accents when asked', () => {
+    expect(toAsciiSafe('Compétences – clés', { keepAccents: true })).toBe('Compétences - clés');
+  });
+});
+
+describe('toPlainText', () => {
+  it('writes uppercase headings and dash bullets in ASCII', () => {
+    const text = toPlainText(CV);
+    expect(text.startsWith('Renee Dupont\nAustin, TX | +1 555 0100 | renee@example.com | https://www.linkedin.com/in/renee\n')).toBe(true);
+    expect(text).toContain('WORK EXPERIENCE\nSenior Engineer, Acme_Corp\nAustin, TX | May 2020 - Present\n- Cut build times by 40% "overnight".');
+    expect(text).toContain('PROFESSIONAL SUMMARY\nEngineer who ships - fast.');
+  });
+
+  it('keeps the original characters without asciiSafe', () => {
+    expect(toPlainText(CV, undefined, { asciiSafe: false })).toContain('Cut build times by 40% “overnight”.');
+  });
+});
+
+describe('toMarkdown', () => {
+  it('escapes Markdown characters and links the LinkedIn profile', () => {
+    const markdown = toMarkdown(CV);
+    expect(markdown).toContain('# Renée Dupont');
+    expect(markdown).toContain('[https://www.linkedin.com/in/renee](https://www.linkedin.com/in/renee)');
+    expect(markdown).toContain('### Senior Engineer — Acme\\_Corp');
+  });
+});
+
+describe('toJsonResume', () => {
+  it('maps dates to ISO and skill groups to keywords', () => {
+    const resume = toJsonResume(CV);
+    expect(resume.basics).toMatchObject({ name: 'Renée Dupont', location: { city: 'Austin', region: 'TX' }, profiles: [{ network: 'LinkedIn' }] });
+    expect(resume.work).toEqual([{
+      name: 'Acme_Corp', position: 'Senior Engineer', location: 'Austin, TX', startDate: '2020-05', endDate: undefined,
+      highlights: ['Cut build times by 40% “overnight”.'],
+    }]);
+    expect(resume.education![0]).toMatchObject({ studyType: 'BSc Computer Science', startDate: '2012', endDate: '2016', score: '3.8' });
+    expect(resume.skills).toEqual([{ name: 'Cloud', keywords: ['AWS'] }, { name: 'Go' }, { name: 'SQL' }]);
+  });
+});
@@ -0,0 +1,295 @@
+import type { CvData } from './geminiService';
+import { formatCredential, formatEducationDetails, formatLanguage, formatPersonalDetails, hasSectionContent, skillLines, ungroupedSkillIndexes } from './cvSections';
+import { parseDateRange, toIsoDate } from './dateRange';
+import { CvSectionId, CvTemplateDefinition, getTemplate, resolveSectionOrder } from './templates';
+import { getLocale, sectionTitle } from './locales';
+
+// Exporters from CvData to plain text, Markdown and JSON Resume. Unlike copying the
+// rendered preview, these produce the same output regardless of browser layout.
+
+export type TextExportFormat = 'text' | 'markdown' | 'json-resume';
+
+export const TEXT_EXPORT_FORMATS: Record<TextExportFormat, { label: string; extension: string; mimeType: string }> = {
+  'text': { label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+  'markdown': { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  'json-resume': { label: 'JSON Resume', extension: 'json', mimeType: 'application/json' },
+};
+
+const PUNCTUATION_REPLACEMENTS: [RegExp, string][] = [
+  [/[‘’‚‛′]/g, "'"],
+  [/[“”„‟″]/g, '"'],
+  [/[‐‑‒–—―−]/g, '-'],
+  [/[•●▪■◦‣⁃∙·]/g, '-'],
+  [/…/g, '...'],
+  [/[\u00a0\u2000-\u200a\u202f\u205f\u3000]/g, ' '],
+  [/[\u200b-\u200d\ufeff]/g, ''],
+  [/™/g, '(TM)'],
+  [/®/g, '(R)'],
+  [/©/g, '(C)'],
+];
+
+/**
+ * Makes text safe for ATS text boxes: straight quotes, ASCII dashes and bullets,
+ * plain spaces and no accents. Characters without an ASCII equivalent are kept.
+ * Pass `keepAccents` for text not written in English, where accents are part of the spelling.
+ */
+export function toAsciiSafe(text: string, { keepAccents = false }: { keepAccents?: boolean } = {}): string {
+  let result = text;
+  for (const [pattern, replacement] of PUNCTUATION_REPLACEMENTS) {
+    result = result.replace(pattern, replacement);
+  }
+  // Strip combining accents (é -> e) while leaving other scripts untouched.
+  if (!keepAccents) result = result.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+  return result.replace(/[ \t]+/g, ' ').trim();
+}
+
+const contactParts = (cvData: CvData): string[] =>
+  [cvData.contactInfo?.location, cvData.contactInfo?.phone, cvData.contactInfo?.email, cvData.contactInfo?.linkedin]
+    .filter((part): part is string => !!part && part.trim() !== '');
+
+const joinSections = (sections: string[]): string => sections.filter(Boolean).join('\n\n') + '\n';
+
+/**
+ * Plain-text CV with fixed uppercase section headings and "- " bullets, suitable for
+ * pasting into ATS text boxes. Pass `asciiSafe: false` to keep the original characters.
+ */
+export function toPlainText(
+  cvData: CvData,
+  template: CvTemplateDefinition = getTemplate('classic'),
+  { asciiSafe = true }: { asciiSafe?: boolean } = {},
+): string {
+  const keepAccents = getLocale(cvData.locale).language !== 'en';
+  const clean = asciiSafe ? (text: string) => toAsciiSafe(text, { keepAccents }) : (text: string) => text.trim();
+  const heading = (section: CvSectionId) => sectionTitle(section, cvData.locale).toUpperCase();
+
+  const renderContent = (section: CvSectionId): string => {
+    switch (section) {
+      case 'summary':
+        return clean(cvData.summary);
+      case 'experience':
+        return cvData.workExperience.map(job => [
+          [clean(job.jobTitle), clean(job.company)].filter(Boolean).join(', '),
+          [clean(job.location || ''), clean(job.dates)].filter(Boolean).join(' | '),
+          ...job.responsibilities.map(r => `- ${clean(r)}`),
+        ].filter(Boolean).join('\n')).join('\n\n');
+      case 'skills':
+        return skillLines(cvData).map(line => (line.category ? `${clean(line.category)}: ` : '') + line.skills.map(clean).join(', ')).join('\n');
+      case 'education':
+        return cvData.education.map(edu =>
+          [clean(edu.degree), clean(edu.institution), clean(edu.dates), clean(formatEducationDetails(edu, cvData.locale))].filter(Boolean).join(', ')
+        ).join('\n');
+      case 'projects':
+        return cvData.projects!.map(project => [
+          [clean(project.name), clean(project.dates)].filter(Boolean).join(' | '),
+          project.url.trim(),
+          clean(project.description),
+        ].filter(Boolean).join('\n')).join('\n\n');
+      case 'certifications':
+        return cvData.certifications!.map(cert => [clean(formatCredential(cert)), clean(cert.date)].filter(Boolean).join(', ')).join('\n');
+      case 'awards':
+        return cvData.awards!.map(award => [clean(formatCredential({ name: award.title, issuer: award.issuer })), clean(award.date)].filter(Boolean).join(', ')).join('\n');
+      case 'languages':
+        return cvData.languages!.map(language => clean(formatLanguage(language))).join(', ');
+      case 'publications':
+        return cvData.publications!.map(publication =>
+          `- ${[clean(publication.title), clean(publication.publisher), clean(publication.date)].filter(Boolean).join(', ')}${publication.url ? `. ${publication.url.trim()}` : ''}`
+        ).join('\n');
+      case 'volunteering':
+        return cvData.volunteering!.map(work => [
+          [clean(work.role), clean(work.organization)].filter(Boolean).join(', '),
+          clean(work.dates),
+          ...work.responsibilities.map(r => `- ${clean(r)}`),
+        ].filter(Boolean).join('\n')).join('\n\n');
+    }
+  };
+
+  const renderSection = (section: CvSectionId): string =>
+    hasSectionContent(cvData, section) ? `${heading(section)}\n${renderContent(section)}` : '';
+
+  return joinSections([
+    [clean(cvData.fullName), contactParts(cvData).map(clean).join(' | '), clean(formatPersonalDetails(cvData))].filter(Boolean).join('\n'),
+    ...resolveSectionOrder(template, cvData.sectionOrder).map(renderSection),
+  ]);
+}
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]#|<>])/g, '\\$1');
+
+export function toMarkdown(cvData: CvData, template: CvTemplateDefinition = getTemplate('classic')): string {
+  const md = escapeMarkdown;
+  const link = (url: string) => `[${md(url)}](${url})`;
+  const renderContent = (section: CvSectionId): string => {
+    switch (section) {
+      case 'summary':
+        return md(cvData.summary);
+      case 'experience':
+        return cvData.workExperience.map(job => [
+          `### ${md(job.jobTitle)}${job.company ? ` — ${md(job.company)}` : ''}`,
+          `*${[job.location, job.dates].filter(Boolean).map(v => md(v)).join(' | ')}*`,
+          '',
+          ...job.responsibilities.map(r => `- ${md(r)}`),
+        ].join('\n')).join('\n\n');
+      case 'skills':
+        return skillLines(cvData).map(line =>
+          line.category ? `- **${md(line.category)}:** ${line.skills.map(md).join(', ')}` : line.skills.map(md).join(' · ')
+        ).join('\n');
+      case 'education':
+        return cvData.education.map(edu =>
+          `- **${md(edu.institution)}** — ${md(edu.degree)}${edu.dates ? ` (${md(edu.dates)})` : ''}${formatEducationDetails(edu, cvData.locale) ? `. ${md(formatEducationDetails(edu, cvData.locale))}` : ''}`
+        ).join('\n');
+      case 'projects':
+        return cvData.projects!.map(project => [
+          `### ${md(project.name)}`,
+          [project.dates && `*${md(project.dates)}*`, project.url && link(project.url)].filter(Boolean).join(' | '),
+          project.description && `\n${md(project.description)}`,
+        ].filter(Boolean).join('\n')).join('\n\n');
+      case 'certifications':
+        return cvData.certifications!.map(cert =>
+          `- **${md(cert.name)}**${cert.issuer ? ` — ${md(cert.issuer)}` : ''}${cert.date ? ` (${md(cert.date)})` : ''}`
+        ).join('\n');
+      case 'awards':
+        return cvData.awards!.map(award =>
+          `- **${md(award.title)}**${award.issuer ? ` — ${md(award.issuer)}` : ''}${award.date ? ` (${md(award.date)})` : ''}`
+        ).join('\n');
+      case 'languages':
+        return cvData.languages!.map(language => md(formatLanguage(language))).join(' · ');
+      case 'publications':
+        return cvData.publications!.map(publication =>
+          `- *${md(publication.title)}*${[publication.publisher, publication.date].filter(Boolean).map(v => `, ${md(v)}`).join('')}${publication.url ? `. ${link(publication.url)}` : ''}`
+        ).join('\n');
+      case 'volunteering':
+        return cvData.volunteering!.map(work => [
+          `### ${md(work.role)}${work.organization ? ` — ${md(work.organization)}` : ''}`,
+          work.dates ? `*${md(work.dates)}*` : '',
+          '',
+          ...work.responsibilities.map(r => `- ${md(r)}`),
+        ].join('\n').trim()).join('\n\n');
+    }
+  };
+
+  const renderSection = (section: CvSectionId): string =>
+    hasSectionContent(cvData, section) ? `## ${sectionTitle(section, cvData.locale)}\n\n${renderContent(section)}` : '';
+
+  const linkedin = cvData.contactInfo?.linkedin;
+  const contact = contactParts(cvData)
+    .map(part => (part === linkedin ? `[${md(part)}](${part})` : md(part)))
+    .join(' | ');
+
+  return joinSections([
+    [`# ${md(cvData.fullName)}`, contact, md(formatPersonalDetails(cvData))].filter(Boolean).join('\n\n'),
+    ...resolveSectionOrder(template, cvData.sectionOrder).map(renderSection),
+  ]);
+}
+
+/** A CV in the JSON Resume format (https://jsonresume.org/schema). Only the fields we populate are typed. */
+export interface JsonResume {
+  $schema?: string;
+  basics: {
+    name: string;
+    email?: string;
+    phone?: string;
+    summary?: string;
+    location?: { address?: string; city?: string; region?: string; countryCode?: string };
+    profiles?: { network: string; url: string; username?: string }[];
+    label?: string;
+    url?: string;
+  };
+  work?: { name?: string; position?: string; location?: string; startDate?: string; endDate?: string; summary?: string; highlights?: string[] }[];
+  education?: { institution?: string; area?: string; studyType?: string; startDate?: string; endDate?: string; score?: string }[];
+  skills?: { name: string; level?: string; keywords?: string[] }[];
+  projects?: { name: string; description?: string; url?: string; startDate?: string; endDate?: string }[];
+  certificates?: { name: string; issuer?: string; date?: string }[];
+  languages?: { language: string; fluency?: string }[];
+  publications?: { name: string; publisher?: string; releaseDate?: string; url?: string }[];
+  awards?: { title: string; awarder?: string; date?: string }[];
+  volunteer?: { organization?: string; position?: string; startDate?: string; endDate?: string; highlights?: string[] }[];
+}
+
+// A single date such as "May 2021" parses as the end of a range.
+const isoDateOf = (text: string): string | undefined => {
+  const range = parseDateRange(text);
+  return toIsoDate(range.end ?? range.start);
+};
+
+export function toJsonResume(cvData: CvData): JsonResume {
+  const [city, region] = (cvData.contactInfo?.location || '').split(',').map(s => s.trim());
+  const linkedin = cvData.contactInfo?.linkedin;
+
+  return {
+    $schema: 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json',
+    basics: {
+      name: cvData.fullName,
+      email: cvData.contactInfo?.email || undefined,
+      phone: cvData.contactInfo?.phone || undefined,
+      summary: cvData.summary || undefined,
+      location: city ? { city, region: region || undefined } : undefined,
+      profiles: linkedin ? [{ network: 'LinkedIn', url: linkedin }] : [],
+    },
+    work: (cvData.workExperience || []).map(job => {
+      const range = parseDateRange(job.dates);
+      return {
+        name: job.company,
+        position: job.jobTitle,
+        location: job.location || undefined,
+        startDate: toIsoDate(range.start),
+        endDate: range.isCurrent ? undefined : toIsoDate(range.end),
+        highlights: job.responsibilities,
+      };
+    }),
+    education: (cvData.education || []).map(edu => {
+      const range = parseDateRange(edu.dates);
+      return {
+        institution: edu.institution,
+        studyType: edu.degree,
+        startDate: toIsoDate(range.start),
+        endDate: toIsoDate(range.end),
+        score: edu.gpa || undefined,
+      };
+    }),
+    // Skill groups become named skills with keywords, which is how JSON Resume groups them.
+    skills: [
+      ...(cvData.skillGroups || []).map(group => ({ name: group.category, keywords: group.skills })),
+      ...ungroupedSkillIndexes(cvData).map(i => ({ name: cvData.skills[i] })),
+    ],
+    projects: (cvData.projects || []).map(project => {
+      const range = parseDateRange(project.dates);
+      return {
+        name: project.name,
+        description: project.description || undefined,
+        url: project.url || undefined,
+        startDate: toIsoDate(range.start),
+        endDate: range.isCurrent ? undefined : toIsoDate(range.end),
+      };
+    }),
+    certificates: (cvData.certifications || []).map(cert => ({ name: cert.name, issuer: cert.issuer || undefined, date: isoDateOf(cert.date) })),
+    languages: (cvData.languages || []).map(language => ({ language: language.language, fluency: language.proficiency || undefined })),
+    publications: (cvData.publications || []).map(publication => ({
+      name: publication.title,
+      publisher: publication.publisher || undefined,
+      releaseDate: isoDateOf(publication.date),
+      url: publication.url || undefined,
+    })),
+    awards: (cvData.awards || []).map(award => ({ title: award.title, awarder: award.issuer || undefined, date: isoDateOf(award.date) })),
+    volunteer: (cvData.volunteering || []).map(work => {
+      const range = parseDateRange(work.dates);
+      return {
+        organization: work.organization,
+        position: work.role,
+        startDate: toIsoDate(range.start),
+        endDate: range.isCurrent ? undefined : toIsoDate(range.end),
+        highlights: work.responsibilities,
+      };
+    }),
+  };
+}
+
+/** Renders the CV in the given text format. */
+export function exportCvAsText(cvData: CvData, format: TextExportFormat, template?: CvTemplateDefinition): string {
+  switch (format) {
+    case 'text':
+      return toPlainText(cvData, template);
+    case 'markdown':
+      return toMarkdown(cvData, template);
+    case 'json-resume':
+      return JSON.stringify(toJsonResume(cvData), null, 2) + '\n';
+  }
+}
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+
+// Builds the command-line tool for Node. Unlike the app build, nothing is baked in from .env:
+// the LLM settings are read from the environment each time the tool runs.
+export default defineConfig({
+  resolve: {
+    // The default pdf.js build relies on APIs that only newer Node versions have.
+    alias: [{ find: /^pdfjs-dist$/, replacement: 'pdfjs-dist/legacy/build/pdf.mjs' }],
+  },
+  build: {
+    ssr: 'cli/index.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: { entryFileNames: 'cv-optimizer.js' },
+    },
+  },
+});
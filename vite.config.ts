@@ -6,7 +6,13 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL),
+        'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY),
+        'process.env.LOCAL_OCR_LANGUAGES': JSON.stringify(env.LOCAL_OCR_LANGUAGES),
+        'process.env.LOCAL_OCR_LANG_PATH': JSON.stringify(env.LOCAL_OCR_LANG_PATH)
       },
       resolve: {
         alias: {
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run in Node, so they use the same pdf.js build as the command-line tool (see vite.cli.config.ts).
+export default defineConfig({
+  resolve: {
+    alias: [{ find: /^pdfjs-dist$/, replacement: 'pdfjs-dist/legacy/build/pdf.mjs' }],
+  },
+});